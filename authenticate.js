@@ -11,7 +11,7 @@ async function authenticate() {
     console.log('Starting authentication...\n');
     const token = await authManager.getToken();
     console.log('\n✓ Authentication successful!');
-    console.log('Token cached to .cache/azure-token.json');
+    console.log('Token cached to .cache/azure-tokens.json');
     console.log('\nYou can now use the MCP server in VS Code.');
   } catch (error) {
     console.error('Authentication failed:', error.message);
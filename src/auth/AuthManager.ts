@@ -1,108 +1,394 @@
-import { DefaultAzureCredential, AccessToken } from '@azure/identity';
+import {
+  AzureCliCredential,
+  ClientCertificateCredential,
+  ClientSecretCredential,
+  DefaultAzureCredential,
+  DeviceCodeCredential,
+  ManagedIdentityCredential,
+  deserializeAuthenticationRecord,
+  serializeAuthenticationRecord,
+  useIdentityPlugin,
+} from '@azure/identity';
+import type { AuthenticationRecord, DeviceCodeInfo, TokenCredential } from '@azure/identity';
 import { promises as fs } from 'fs';
 import path from 'path';
-import type { Config } from '../config.js';
+import type { AuthStrategy, Config } from '../config.js';
+
+const LOG_ANALYTICS_SCOPES = ['https://api.loganalytics.io/.default'];
+const GRAPH_SCOPES = ['https://graph.microsoft.com/.default'];
+const MANAGEMENT_SCOPES = ['https://management.azure.com/.default'];
+
+// Tokens are refreshed once they are within this window of expiring
+const REFRESH_WINDOW_MS = 5 * 60 * 1000;
+
+const TOKEN_STORE_VERSION = 1;
 
 interface CachedToken {
   token: string;
   expiresOn: number;
+  tenantId: string;
+  scopes: string[];
 }
 
+interface TokenStoreFile {
+  version: number;
+  tokens: Record<string, CachedToken>;
+}
+
+export type DeviceCodePromptHandler = (info: DeviceCodeInfo) => void;
+
+export interface AccountInfo {
+  [key: string]: unknown;
+  type: 'user' | 'application';
+  name?: string;
+  objectId?: string;
+  appId?: string;
+}
+
+export interface TokenStatus {
+  [key: string]: unknown;
+  resource: string;
+  scopes: string[];
+  expiresOn: string;
+  expiresInSeconds: number;
+  expiringSoon: boolean;
+}
+
+export interface AuthStatus {
+  [key: string]: unknown;
+  strategy: AuthStrategy;
+  tenantId: string;
+  tokenCachePersistence: boolean;
+  account: AccountInfo | null;
+  tokens: TokenStatus[];
+}
+
+// Shown when token acquisition fails, to point at the likely fix for each strategy
+const STRATEGY_HINTS: Record<AuthStrategy, string> = {
+  'default': 'Make sure you are authenticated with Azure CLI (run: az login) or set AZURE_AUTH_STRATEGY explicitly',
+  'device-code': 'Complete the device code sign-in prompt within its time limit',
+  'client-secret': 'Check AZURE_CLIENT_ID and AZURE_CLIENT_SECRET',
+  'client-certificate': 'Check AZURE_CLIENT_ID and AZURE_CLIENT_CERTIFICATE_PATH',
+  'managed-identity': 'Managed identity is only available when running in Azure',
+  'azure-cli': 'Make sure you are authenticated with Azure CLI (run: az login)',
+};
+
 export class AuthManager {
   private config: Config;
-  private credential: DefaultAzureCredential;
-  private cachedToken: CachedToken | null = null;
+  private credential: TokenCredential | null = null;
+  private tokenStore: Map<string, CachedToken> = new Map();
+  private tokenStoreLoaded = false;
+  private pendingTokens: Map<string, Promise<string>> = new Map();
   private tokenFilePath: string;
+  private authRecordFilePath: string;
+  private authenticationRecord: AuthenticationRecord | undefined;
+  private deviceCodePromptHandler: DeviceCodePromptHandler | null = null;
 
   constructor(config: Config) {
     this.config = config;
-    this.tokenFilePath = path.join(config.tokenCacheDir, 'azure-token.json');
-
-    // Use DefaultAzureCredential - tries multiple auth methods automatically:
-    // 1. Environment variables (AZURE_CLIENT_ID, AZURE_CLIENT_SECRET, AZURE_TENANT_ID)
-    // 2. Azure CLI (az login)
-    // 3. Visual Studio Code
-    // 4. Managed Identity (when running in Azure)
-    this.credential = new DefaultAzureCredential({
-      tenantId: config.tenantId,
+    this.tokenFilePath = path.join(config.tokenCacheDir, 'azure-tokens.json');
+    this.authRecordFilePath = path.join(config.tokenCacheDir, 'authentication-record.json');
+  }
+
+  /**
+   * Forward device code prompts (e.g. to the MCP client as logging messages)
+   */
+  setDeviceCodePromptHandler(handler: DeviceCodePromptHandler | null): void {
+    this.deviceCodePromptHandler = handler;
+  }
+
+  /**
+   * Get an access token for the given scopes, using the cached token for that
+   * tenant and scope set if it is not about to expire
+   */
+  async getToken(scopes: string[] = LOG_ANALYTICS_SCOPES): Promise<string> {
+    await this.loadTokenStore();
+
+    const key = this.getTokenKey(scopes);
+    const cached = this.tokenStore.get(key);
+    if (cached && !this.isTokenExpiringSoon(scopes)) {
+      return cached.token;
+    }
+
+    // Share a single in-flight acquisition between concurrent callers
+    const pending = this.pendingTokens.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const acquisition = this.acquireToken(key, scopes, cached).finally(() => {
+      this.pendingTokens.delete(key);
     });
+    this.pendingTokens.set(key, acquisition);
+    return acquisition;
+  }
+
+  /**
+   * Get Microsoft Graph token
+   */
+  async getGraphToken(): Promise<string> {
+    return this.getToken(GRAPH_SCOPES);
+  }
+
+  /**
+   * Get Azure Resource Manager token
+   */
+  async getManagementToken(): Promise<string> {
+    return this.getToken(MANAGEMENT_SCOPES);
+  }
+
+  /**
+   * Force token refresh for the given scopes
+   */
+  async refreshToken(scopes: string[] = LOG_ANALYTICS_SCOPES): Promise<string> {
+    await this.loadTokenStore();
+    this.tokenStore.delete(this.getTokenKey(scopes));
+    await this.saveTokenStore();
+    return this.getToken(scopes);
+  }
+
+  /**
+   * Check if the token for the given scopes is missing, expired or will expire soon (within 5 minutes)
+   */
+  isTokenExpiringSoon(scopes: string[] = LOG_ANALYTICS_SCOPES): boolean {
+    const cached = this.tokenStore.get(this.getTokenKey(scopes));
+    if (!cached) return true;
+    return cached.expiresOn < Date.now() + REFRESH_WINDOW_MS;
   }
 
   /**
-   * Get an access token, using cached token if still valid or acquiring a new one
+   * Report the active strategy, signed-in account and token expiry per resource
    */
-  async getToken(scopes: string[] = ['https://api.loganalytics.io/.default']): Promise<string> {
-    // Check if cached token is still valid
-    if (this.cachedToken && this.cachedToken.expiresOn > Date.now()) {
-      return this.cachedToken.token;
+  async getAuthStatus(): Promise<AuthStatus> {
+    await this.loadTokenStore();
+
+    const now = Date.now();
+    const tokens = [...this.tokenStore.values()]
+      .filter(token => token.tenantId === this.config.tenantId)
+      .sort((a, b) => b.expiresOn - a.expiresOn);
+
+    if (this.config.authStrategy === 'device-code' && !this.authenticationRecord) {
+      this.authenticationRecord = await this.loadAuthenticationRecord();
     }
 
-    // Try to load token from disk
-    await this.loadCachedToken();
-    if (this.cachedToken && this.cachedToken.expiresOn > Date.now()) {
-      return this.cachedToken.token;
+    let account: AccountInfo | null = null;
+    if (this.authenticationRecord) {
+      account = { type: 'user', name: this.authenticationRecord.username };
+    } else if (tokens.length > 0) {
+      account = this.getAccountFromToken(tokens[0].token);
     }
 
-    // Token expired or doesn't exist, get a new one
-    const tokenResponse = await this.credential.getToken(scopes);
+    return {
+      strategy: this.config.authStrategy,
+      tenantId: this.config.tenantId,
+      tokenCachePersistence: this.config.tokenCachePersistence,
+      account,
+      tokens: tokens.map(token => ({
+        resource: this.getResource(token.scopes),
+        scopes: token.scopes,
+        expiresOn: new Date(token.expiresOn).toISOString(),
+        expiresInSeconds: Math.max(0, Math.round((token.expiresOn - now) / 1000)),
+        expiringSoon: token.expiresOn < now + REFRESH_WINDOW_MS,
+      })),
+    };
+  }
+
+  /**
+   * Acquire a new token from the credential. A still-valid token is kept if
+   * refreshing ahead of expiry fails.
+   */
+  private async acquireToken(key: string, scopes: string[], previous: CachedToken | undefined): Promise<string> {
+    let tokenResponse;
+    try {
+      const credential = await this.getCredential();
+
+      // Device code sign-in happens once; the record lets later runs acquire tokens silently
+      if (credential instanceof DeviceCodeCredential && !this.authenticationRecord) {
+        this.authenticationRecord = await credential.authenticate(scopes);
+        await this.saveAuthenticationRecord();
+      }
+
+      tokenResponse = await credential.getToken(scopes);
+    } catch (error) {
+      if (previous && previous.expiresOn > Date.now()) {
+        console.error('Warning: Token refresh failed, using cached token until it expires:', error);
+        return previous.token;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Authentication with the ${this.config.authStrategy} strategy failed: ${message}. ${STRATEGY_HINTS[this.config.authStrategy]}`);
+    }
 
     if (!tokenResponse) {
-      throw new Error('Failed to acquire access token. Make sure you are authenticated with Azure CLI (run: az login)');
+      throw new Error(`Failed to acquire access token. ${STRATEGY_HINTS[this.config.authStrategy]}`);
     }
 
-    // Cache the token
-    this.cachedToken = {
+    this.tokenStore.set(key, {
       token: tokenResponse.token,
       expiresOn: tokenResponse.expiresOnTimestamp,
-    };
+      tenantId: this.config.tenantId,
+      scopes: [...scopes].sort(),
+    });
 
-    // Save to disk
-    await this.saveCachedToken();
+    await this.saveTokenStore();
 
     return tokenResponse.token;
   }
 
   /**
-   * Get Microsoft Graph token
+   * Create the credential on first use, registering the persistent token
+   * cache plugin beforehand when it is enabled
    */
-  async getGraphToken(): Promise<string> {
-    return this.getToken(['https://graph.microsoft.com/.default']);
+  private async getCredential(): Promise<TokenCredential> {
+    if (this.credential) {
+      return this.credential;
+    }
+
+    if (this.config.tokenCachePersistence) {
+      // Loaded lazily: the plugin depends on native OS keychain bindings
+      const { cachePersistencePlugin } = await import('@azure/identity-cache-persistence');
+      useIdentityPlugin(cachePersistencePlugin);
+    }
+
+    this.credential = await this.createCredential();
+    return this.credential;
   }
 
   /**
-   * Force token refresh
+   * Build the credential for the configured strategy
    */
-  async refreshToken(): Promise<string> {
-    this.cachedToken = null;
-    await this.deleteCachedToken();
-    return this.getToken();
+  private async createCredential(): Promise<TokenCredential> {
+    const { tenantId, clientId } = this.config;
+    const tokenCachePersistenceOptions = {
+      enabled: this.config.tokenCachePersistence,
+      name: 'azure-schema-mcp',
+    };
+
+    switch (this.config.authStrategy) {
+      case 'device-code':
+        this.authenticationRecord = await this.loadAuthenticationRecord();
+        return new DeviceCodeCredential({
+          tenantId,
+          clientId,
+          tokenCachePersistenceOptions,
+          authenticationRecord: this.authenticationRecord,
+          userPromptCallback: (info) => {
+            // stdout belongs to the MCP protocol, so prompts go to stderr and the handler
+            console.error(info.message);
+            this.deviceCodePromptHandler?.(info);
+          },
+        });
+
+      case 'client-secret':
+        return new ClientSecretCredential(tenantId, clientId!, this.config.clientSecret!, {
+          tokenCachePersistenceOptions,
+        });
+
+      case 'client-certificate':
+        return new ClientCertificateCredential(
+          tenantId,
+          clientId!,
+          {
+            certificatePath: this.config.clientCertificatePath!,
+            certificatePassword: this.config.clientCertificatePassword,
+          },
+          { tokenCachePersistenceOptions }
+        );
+
+      case 'managed-identity':
+        return new ManagedIdentityCredential(clientId ? { clientId } : {});
+
+      case 'azure-cli':
+        return new AzureCliCredential({ tenantId });
+
+      case 'default':
+      default:
+        // DefaultAzureCredential tries multiple auth methods automatically:
+        // 1. Environment variables (AZURE_CLIENT_ID, AZURE_CLIENT_SECRET, AZURE_TENANT_ID)
+        // 2. Azure CLI (az login)
+        // 3. Visual Studio Code
+        // 4. Managed Identity (when running in Azure)
+        return new DefaultAzureCredential({ tenantId });
+    }
   }
 
   /**
-   * Load cached token from disk
+   * Read the signed-in account from the claims of an access token
    */
-  private async loadCachedToken(): Promise<void> {
+  private getAccountFromToken(token: string): AccountInfo | null {
+    try {
+      const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString('utf-8'));
+      const userName = payload.upn || payload.preferred_username || payload.unique_name;
+      if (userName) {
+        return { type: 'user', name: userName, objectId: payload.oid };
+      }
+      return { type: 'application', appId: payload.appid || payload.azp, objectId: payload.oid };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Resource (audience) of a scope set, e.g. https://graph.microsoft.com
+   */
+  private getResource(scopes: string[]): string {
+    const scope = scopes[0] || '';
+    try {
+      return new URL(scope).origin;
+    } catch {
+      return scope;
+    }
+  }
+
+  /**
+   * Tokens are keyed by tenant and the (order-independent) set of scopes
+   */
+  private getTokenKey(scopes: string[]): string {
+    return `${this.config.tenantId}|${[...new Set(scopes)].sort().join(' ')}`;
+  }
+
+  /**
+   * Load the token store from disk (once)
+   */
+  private async loadTokenStore(): Promise<void> {
+    if (this.tokenStoreLoaded) return;
+    this.tokenStoreLoaded = true;
+
+    // With persistence enabled, raw tokens are never written to disk
+    if (this.config.tokenCachePersistence) return;
+
     try {
       const data = await fs.readFile(this.tokenFilePath, 'utf-8');
-      this.cachedToken = JSON.parse(data);
+      const store: TokenStoreFile = JSON.parse(data);
+      if (store.version !== TOKEN_STORE_VERSION || !store.tokens) return;
+
+      const now = Date.now();
+      for (const [key, token] of Object.entries(store.tokens)) {
+        if (token.expiresOn > now) {
+          this.tokenStore.set(key, token);
+        }
+      }
     } catch (error) {
       // Token file doesn't exist or is invalid, ignore
-      this.cachedToken = null;
     }
   }
 
   /**
-   * Save token to disk
+   * Save the token store to disk
    */
-  private async saveCachedToken(): Promise<void> {
-    if (!this.cachedToken) return;
+  private async saveTokenStore(): Promise<void> {
+    if (this.config.tokenCachePersistence) return;
+
+    const store: TokenStoreFile = {
+      version: TOKEN_STORE_VERSION,
+      tokens: Object.fromEntries(this.tokenStore),
+    };
 
     try {
       await fs.mkdir(this.config.tokenCacheDir, { recursive: true });
       await fs.writeFile(
         this.tokenFilePath,
-        JSON.stringify(this.cachedToken, null, 2),
-        'utf-8'
+        JSON.stringify(store, null, 2),
+        { encoding: 'utf-8', mode: 0o600 }
       );
     } catch (error) {
       console.error('Warning: Failed to cache token to disk:', error);
@@ -110,22 +396,29 @@ export class AuthManager {
   }
 
   /**
-   * Delete cached token
+   * Load the device code authentication record from disk
    */
-  private async deleteCachedToken(): Promise<void> {
+  private async loadAuthenticationRecord(): Promise<AuthenticationRecord | undefined> {
     try {
-      await fs.unlink(this.tokenFilePath);
+      const data = await fs.readFile(this.authRecordFilePath, 'utf-8');
+      return deserializeAuthenticationRecord(data);
     } catch (error) {
-      // Ignore errors
+      // Not signed in yet, ignore
+      return undefined;
     }
   }
 
   /**
-   * Check if token is expired or will expire soon (within 5 minutes)
+   * Save the device code authentication record (account metadata, no secrets)
    */
-  isTokenExpiringSoon(): boolean {
-    if (!this.cachedToken) return true;
-    const fiveMinutes = 5 * 60 * 1000;
-    return this.cachedToken.expiresOn < Date.now() + fiveMinutes;
+  private async saveAuthenticationRecord(): Promise<void> {
+    if (!this.authenticationRecord) return;
+
+    try {
+      await fs.mkdir(this.config.tokenCacheDir, { recursive: true });
+      await fs.writeFile(this.authRecordFilePath, serializeAuthenticationRecord(this.authenticationRecord), 'utf-8');
+    } catch (error) {
+      console.error('Warning: Failed to save authentication record:', error);
+    }
   }
 }
@@ -0,0 +1,57 @@
+import type { LogsQueryOptions, LogsQueryResult, QueryTimeInterval } from '@azure/monitor-query';
+import type { Config } from '../config.js';
+import type { AuthManager } from '../auth/AuthManager.js';
+import { FixtureStore } from './FixtureStore.js';
+import { LiveBackend } from './LiveBackend.js';
+import { PolicyBackend } from './PolicyBackend.js';
+import { RecordingBackend } from './RecordingBackend.js';
+import { ReplayBackend } from './ReplayBackend.js';
+import { QueryPolicy } from '../services/QueryPolicy.js';
+
+export interface GraphResponse {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  body: any;
+}
+
+export interface GraphRequestOptions {
+  abortSignal?: AbortSignal;
+}
+
+/**
+ * Everything the services need from Azure: Log Analytics queries, Graph requests
+ * and Azure Resource Manager (management plane) requests.
+ * Implementations talk to Azure directly, record what they see, or replay recordings.
+ */
+export interface AzureBackend {
+  queryWorkspace(
+    workspaceId: string,
+    query: string,
+    timespan: QueryTimeInterval,
+    options?: LogsQueryOptions
+  ): Promise<LogsQueryResult>;
+
+  fetchGraph(url: string, options?: GraphRequestOptions): Promise<GraphResponse>;
+
+  fetchManagement(url: string, options?: GraphRequestOptions): Promise<GraphResponse>;
+}
+
+/**
+ * Create the backend for the configured mode, behind the query policy
+ */
+export function createBackend(config: Config, authManager: AuthManager): AzureBackend {
+  return new PolicyBackend(createModeBackend(config, authManager), new QueryPolicy(config));
+}
+
+function createModeBackend(config: Config, authManager: AuthManager): AzureBackend {
+  switch (config.backendMode) {
+    case 'record':
+      return new RecordingBackend(new LiveBackend(authManager), new FixtureStore(config.fixtureDir));
+    case 'replay':
+      return new ReplayBackend(new FixtureStore(config.fixtureDir));
+    case 'live':
+    default:
+      return new LiveBackend(authManager);
+  }
+}
@@ -0,0 +1,156 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { LogsQueryResult, QueryTimeInterval } from '@azure/monitor-query';
+import type { GraphResponse } from './AzureBackend.js';
+
+// End times this close to the current time are treated as "until now"
+const OPEN_END_TOLERANCE_MS = 60 * 1000;
+
+export type FixtureRequest =
+  | { kind: 'logs'; workspaceId: string; query: string; timespan: QueryTimeInterval }
+  | { kind: 'graph'; url: string }
+  | { kind: 'management'; url: string };
+
+export interface FixtureError {
+  name: string;
+  message: string;
+  code?: string;
+  statusCode?: number;
+}
+
+export type FixtureResponse =
+  | { result: LogsQueryResult }
+  | { graph: GraphResponse }
+  | { management: GraphResponse }
+  | { error: FixtureError };
+
+interface FixtureFile {
+  request: FixtureRequest;
+  response: FixtureResponse;
+  recordedAt: string;
+}
+
+/**
+ * Fixture files on disk, one per distinct request, named by a hash of the request
+ */
+export class FixtureStore {
+  private fixtureDir: string;
+
+  constructor(fixtureDir: string) {
+    this.fixtureDir = fixtureDir;
+  }
+
+  /**
+   * Read the recorded response for a request, or null if none was recorded
+   */
+  async read(request: FixtureRequest): Promise<FixtureResponse | null> {
+    try {
+      const data = await fs.readFile(this.getFixturePath(request), 'utf-8');
+      const fixture: FixtureFile = JSON.parse(data);
+      return reviveResponse(fixture.response);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Record the response for a request, replacing any earlier recording
+   */
+  async write(request: FixtureRequest, response: FixtureResponse): Promise<void> {
+    const fixture: FixtureFile = {
+      request,
+      response,
+      recordedAt: new Date().toISOString(),
+    };
+
+    try {
+      await fs.mkdir(this.fixtureDir, { recursive: true });
+      await fs.writeFile(this.getFixturePath(request), JSON.stringify(fixture, null, 2), 'utf-8');
+    } catch (error) {
+      console.error('Warning: Failed to write fixture to disk:', error);
+    }
+  }
+
+  /**
+   * Describe a request for error messages
+   */
+  describe(request: FixtureRequest): string {
+    switch (request.kind) {
+      case 'logs':
+        return `query "${request.query}" against workspace ${request.workspaceId}`;
+      case 'graph':
+        return `Graph request ${request.url}`;
+      case 'management':
+        return `management request ${request.url}`;
+    }
+  }
+
+  private getFixturePath(request: FixtureRequest): string {
+    // Round-trip through JSON so Date timespans hash the same as their recorded form
+    const normalized = JSON.stringify(JSON.parse(JSON.stringify(toFixtureKey(request))));
+    const hash = createHash('sha256').update(normalized).digest('hex').slice(0, 16);
+    return path.join(this.fixtureDir, `${request.kind}-${hash}.json`);
+  }
+}
+
+/**
+ * The parts of a request a fixture is matched on. A timespan with only a start
+ * runs until the moment it is sent, so an end time within OPEN_END_TOLERANCE_MS
+ * of now is keyed as "now" and such requests replay whenever they are made.
+ */
+function toFixtureKey(request: FixtureRequest): unknown {
+  if (request.kind !== 'logs' || !('endTime' in request.timespan) || !request.timespan.endTime) {
+    return request;
+  }
+  const endTime = new Date(request.timespan.endTime);
+  if (Math.abs(Date.now() - endTime.getTime()) > OPEN_END_TOLERANCE_MS) {
+    return request;
+  }
+  return { ...request, timespan: { ...request.timespan, endTime: 'now' } };
+}
+
+/**
+ * Turn an error thrown by a live call into something that survives JSON
+ */
+export function toFixtureError(error: unknown): FixtureError {
+  const err = error as { name?: string; message?: string; code?: string; statusCode?: number };
+  return {
+    name: err?.name || 'Error',
+    message: err?.message || String(error),
+    code: err?.code,
+    statusCode: err?.statusCode,
+  };
+}
+
+/**
+ * Restore values JSON cannot represent: datetime cells become Date objects again
+ * (as the SDK returns them) and the partial error becomes an Error
+ */
+function reviveResponse(response: FixtureResponse): FixtureResponse {
+  if (!('result' in response)) {
+    return response;
+  }
+
+  const result: any = response.result;
+  const tables = [...(result.tables || []), ...(result.partialTables || [])];
+  for (const table of tables) {
+    const dateIndices = (table.columnDescriptors || [])
+      .map((column: any, index: number) => (column.type === 'datetime' ? index : -1))
+      .filter((index: number) => index >= 0);
+
+    for (const row of table.rows || []) {
+      for (const index of dateIndices) {
+        if (typeof row[index] === 'string') {
+          row[index] = new Date(row[index]);
+        }
+      }
+    }
+  }
+
+  if (result.partialError) {
+    result.partialError = Object.assign(new Error(result.partialError.message), result.partialError);
+  }
+
+  return { result };
+}
@@ -0,0 +1,65 @@
+import { LogsQueryClient } from '@azure/monitor-query';
+import type { LogsQueryOptions, LogsQueryResult, QueryTimeInterval } from '@azure/monitor-query';
+import type { AuthManager } from '../auth/AuthManager.js';
+import type { AzureBackend, GraphRequestOptions, GraphResponse } from './AzureBackend.js';
+
+/**
+ * Backend that calls Log Analytics, Microsoft Graph and Azure Resource Manager directly
+ */
+export class LiveBackend implements AzureBackend {
+  private authManager: AuthManager;
+  private client: LogsQueryClient;
+
+  constructor(authManager: AuthManager) {
+    this.authManager = authManager;
+    this.client = new LogsQueryClient({
+      getToken: async () => ({
+        token: await this.authManager.getToken(),
+        expiresOnTimestamp: Date.now() + 3600000,
+      }),
+    });
+  }
+
+  async queryWorkspace(
+    workspaceId: string,
+    query: string,
+    timespan: QueryTimeInterval,
+    options?: LogsQueryOptions
+  ): Promise<LogsQueryResult> {
+    return this.client.queryWorkspace(workspaceId, query, timespan, options);
+  }
+
+  async fetchGraph(url: string, options?: GraphRequestOptions): Promise<GraphResponse> {
+    return this.fetchWithToken(url, await this.authManager.getGraphToken(), options);
+  }
+
+  async fetchManagement(url: string, options?: GraphRequestOptions): Promise<GraphResponse> {
+    return this.fetchWithToken(url, await this.authManager.getManagementToken(), options);
+  }
+
+  private async fetchWithToken(url: string, token: string, options?: GraphRequestOptions): Promise<GraphResponse> {
+    const response = await fetch(url, {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+      signal: options?.abortSignal,
+    });
+
+    // JSON for resources, XML for $metadata; error responses are not always JSON
+    const text = await response.text();
+    let body: unknown = text || null;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // Keep the raw text
+    }
+
+    return {
+      ok: response.ok,
+      status: response.status,
+      statusText: response.statusText,
+      body,
+    };
+  }
+}
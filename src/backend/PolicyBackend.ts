@@ -0,0 +1,35 @@
+import type { LogsQueryOptions, LogsQueryResult, QueryTimeInterval } from '@azure/monitor-query';
+import type { AzureBackend, GraphRequestOptions, GraphResponse } from './AzureBackend.js';
+import type { QueryPolicy } from '../services/QueryPolicy.js';
+
+/**
+ * Backend that checks every Log Analytics query against the query policy
+ * before passing it on, and caps its rows at the policy's row limit
+ */
+export class PolicyBackend implements AzureBackend {
+  private inner: AzureBackend;
+  private policy: QueryPolicy;
+
+  constructor(inner: AzureBackend, policy: QueryPolicy) {
+    this.inner = inner;
+    this.policy = policy;
+  }
+
+  async queryWorkspace(
+    workspaceId: string,
+    query: string,
+    timespan: QueryTimeInterval,
+    options?: LogsQueryOptions
+  ): Promise<LogsQueryResult> {
+    this.policy.enforce(query, timespan);
+    return this.inner.queryWorkspace(workspaceId, this.policy.applyRowLimit(query), timespan, options);
+  }
+
+  async fetchGraph(url: string, options?: GraphRequestOptions): Promise<GraphResponse> {
+    return this.inner.fetchGraph(url, options);
+  }
+
+  async fetchManagement(url: string, options?: GraphRequestOptions): Promise<GraphResponse> {
+    return this.inner.fetchManagement(url, options);
+  }
+}
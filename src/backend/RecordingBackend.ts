@@ -0,0 +1,80 @@
+import type { LogsQueryOptions, LogsQueryResult, QueryTimeInterval } from '@azure/monitor-query';
+import type { AzureBackend, GraphRequestOptions, GraphResponse } from './AzureBackend.js';
+import { FixtureStore, toFixtureError } from './FixtureStore.js';
+import type { FixtureRequest } from './FixtureStore.js';
+
+/**
+ * Backend that passes every call through to another backend and records
+ * the request and response (or error) as a fixture file
+ */
+export class RecordingBackend implements AzureBackend {
+  private inner: AzureBackend;
+  private fixtures: FixtureStore;
+
+  constructor(inner: AzureBackend, fixtures: FixtureStore) {
+    this.inner = inner;
+    this.fixtures = fixtures;
+  }
+
+  async queryWorkspace(
+    workspaceId: string,
+    query: string,
+    timespan: QueryTimeInterval,
+    options?: LogsQueryOptions
+  ): Promise<LogsQueryResult> {
+    const request: FixtureRequest = { kind: 'logs', workspaceId, query, timespan };
+    try {
+      const result = await this.inner.queryWorkspace(workspaceId, query, timespan, options);
+      await this.fixtures.write(request, { result: serializeResult(result) });
+      return result;
+    } catch (error) {
+      // A cancelled call says nothing about Azure, so it is not recorded
+      if (!options?.abortSignal?.aborted) {
+        await this.fixtures.write(request, { error: toFixtureError(error) });
+      }
+      throw error;
+    }
+  }
+
+  async fetchGraph(url: string, options?: GraphRequestOptions): Promise<GraphResponse> {
+    const request: FixtureRequest = { kind: 'graph', url };
+    try {
+      const graph = await this.inner.fetchGraph(url, options);
+      await this.fixtures.write(request, { graph });
+      return graph;
+    } catch (error) {
+      // A cancelled call says nothing about Azure, so it is not recorded
+      if (!options?.abortSignal?.aborted) {
+        await this.fixtures.write(request, { error: toFixtureError(error) });
+      }
+      throw error;
+    }
+  }
+
+  async fetchManagement(url: string, options?: GraphRequestOptions): Promise<GraphResponse> {
+    const request: FixtureRequest = { kind: 'management', url };
+    try {
+      const management = await this.inner.fetchManagement(url, options);
+      await this.fixtures.write(request, { management });
+      return management;
+    } catch (error) {
+      if (!options?.abortSignal?.aborted) {
+        await this.fixtures.write(request, { error: toFixtureError(error) });
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Errors lose their message when stringified, so copy the partial error into a plain object
+ */
+function serializeResult(result: LogsQueryResult): LogsQueryResult {
+  if (!('partialError' in result) || !result.partialError) {
+    return result;
+  }
+  return {
+    ...result,
+    partialError: { ...toFixtureError(result.partialError), code: result.partialError.code },
+  } as LogsQueryResult;
+}
@@ -0,0 +1,59 @@
+import type { LogsQueryOptions, LogsQueryResult, QueryTimeInterval } from '@azure/monitor-query';
+import type { AzureBackend, GraphRequestOptions, GraphResponse } from './AzureBackend.js';
+import type { FixtureRequest, FixtureResponse, FixtureStore } from './FixtureStore.js';
+
+/**
+ * Backend that serves recorded fixtures and never touches the network
+ */
+export class ReplayBackend implements AzureBackend {
+  private fixtures: FixtureStore;
+
+  constructor(fixtures: FixtureStore) {
+    this.fixtures = fixtures;
+  }
+
+  async queryWorkspace(
+    workspaceId: string,
+    query: string,
+    timespan: QueryTimeInterval,
+    _options?: LogsQueryOptions
+  ): Promise<LogsQueryResult> {
+    const response = await this.replay({ kind: 'logs', workspaceId, query, timespan });
+    if (!('result' in response)) {
+      throw new Error('Recorded fixture does not contain a query result');
+    }
+    return response.result;
+  }
+
+  async fetchGraph(url: string, _options?: GraphRequestOptions): Promise<GraphResponse> {
+    const response = await this.replay({ kind: 'graph', url });
+    if (!('graph' in response)) {
+      throw new Error('Recorded fixture does not contain a Graph response');
+    }
+    return response.graph;
+  }
+
+  async fetchManagement(url: string, _options?: GraphRequestOptions): Promise<GraphResponse> {
+    const response = await this.replay({ kind: 'management', url });
+    if (!('management' in response)) {
+      throw new Error('Recorded fixture does not contain a management response');
+    }
+    return response.management;
+  }
+
+  private async replay(request: FixtureRequest): Promise<FixtureResponse> {
+    const response = await this.fixtures.read(request);
+    if (!response) {
+      throw new Error(
+        `No recorded fixture for ${this.fixtures.describe(request)}. ` +
+        'Run the server with AZURE_BACKEND_MODE=record to capture it.'
+      );
+    }
+
+    if ('error' in response) {
+      throw Object.assign(new Error(response.error.message), response.error);
+    }
+
+    return response;
+  }
+}
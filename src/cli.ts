@@ -0,0 +1,425 @@
+import { parseArgs } from 'util';
+import { loadConfig } from './config.js';
+import { createServices } from './server.js';
+import type { ServerServices } from './server.js';
+import { CODE_LANGUAGES } from './services/CodeGeneration.js';
+import { GRAPH_API_VERSIONS } from './services/GraphMetadata.js';
+import type { GraphApiVersion } from './services/GraphMetadata.js';
+import type { OperationOptions } from './services/Operation.js';
+import { QUERY_RESULT_FORMATS, formatQueryResult } from './services/QueryResultFormat.js';
+import type { QueryResultFormat } from './services/QueryResultFormat.js';
+import { MAX_LOOKBACK_DAYS, TABLE_CATEGORIES } from './services/TableCatalog.js';
+import type { TableCategory } from './services/TableCatalog.js';
+
+export const EXIT_OK = 0;
+export const EXIT_FAILURE = 1;
+export const EXIT_USAGE = 2;
+
+export interface CliOutput {
+  out(text: string): void;
+  err(text: string): void;
+}
+
+/**
+ * Thrown for unknown commands, missing arguments and invalid options; the CLI exits with EXIT_USAGE
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+type OptionValues = Record<string, string | boolean | undefined>;
+
+interface CliCommand {
+  usage: string;
+  description: string;
+  /** Tool whose timeout applies to the command */
+  tool?: string;
+  options: Record<string, { type: 'string' | 'boolean'; short?: string }>;
+  run(services: ServerServices, args: string[], values: OptionValues, output: CliOutput, options: OperationOptions): Promise<number>;
+}
+
+const COMMON_OPTIONS = {
+  json: { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' },
+} as const;
+
+const WORKSPACE_OPTION = { workspace: { type: 'string', short: 'w' } } as const;
+
+const COMMANDS: Record<string, CliCommand> = {
+  schema: {
+    usage: 'schema <table> [--workspace <alias>] [--refresh]',
+    description: 'Show the columns of a Log Analytics table',
+    tool: 'get_kql_table_schema',
+    options: { ...WORKSPACE_OPTION, refresh: { type: 'boolean' } },
+    async run(services, args, values, output, options) {
+      const table = requireArgument(args, 'table');
+      const workspace = stringOption(values, 'workspace');
+      if (values.refresh) {
+        await services.schemaDiscovery.refreshSchema(table, workspace, undefined, options);
+      }
+      const schema = await services.schemaDiscovery.getTableSchema(table, workspace, options);
+
+      if (values.json) {
+        output.out(JSON.stringify(schema, null, 2));
+      } else {
+        output.out(`${schema.tableName} (workspace: ${schema.workspace}${schema.cached ? ', cached' : ''})\n`);
+        output.out(formatColumns(['Column', 'Type'], schema.columns.map(column => [column.name, column.type])));
+      }
+      return EXIT_OK;
+    },
+  },
+
+  query: {
+    usage: 'query <kql> [--workspace <alias>] [--format json|records|markdown|csv|jsonl] [--max-rows <n>] [--timespan <duration>] [--start <time>] [--end <time>] [--dry-run]',
+    description: 'Run a KQL query and print the results (markdown by default)',
+    tool: 'test_kql_query',
+    options: {
+      ...WORKSPACE_OPTION,
+      format: { type: 'string', short: 'f' },
+      'max-rows': { type: 'string' },
+      timespan: { type: 'string', short: 't' },
+      start: { type: 'string' },
+      end: { type: 'string' },
+      'dry-run': { type: 'boolean' },
+    },
+    async run(services, args, values, output, options) {
+      const query = requireArgument(args, 'kql');
+      const format = enumOption(values, 'format', QUERY_RESULT_FORMATS) ?? (values.json ? 'json' : 'markdown');
+      const timespan = values.timespan || values.start || values.end
+        ? { duration: stringOption(values, 'timespan'), start: stringOption(values, 'start'), end: stringOption(values, 'end') }
+        : undefined;
+
+      const result = await services.schemaDiscovery.testQuery({
+        query,
+        workspace: stringOption(values, 'workspace'),
+        maxRows: integerOption(values, 'max-rows'),
+        timespan,
+        dryRun: values['dry-run'] === true,
+      }, options);
+
+      if (result.status === 'DryRun') {
+        output.out(JSON.stringify(result.plan, null, 2));
+        return result.plan?.policy.allowed ? EXIT_OK : EXIT_FAILURE;
+      }
+
+      output.out(formatQueryResult(result, format as QueryResultFormat));
+      if (result.status === 'PartialFailure') {
+        output.err(`Partial failure: ${result.error?.message ?? 'the query returned incomplete results'}`);
+        return EXIT_FAILURE;
+      }
+      if (result.truncated && format !== 'json' && format !== 'records') {
+        output.err(`Showing the first ${result.rowCount} rows; use --max-rows for more`);
+      }
+      return EXIT_OK;
+    },
+  },
+
+  tables: {
+    usage: 'tables [--workspace <alias>] [--pattern <glob>] [--category custom|sentinel|azure-diagnostics|other] [--since <time>] [--lookback-days <n>] [--row-estimates]',
+    description: 'List the tables of a workspace with their ingestion volume',
+    tool: 'list_tables',
+    options: {
+      ...WORKSPACE_OPTION,
+      pattern: { type: 'string', short: 'p' },
+      category: { type: 'string' },
+      since: { type: 'string' },
+      'lookback-days': { type: 'string' },
+      'row-estimates': { type: 'boolean' },
+    },
+    async run(services, _args, values, output, options) {
+      const list = await services.schemaDiscovery.describeTables({
+        workspace: stringOption(values, 'workspace'),
+        pattern: stringOption(values, 'pattern'),
+        category: enumOption(values, 'category', TABLE_CATEGORIES) as TableCategory | undefined,
+        hasDataSince: stringOption(values, 'since'),
+        lookbackDays: integerOption(values, 'lookback-days', MAX_LOOKBACK_DAYS),
+        includeRowEstimates: values['row-estimates'] === true,
+      }, options);
+
+      for (const warning of list.warnings) {
+        output.err(`Warning: ${warning}`);
+      }
+      if (values.json) {
+        output.out(JSON.stringify(list, null, 2));
+      } else {
+        output.out(formatColumns(
+          ['Table', 'Category', 'Last ingestion', 'Total MB', 'Rows'],
+          list.tables.map(table => [
+            table.name,
+            table.category,
+            table.lastIngestion ?? '-',
+            String(table.totalMB),
+            table.rowEstimate === undefined ? '-' : String(table.rowEstimate),
+          ])
+        ));
+        output.out(`\n${list.count} tables in ${list.workspace} (last ${list.lookbackDays} days)`);
+      }
+      return EXIT_OK;
+    },
+  },
+
+  'graph-schema': {
+    usage: 'graph-schema <endpoint> [--api-version v1.0|beta] [--sample-size <n>] [--refresh]',
+    description: 'Show the sampled properties of a Microsoft Graph endpoint',
+    tool: 'get_graph_api_schema',
+    options: {
+      'api-version': { type: 'string' },
+      'sample-size': { type: 'string' },
+      refresh: { type: 'boolean' },
+    },
+    async run(services, args, values, output, options) {
+      const endpoint = requireArgument(args, 'endpoint');
+      if (!endpoint.startsWith('/')) {
+        throw new UsageError(`The endpoint must start with /, e.g. /users (got "${endpoint}")`);
+      }
+      const apiVersion = (enumOption(values, 'api-version', GRAPH_API_VERSIONS) ?? 'v1.0') as GraphApiVersion;
+      if (values.refresh) {
+        await services.schemaDiscovery.refreshSchema(endpoint, undefined, apiVersion, options);
+      }
+      const schema = await services.schemaDiscovery.getGraphAPISchema(endpoint, integerOption(values, 'sample-size'), apiVersion, options);
+
+      if (values.json) {
+        output.out(JSON.stringify(schema, null, 2));
+      } else {
+        output.out(`${endpoint} (${apiVersion}, ${schema.sampledRecords} records sampled)\n`);
+        output.out(formatColumns(['Property', 'Type', 'Notes'], flattenProperties(schema.properties, '')));
+      }
+      return EXIT_OK;
+    },
+  },
+
+  codegen: {
+    usage: 'codegen <table> [--workspace <alias>] [--language typescript|python] [--framework react|node|inline] [--auth-type msal-browser|default-credential] [--template <name>]',
+    description: 'Generate TypeScript or Python SDK code that queries a table',
+    tool: 'generate_sdk_code',
+    options: {
+      ...WORKSPACE_OPTION,
+      language: { type: 'string' },
+      framework: { type: 'string' },
+      'auth-type': { type: 'string' },
+      template: { type: 'string' },
+    },
+    async run(services, args, values, output, options) {
+      const tableName = requireArgument(args, 'table');
+      const framework = enumOption(values, 'framework', ['react', 'node', 'inline'] as const) ?? 'inline';
+      const code = await services.codeGeneration.generateSDKCode({
+        tableName,
+        workspace: stringOption(values, 'workspace'),
+        language: enumOption(values, 'language', CODE_LANGUAGES),
+        framework,
+        // Browser auth only suits the React template; scripts run on a server or a developer machine
+        authType: enumOption(values, 'auth-type', ['msal-browser', 'default-credential'] as const)
+          ?? (framework === 'react' ? 'msal-browser' : 'default-credential'),
+        template: stringOption(values, 'template'),
+      }, options);
+
+      output.out(values.json ? JSON.stringify({ code }, null, 2) : code);
+      return EXIT_OK;
+    },
+  },
+
+  cache: {
+    usage: 'cache list | cache clear',
+    description: 'List the cached schemas, or delete the schema cache',
+    options: {},
+    async run(services, args, values, output) {
+      const action = requireArgument(args, 'list|clear');
+      if (action === 'clear') {
+        const removed = await services.schemaDiscovery.clearCache();
+        output.out(values.json ? JSON.stringify({ removed }, null, 2) : `Removed ${removed} cached schemas`);
+        return EXIT_OK;
+      }
+      if (action !== 'list') {
+        throw new UsageError(`Unknown cache action "${action}"; use list or clear`);
+      }
+
+      const entries = (await services.schemaDiscovery.listCachedSchemas()).map(entry => ({
+        key: entry.key,
+        sourceType: entry.sourceType,
+        cachedAt: entry.cachedAt,
+        expiresAt: entry.expiresAt,
+        expired: Date.parse(entry.expiresAt) <= Date.now(),
+      }));
+      if (values.json) {
+        output.out(JSON.stringify(entries, null, 2));
+      } else {
+        output.out(formatColumns(
+          ['Key', 'Type', 'Cached at', 'Expired'],
+          entries.map(entry => [entry.key, entry.sourceType, entry.cachedAt, entry.expired ? 'yes' : 'no'])
+        ));
+      }
+      return EXIT_OK;
+    },
+  },
+};
+
+/**
+ * Whether the arguments name a CLI command rather than starting the MCP server
+ */
+export function isCliInvocation(args: string[]): boolean {
+  return args.length > 0 && args[0] !== 'serve';
+}
+
+/**
+ * Run a CLI command with the same configuration, authentication and caches as
+ * the MCP server, and return the process exit code. Services are only created
+ * once the arguments are valid, so help works without any configuration.
+ */
+export async function runCli(
+  argv: string[],
+  output: CliOutput = processOutput,
+  load: () => ServerServices = () => createServices(loadConfig())
+): Promise<number> {
+  const [name, ...rest] = argv;
+  if (!name || name === 'help' || name === '--help' || name === '-h') {
+    output.out(usage());
+    return EXIT_OK;
+  }
+
+  const command = COMMANDS[name];
+  if (!command) {
+    output.err(`Unknown command "${name}"\n\n${usage()}`);
+    return EXIT_USAGE;
+  }
+
+  let args: string[];
+  let values: OptionValues;
+  try {
+    ({ positionals: args, values } = parseArgs({
+      args: rest,
+      options: { ...COMMON_OPTIONS, ...command.options },
+      allowPositionals: true,
+      strict: true,
+    }) as { positionals: string[]; values: OptionValues });
+  } catch (error) {
+    output.err(`${errorMessage(error)}\n\nUsage: azure-schema-mcp ${command.usage}`);
+    return EXIT_USAGE;
+  }
+
+  if (values.help) {
+    output.out(`Usage: azure-schema-mcp ${command.usage}\n\n${command.description}`);
+    return EXIT_OK;
+  }
+
+  try {
+    const services = load();
+    const abortSignal = command.tool
+      ? AbortSignal.timeout(services.operations.timeoutFor(command.tool) * 1000)
+      : undefined;
+    return await command.run(services, args, values, output, { abortSignal });
+  } catch (error) {
+    if (error instanceof UsageError) {
+      output.err(`${error.message}\n\nUsage: azure-schema-mcp ${command.usage}`);
+      return EXIT_USAGE;
+    }
+    output.err(`Error: ${errorMessage(error)}`);
+    return EXIT_FAILURE;
+  }
+}
+
+const processOutput: CliOutput = {
+  out: text => process.stdout.write(text + '\n'),
+  err: text => process.stderr.write(text + '\n'),
+};
+
+function usage(): string {
+  return [
+    'Usage: azure-schema-mcp [command] [options]',
+    '',
+    'Without a command (or with "serve"), starts the MCP server.',
+    '',
+    'Commands:',
+    ...Object.values(COMMANDS).map(command => `  ${command.usage}\n      ${command.description}`),
+    '',
+    'Options for every command:',
+    '  --json       Print JSON instead of human-readable output',
+    '  --help, -h   Show the usage of a command',
+    '',
+    'Exit codes: 0 success, 1 failure, 2 invalid usage',
+  ].join('\n');
+}
+
+function requireArgument(args: string[], name: string): string {
+  if (args.length === 0) {
+    throw new UsageError(`Missing <${name}>`);
+  }
+  if (args.length > 1) {
+    throw new UsageError(`Unexpected arguments: ${args.slice(1).join(' ')} (quote a query that contains spaces)`);
+  }
+  return args[0];
+}
+
+function stringOption(values: OptionValues, name: string): string | undefined {
+  const value = values[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+function integerOption(values: OptionValues, name: string, max?: number): number | undefined {
+  const value = stringOption(values, name);
+  if (value === undefined) {
+    return undefined;
+  }
+  const number = Number(value);
+  if (!/^\d+$/.test(value) || number < 1) {
+    throw new UsageError(`--${name} must be a positive integer`);
+  }
+  if (max !== undefined && number > max) {
+    throw new UsageError(`--${name} must be at most ${max}`);
+  }
+  return number;
+}
+
+function enumOption<T extends string>(values: OptionValues, name: string, allowed: readonly T[]): T | undefined {
+  const value = stringOption(values, name);
+  if (value !== undefined && !allowed.includes(value as T)) {
+    throw new UsageError(`--${name} must be one of: ${allowed.join(', ')}`);
+  }
+  return value as T | undefined;
+}
+
+/**
+ * Left-aligned columns separated by two spaces, with a header row
+ */
+function formatColumns(headers: string[], rows: string[][]): string {
+  const widths = headers.map((header, i) => Math.max(header.length, ...rows.map(row => row[i].length)));
+  return [headers, ...rows]
+    .map(row => row.map((cell, i) => (i === row.length - 1 ? cell : cell.padEnd(widths[i]))).join('  '))
+    .join('\n');
+}
+
+interface PropertyNode {
+  type: string;
+  required: boolean;
+  nullable: boolean;
+  format?: string;
+  properties?: Record<string, PropertyNode>;
+  items?: PropertyNode;
+}
+
+/**
+ * One row per property, nested properties under dotted paths
+ */
+function flattenProperties(properties: Record<string, PropertyNode>, prefix: string): string[][] {
+  return Object.entries(properties).flatMap(([name, property]) => {
+    const path = prefix + name;
+    const element = property.items;
+    const notes = [
+      property.required ? 'required' : 'optional',
+      property.nullable ? 'nullable' : undefined,
+      property.format ?? element?.format,
+    ].filter(Boolean).join(', ');
+    const children = property.properties ?? element?.properties;
+
+    return [
+      [path, element ? `${element.type}[]` : property.type, notes],
+      ...(children ? flattenProperties(children, element ? `${path}[].` : `${path}.`) : []),
+    ];
+  });
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
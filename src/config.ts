@@ -2,35 +2,380 @@ import dotenv from 'dotenv';
 import path from 'path';
 import { fileURLToPath } from 'url';
 
-// Load .env file
-dotenv.config();
+// Load .env file; quietly, since stdout carries MCP messages and CLI output
+dotenv.config({ quiet: true });
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+export const AUTH_STRATEGIES = [
+  'default',
+  'device-code',
+  'client-secret',
+  'client-certificate',
+  'managed-identity',
+  'azure-cli',
+] as const;
+
+export type AuthStrategy = typeof AUTH_STRATEGIES[number];
+
+export const BACKEND_MODES = ['live', 'record', 'replay'] as const;
+
+export type BackendMode = typeof BACKEND_MODES[number];
+
+export const TRANSPORTS = ['stdio', 'http'] as const;
+
+export type Transport = typeof TRANSPORTS[number];
+
+export const HTTP_AUTH_MODES = ['bearer', 'api-key', 'none'] as const;
+
+export type HttpAuthMode = typeof HTTP_AUTH_MODES[number];
+
+// Operators, plugins and functions that reach outside the workspace or run code
+export const DEFAULT_DENIED_OPERATORS = [
+  'externaldata', 'external_table', 'workspace', 'app', 'resource', 'adx', 'arg',
+  'http_request', 'http_request_post', 'sql_request', 'cosmosdb_sql_request', 'mysql_request',
+  'postgresql_request', 'python', 'r',
+];
+
+// Tools that query several workspaces or scan many files get longer than the default
+export const DEFAULT_TOOL_TIMEOUTS: Record<string, number> = {
+  detect_table_workspace: 300,
+  find_working_query_examples: 300,
+};
+
+export interface QueryPolicyConfig {
+  /** Longest query timespan as an ISO 8601 duration */
+  maxTimespan?: string;
+  deniedOperators: string[];
+  /** Table names or * patterns; when set, no other tables may be queried */
+  allowedTables?: string[];
+  deniedTables: string[];
+  /** Every result is capped at this many rows */
+  maxRows?: number;
+}
+
+export interface HttpConfig {
+  host: string;
+  port: number;
+  /** How clients authenticate: an Authorization: Bearer header, an X-API-Key header, or not at all */
+  auth: HttpAuthMode;
+  /** Accepted bearer tokens or API keys */
+  tokens: string[];
+  /** Seconds a session may stay idle before it is closed */
+  sessionIdleTimeout: number;
+}
+
+export interface WorkspaceConfig {
+  alias: string;
+  workspaceId: string;
+  /** Azure Resource Manager ID, used to read table metadata from the management plane */
+  resourceId?: string;
+  description?: string;
+  isDefault: boolean;
+}
+
 export interface Config {
   tenantId: string;
+  /** ID of the default workspace */
   workspaceId: string;
+  workspaces: WorkspaceConfig[];
   tokenCacheDir: string;
   schemaCacheDir: string;
+  /** Cache TTL in seconds per source type */
+  schemaCacheTtl: {
+    kql: number;
+    graph: number;
+  };
+  tokenCachePersistence: boolean;
+  authStrategy: AuthStrategy;
+  clientId?: string;
+  clientSecret?: string;
+  clientCertificatePath?: string;
+  clientCertificatePassword?: string;
+  backendMode: BackendMode;
+  fixtureDir: string;
+  /** Roots scanned by find_working_query_examples */
+  querySearchPaths: string[];
+  /** Local copy of the Graph $metadata (CSDL) document, used instead of fetching it */
+  graphMetadataPath?: string;
+  /** Upper bounds for Graph schema sampling across @odata.nextLink pages */
+  graphSampleBudget: {
+    maxRecords: number;
+    maxPages: number;
+  };
+  /** Directory test_kql_query writes exported results to */
+  exportDir: string;
+  /** User code templates, added to the built-in ones and replacing them by name */
+  codeTemplateDir?: string;
+  /** Checked before every Log Analytics query */
+  queryPolicy: QueryPolicyConfig;
+  /** Seconds a tool call may run before it is aborted, per tool name */
+  toolTimeouts: {
+    default: number;
+    tools: Record<string, number>;
+  };
+  /** stdio for a single client, or Streamable HTTP for many sessions sharing one process */
+  transport: Transport;
+  http: HttpConfig;
 }
 
 export function loadConfig(): Config {
   const tenantId = process.env.AZURE_TENANT_ID;
-  const workspaceId = process.env.AZURE_WORKSPACE_ID;
+  const workspaces = parseWorkspaces(
+    process.env.AZURE_WORKSPACES,
+    process.env.AZURE_WORKSPACE_ID,
+    process.env.AZURE_WORKSPACE_RESOURCE_ID
+  );
 
   if (!tenantId) {
     throw new Error('AZURE_TENANT_ID environment variable is required');
   }
 
-  if (!workspaceId) {
-    throw new Error('AZURE_WORKSPACE_ID environment variable is required');
+  if (workspaces.length === 0) {
+    throw new Error('AZURE_WORKSPACE_ID (or AZURE_WORKSPACES) environment variable is required');
+  }
+
+  const authStrategy = (process.env.AZURE_AUTH_STRATEGY || 'default') as AuthStrategy;
+  if (!AUTH_STRATEGIES.includes(authStrategy)) {
+    throw new Error(`AZURE_AUTH_STRATEGY must be one of: ${AUTH_STRATEGIES.join(', ')}`);
+  }
+
+  const backendMode = (process.env.AZURE_BACKEND_MODE || 'live') as BackendMode;
+  if (!BACKEND_MODES.includes(backendMode)) {
+    throw new Error(`AZURE_BACKEND_MODE must be one of: ${BACKEND_MODES.join(', ')}`);
+  }
+
+  const transport = (process.env.MCP_TRANSPORT || 'stdio') as Transport;
+  if (!TRANSPORTS.includes(transport)) {
+    throw new Error(`MCP_TRANSPORT must be one of: ${TRANSPORTS.join(', ')}`);
+  }
+
+  const httpAuth = (process.env.MCP_HTTP_AUTH || 'bearer') as HttpAuthMode;
+  if (!HTTP_AUTH_MODES.includes(httpAuth)) {
+    throw new Error(`MCP_HTTP_AUTH must be one of: ${HTTP_AUTH_MODES.join(', ')}`);
+  }
+
+  const httpTokens = parseList('MCP_HTTP_TOKENS') ?? [];
+  if (transport === 'http' && httpAuth !== 'none' && httpTokens.length === 0) {
+    throw new Error('MCP_HTTP_TOKENS is required for the http transport (or set MCP_HTTP_AUTH=none)');
+  }
+
+  const clientId = process.env.AZURE_CLIENT_ID || undefined;
+  const clientSecret = process.env.AZURE_CLIENT_SECRET || undefined;
+  const clientCertificatePath = process.env.AZURE_CLIENT_CERTIFICATE_PATH || undefined;
+
+  if (authStrategy === 'client-secret' && (!clientId || !clientSecret)) {
+    throw new Error('AZURE_CLIENT_ID and AZURE_CLIENT_SECRET environment variables are required for the client-secret strategy');
+  }
+
+  if (authStrategy === 'client-certificate' && (!clientId || !clientCertificatePath)) {
+    throw new Error('AZURE_CLIENT_ID and AZURE_CLIENT_CERTIFICATE_PATH environment variables are required for the client-certificate strategy');
   }
 
   return {
     tenantId,
-    workspaceId,
+    workspaceId: workspaces.find(w => w.isDefault)!.workspaceId,
+    workspaces,
     tokenCacheDir: process.env.TOKEN_CACHE_DIR || path.join(process.cwd(), '.cache'),
     schemaCacheDir: process.env.SCHEMA_CACHE_DIR || path.join(process.cwd(), '.cache', 'schemas'),
+    schemaCacheTtl: {
+      kql: parseSeconds('SCHEMA_CACHE_TTL_KQL', 24 * 60 * 60),
+      graph: parseSeconds('SCHEMA_CACHE_TTL_GRAPH', 7 * 24 * 60 * 60),
+    },
+    tokenCachePersistence: process.env.TOKEN_CACHE_PERSISTENCE === 'true',
+    authStrategy,
+    clientId,
+    clientSecret,
+    clientCertificatePath,
+    clientCertificatePassword: process.env.AZURE_CLIENT_CERTIFICATE_PASSWORD || undefined,
+    backendMode,
+    fixtureDir: process.env.FIXTURE_DIR || path.join(process.cwd(), 'fixtures'),
+    querySearchPaths: process.env.QUERY_SEARCH_PATHS
+      ? process.env.QUERY_SEARCH_PATHS.split(',').map(p => p.trim()).filter(Boolean)
+      : [process.cwd()],
+    graphMetadataPath: process.env.GRAPH_METADATA_PATH || undefined,
+    graphSampleBudget: {
+      maxRecords: parsePositiveInteger('GRAPH_SAMPLE_MAX_RECORDS', 500),
+      maxPages: parsePositiveInteger('GRAPH_SAMPLE_MAX_PAGES', 5),
+    },
+    exportDir: process.env.QUERY_EXPORT_DIR || path.join(process.cwd(), 'exports'),
+    codeTemplateDir: process.env.CODE_TEMPLATE_DIR || undefined,
+    queryPolicy: {
+      maxTimespan: parseIsoDuration('QUERY_POLICY_MAX_TIMESPAN'),
+      deniedOperators: parseList('QUERY_POLICY_DENIED_OPERATORS') ?? DEFAULT_DENIED_OPERATORS,
+      allowedTables: parseList('QUERY_POLICY_ALLOWED_TABLES'),
+      deniedTables: parseList('QUERY_POLICY_DENIED_TABLES') ?? [],
+      maxRows: process.env.QUERY_POLICY_MAX_ROWS ? parsePositiveInteger('QUERY_POLICY_MAX_ROWS', 0) : undefined,
+    },
+    toolTimeouts: {
+      default: parsePositiveInteger('TOOL_TIMEOUT_SECONDS', 120),
+      tools: { ...DEFAULT_TOOL_TIMEOUTS, ...parseToolTimeouts('TOOL_TIMEOUTS') },
+    },
+    transport,
+    http: {
+      host: process.env.MCP_HTTP_HOST || '127.0.0.1',
+      port: parsePositiveInteger('MCP_HTTP_PORT', 3000),
+      auth: httpAuth,
+      tokens: httpTokens,
+      sessionIdleTimeout: parsePositiveInteger('MCP_HTTP_SESSION_IDLE_SECONDS', 30 * 60),
+    },
   };
 }
+
+/**
+ * Build the workspace registry from AZURE_WORKSPACES, a JSON array such as
+ * [{"alias":"sentinel","workspaceId":"<guid>","description":"...","default":true}].
+ * AZURE_WORKSPACE_ID, when not already listed, is registered under the alias "default".
+ */
+function parseWorkspaces(
+  registryJson: string | undefined,
+  workspaceId: string | undefined,
+  resourceId: string | undefined
+): WorkspaceConfig[] {
+  const workspaces: WorkspaceConfig[] = [];
+
+  if (registryJson) {
+    let entries: unknown;
+    try {
+      entries = JSON.parse(registryJson);
+    } catch {
+      throw new Error('AZURE_WORKSPACES must be a JSON array of workspaces');
+    }
+    if (!Array.isArray(entries)) {
+      throw new Error('AZURE_WORKSPACES must be a JSON array of workspaces');
+    }
+
+    for (const entry of entries) {
+      if (!entry || typeof entry.alias !== 'string' || typeof entry.workspaceId !== 'string') {
+        throw new Error('Each AZURE_WORKSPACES entry needs an "alias" and a "workspaceId"');
+      }
+      if (workspaces.some(w => w.alias.toLowerCase() === entry.alias.toLowerCase())) {
+        throw new Error(`Duplicate workspace alias in AZURE_WORKSPACES: ${entry.alias}`);
+      }
+      workspaces.push({
+        alias: entry.alias,
+        workspaceId: entry.workspaceId,
+        resourceId: parseResourceId(entry.resourceId, `AZURE_WORKSPACES entry "${entry.alias}"`),
+        description: typeof entry.description === 'string' ? entry.description : undefined,
+        isDefault: entry.default === true,
+      });
+    }
+  }
+
+  if (workspaceId && !workspaces.some(w => w.workspaceId === workspaceId)) {
+    const clash = workspaces.find(w => w.alias.toLowerCase() === 'default');
+    if (clash) {
+      throw new Error(
+        `AZURE_WORKSPACE_ID ${workspaceId} is not in AZURE_WORKSPACES, which already uses the alias "default" for ${clash.workspaceId}; ` +
+        'list AZURE_WORKSPACE_ID in the registry or rename that entry'
+      );
+    }
+    workspaces.unshift({
+      alias: 'default',
+      workspaceId,
+      resourceId: parseResourceId(resourceId, 'AZURE_WORKSPACE_RESOURCE_ID'),
+      isDefault: false,
+    });
+  }
+
+  const defaults = workspaces.filter(w => w.isDefault);
+  if (defaults.length > 1) {
+    throw new Error('Only one AZURE_WORKSPACES entry can be marked as default');
+  }
+  if (defaults.length === 0 && workspaces.length > 0) {
+    // Fall back to AZURE_WORKSPACE_ID, then to the first registered workspace
+    const fallback = workspaces.find(w => w.workspaceId === workspaceId) || workspaces[0];
+    fallback.isDefault = true;
+  }
+
+  return workspaces;
+}
+
+/**
+ * Read a non-negative number of seconds from an environment variable
+ */
+function parseSeconds(name: string, defaultValue: number): number {
+  const value = process.env[name];
+  if (!value) {
+    return defaultValue;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isFinite(seconds) || seconds < 0) {
+    throw new Error(`${name} must be a non-negative number of seconds`);
+  }
+  return seconds;
+}
+
+/**
+ * Read a positive integer from an environment variable
+ */
+function parsePositiveInteger(name: string, defaultValue: number): number {
+  const value = process.env[name];
+  if (!value) {
+    return defaultValue;
+  }
+
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new Error(`${name} must be a positive integer`);
+  }
+  return number;
+}
+
+/**
+ * Read a comma-separated list from an environment variable. Unset means undefined;
+ * an empty value is an empty list.
+ */
+function parseList(name: string): string[] | undefined {
+  const value = process.env[name];
+  if (value === undefined) {
+    return undefined;
+  }
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Read an ISO 8601 duration such as P30D or PT12H from an environment variable
+ */
+function parseIsoDuration(name: string): string | undefined {
+  const value = process.env[name];
+  if (!value) {
+    return undefined;
+  }
+  if (!/^P(?!$)(\d+W)?(\d+D)?(T(?=\d)(\d+H)?(\d+M)?(\d+S)?)?$/i.test(value)) {
+    throw new Error(`${name} must be an ISO 8601 duration such as P30D or PT12H`);
+  }
+  return value.toUpperCase();
+}
+
+/**
+ * Check that a workspace resource ID looks like
+ * /subscriptions/{id}/resourceGroups/{group}/providers/Microsoft.OperationalInsights/workspaces/{name}
+ */
+function parseResourceId(value: unknown, source: string): string | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  if (typeof value !== 'string' || !/^\/subscriptions\/[^/]+\/resourceGroups\/[^/]+\/providers\/Microsoft\.OperationalInsights\/workspaces\/[^/]+$/i.test(value)) {
+    throw new Error(`${source} must be a Log Analytics workspace resource ID (/subscriptions/.../workspaces/<name>)`);
+  }
+  return value;
+}
+
+/**
+ * Read per-tool timeouts from a comma-separated list of tool_name=seconds pairs
+ */
+function parseToolTimeouts(name: string): Record<string, number> {
+  const timeouts: Record<string, number> = {};
+  for (const pair of parseList(name) ?? []) {
+    const [tool, seconds] = pair.split('=').map(part => part.trim());
+    const number = Number(seconds);
+    if (!tool || !Number.isInteger(number) || number <= 0) {
+      throw new Error(`${name} entries must look like tool_name=seconds, got "${pair}"`);
+    }
+    timeouts[tool] = number;
+  }
+  return timeouts;
+}
@@ -0,0 +1,1150 @@
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ListResourcesRequestSchema, SubscribeRequestSchema, UnsubscribeRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { AuthManager } from './auth/AuthManager.js';
+import { createBackend } from './backend/AzureBackend.js';
+import { SchemaDiscovery } from './services/SchemaDiscovery.js';
+import { CodeGeneration, CODE_LANGUAGES } from './services/CodeGeneration.js';
+import { KqlValidator } from './services/KqlValidator.js';
+import { TypeGeneration } from './services/TypeGeneration.js';
+import { QueryResultExporter, QUERY_RESULT_FORMATS, formatQueryResult } from './services/QueryResultFormat.js';
+import { QueryPolicyError } from './services/QueryPolicy.js';
+import { ToolOperations } from './services/Operation.js';
+import { GraphMetadata, GRAPH_API_VERSIONS } from './services/GraphMetadata.js';
+import { SchemaResources, KQL_SCHEMA_TEMPLATE, GRAPH_SCHEMA_TEMPLATE } from './services/SchemaResources.js';
+import { SchemaPrompts } from './services/SchemaPrompts.js';
+import { CODE_TEMPLATE_KINDS } from './services/CodeTemplates.js';
+import { MAX_LOOKBACK_DAYS, TABLE_CATEGORIES } from './services/TableCatalog.js';
+import { WorkspaceRegistry } from './services/WorkspaceRegistry.js';
+import type { Config } from './config.js';
+
+interface GraphPropertyOutput {
+  type: string;
+  required: boolean;
+  nullable: boolean;
+  format?: string;
+  properties?: Record<string, GraphPropertyOutput>;
+  items?: GraphPropertyOutput;
+  declaredType?: string;
+  source?: 'sampled' | 'declared' | 'both';
+}
+
+interface JsonFieldOutput {
+  type: string;
+  frequency: number;
+  exampleValues: any[];
+  distinctValues?: any[];
+  valueCounts?: Record<string, number>;
+  constantValue?: any;
+  caseVariations?: string[][];
+  properties?: Record<string, JsonFieldOutput>;
+}
+
+/**
+ * Services shared by every MCP session, so sessions share one backend, one
+ * token cache and one warm schema cache
+ */
+export interface ServerServices {
+  config: Config;
+  authManager: AuthManager;
+  workspaces: WorkspaceRegistry;
+  schemaDiscovery: SchemaDiscovery;
+  codeGeneration: CodeGeneration;
+  kqlValidator: KqlValidator;
+  typeGeneration: TypeGeneration;
+  graphMetadata: GraphMetadata;
+  queryResultExporter: QueryResultExporter;
+  operations: ToolOperations;
+  schemaPrompts: SchemaPrompts;
+  /** Servers created for sessions that have not closed yet */
+  servers: Set<McpServer>;
+}
+
+export function createServices(config: Config): ServerServices {
+  // Initialize authentication manager
+  const authManager = new AuthManager(config);
+
+  // Initialize backend (live Azure, or recording/replaying fixtures)
+  const backend = createBackend(config, authManager);
+
+  // Initialize named workspace registry
+  const workspaces = new WorkspaceRegistry(config);
+
+  // Initialize schema discovery service
+  const schemaDiscovery = new SchemaDiscovery(config, backend, workspaces);
+  const codeGeneration = new CodeGeneration(config, backend, schemaDiscovery, workspaces);
+  const kqlValidator = new KqlValidator(schemaDiscovery, workspaces);
+
+  return {
+    config,
+    authManager,
+    workspaces,
+    schemaDiscovery,
+    codeGeneration,
+    kqlValidator,
+    typeGeneration: new TypeGeneration(schemaDiscovery),
+    graphMetadata: new GraphMetadata(config, backend),
+    queryResultExporter: new QueryResultExporter(config),
+    operations: new ToolOperations(config),
+    schemaPrompts: new SchemaPrompts(schemaDiscovery, codeGeneration, kqlValidator),
+    servers: new Set(),
+  };
+}
+
+/**
+ * Create an MCP server with every tool, resource and prompt registered, for a
+ * single client session. Resource subscriptions belong to the session.
+ */
+export function createServer(services: ServerServices): McpServer {
+  const {
+    config,
+    authManager,
+    workspaces,
+    schemaDiscovery,
+    codeGeneration,
+    kqlValidator,
+    typeGeneration,
+    graphMetadata,
+    queryResultExporter,
+    operations,
+    schemaPrompts,
+  } = services;
+
+  const workspaceArg = z.string().optional().describe('Workspace alias or ID from the registry (default: the default workspace)');
+  const apiVersionArg = z.enum(GRAPH_API_VERSIONS).default('v1.0').describe('Microsoft Graph API version (default: v1.0)');
+  // Graph samples never exceed the configured record budget, so larger requests are rejected up front
+  const maxGraphSampleSize = config.graphSampleBudget.maxRecords;
+  const defaultGraphSampleSize = Math.min(10, maxGraphSampleSize);
+  const graphSampleSizeArg = z.number().int().positive().max(maxGraphSampleSize).default(defaultGraphSampleSize);
+  const languageArg = z.enum(CODE_LANGUAGES).default('typescript').describe('Language: typescript, or python (pandas DataFrames; framework does not apply)');
+  const codeAuthTypeArg = z.enum(['msal-browser', 'default-credential']).optional().describe('Authentication type: msal-browser (MSAL in TypeScript, InteractiveBrowserCredential in Python) or default-credential (default: msal-browser for TypeScript, default-credential for Python)');
+  const templateArg = z.string().optional().describe('Code template by name from list_code_templates, e.g. "node" or a user template; overrides framework and authType');
+
+
+  // Create MCP server
+  const server = new McpServer(
+    {
+      name: 'azure-schema-mcp',
+      version: '1.0.0',
+    },
+    {
+      capabilities: { logging: {}, resources: { subscribe: true, listChanged: true } },
+    }
+  );
+
+
+  // Tool: Get KQL table schema
+  server.registerTool(
+    'get_kql_table_schema',
+    {
+      title: 'Get KQL Table Schema',
+      description: 'Discover the schema of an Azure Log Analytics table using the getschema operator',
+      inputSchema: {
+        tableName: z.string().describe('Name of the Log Analytics table (e.g., "QualysHostDetectionV3_CL")'),
+        workspace: workspaceArg,
+      },
+      outputSchema: {
+        tableName: z.string(),
+        workspace: z.string(),
+        columns: z.array(z.object({
+          name: z.string(),
+          type: z.string(),
+          ordinal: z.number(),
+        })),
+        discoveredAt: z.string(),
+        cached: z.boolean(),
+      },
+    },
+    reportPolicyErrors(async ({ tableName, workspace }, extra) => {
+      const schema = await operations.run('get_kql_table_schema', extra, options =>
+        schemaDiscovery.getTableSchema(tableName, workspace, options)
+      );
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(schema, null, 2),
+        }],
+        structuredContent: schema,
+      };
+    })
+  );
+
+  // Tool: Test KQL query
+  const policyEvaluation = z.object({
+    allowed: z.boolean(),
+    violations: z.array(z.object({
+      rule: z.enum(['max-timespan', 'denied-operator', 'denied-table', 'table-not-allowed', 'max-rows']),
+      message: z.string(),
+      value: z.string(),
+    })),
+    tables: z.array(z.string()),
+    operators: z.array(z.string()),
+  });
+
+  const queryResultTable = z.object({
+    name: z.string(),
+    columns: z.array(z.object({
+      name: z.string(),
+      type: z.string(),
+    })),
+    rows: z.union([z.array(z.array(z.any())), z.array(z.record(z.any()))]),
+    rowCount: z.number(),
+    truncated: z.boolean(),
+  });
+
+  server.registerTool(
+    'test_kql_query',
+    {
+      title: 'Test KQL Query',
+      description: 'Execute a KQL query against Azure Log Analytics and return sample results. Every result table is capped at maxRows; partial failures are returned with their error. Results can be rendered as JSON, records, a markdown table, CSV or JSONL, or exported to a file. Queries are checked against the query policy first; dryRun reports what would run without running it.',
+      inputSchema: {
+        query: z.string().describe('KQL query to execute'),
+        maxRows: z.number().int().positive().default(10).describe('Maximum number of rows to return per result table; ignored with exportToFile, which writes every row (default: 10)'),
+        timespan: z.object({
+          duration: z.string().optional().describe('ISO 8601 duration such as "P7D", or "7d", "12h", "30m"'),
+          start: z.string().optional().describe('ISO 8601 start time'),
+          end: z.string().optional().describe('ISO 8601 end time'),
+        }).default({ duration: 'PT1H' }).describe('Time range applied in addition to any filter in the query: a duration, start and end, or one bound with a duration (default: the last hour)'),
+        rowFormat: z.enum(['arrays', 'objects']).default('arrays').describe('Return rows as value arrays in column order, or as objects keyed by column name (default: arrays)'),
+        format: z.enum(QUERY_RESULT_FORMATS).default('json').describe('Text rendering of the result: json, records (JSON with column-keyed rows), markdown, csv or jsonl (csv and jsonl cover the first result table) (default: json)'),
+        exportToFile: z.boolean().default(false).describe('Write the result in the chosen format to a file under the export directory and return its path with a preview of the first rows'),
+        dryRun: z.boolean().default(false).describe('Only check the query against the query policy and return the query, timespan and workspace that would be used'),
+        workspace: workspaceArg,
+      },
+      outputSchema: queryResultTable.extend({
+        status: z.enum(['Success', 'PartialFailure', 'DryRun']),
+        timespan: z.object({
+          duration: z.string().optional(),
+          start: z.string().optional(),
+          end: z.string().optional(),
+        }),
+        error: z.object({ code: z.string(), message: z.string() }).optional(),
+        additionalTables: z.array(queryResultTable).optional(),
+        exportPath: z.string().optional(),
+        exportedRows: z.number().optional(),
+        plan: z.object({
+          workspaceId: z.string(),
+          query: z.string(),
+          timespan: z.record(z.any()),
+          policy: policyEvaluation,
+        }).optional(),
+      }).shape,
+    },
+    reportPolicyErrors(async ({ query, maxRows, timespan, rowFormat, format, exportToFile, dryRun, workspace }, extra) => {
+      // An export holds every row the policy allows, not just the first maxRows
+      const result = await operations.run('test_kql_query', extra, options =>
+        schemaDiscovery.testQuery({ query, maxRows, allRows: exportToFile, timespan, rowFormat, dryRun, workspace }, options)
+      );
+
+      if (result.plan) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify(result.plan, null, 2),
+          }],
+          structuredContent: result,
+        };
+      }
+
+      if (exportToFile) {
+        const { exportPath, exportedRows, preview } = await queryResultExporter.export(result, format);
+        return {
+          content: [
+            { type: 'text', text: `Exported ${exportedRows} rows (${format}) to ${exportPath}. Preview:` },
+            { type: 'text', text: formatQueryResult(preview, format) },
+          ],
+          structuredContent: { ...preview, exportPath, exportedRows },
+        };
+      }
+
+      const content = [{ type: 'text' as const, text: formatQueryResult(result, format) }];
+      if ((format === 'csv' || format === 'jsonl') && result.additionalTables) {
+        content.push({ type: 'text', text: `${result.additionalTables.length} additional result table(s) are not included; use format json, records or markdown to see them.` });
+      }
+      return { content, structuredContent: result };
+    })
+  );
+
+  // Tool: Validate KQL query
+  server.registerTool(
+    'validate_kql_query',
+    {
+      title: 'Validate KQL Query',
+      description: 'Check a KQL query against the table schemas without running it: reports unknown tables, unknown columns (with suggestions), unknown operators and column type mismatches',
+      inputSchema: {
+        query: z.string().describe('KQL query to validate'),
+        workspace: workspaceArg,
+      },
+      outputSchema: {
+        status: z.enum(['valid', 'invalid', 'unknown']),
+        tables: z.array(z.object({
+          name: z.string(),
+          status: z.enum(['found', 'unknown', 'unavailable']),
+          columnCount: z.number().optional(),
+        })),
+        issues: z.array(z.object({
+          severity: z.enum(['error', 'warning']),
+          code: z.string(),
+          message: z.string(),
+          line: z.number(),
+          column: z.number(),
+          suggestions: z.array(z.string()).optional(),
+        })),
+      },
+    },
+    reportPolicyErrors(async ({ query, workspace }, extra) => {
+      const result = await operations.run('validate_kql_query', extra, options =>
+        kqlValidator.validate(query, { workspace, ...options })
+      );
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        }],
+        structuredContent: result,
+      };
+    })
+  );
+
+  // Tool: List available tables
+  server.registerTool(
+    'list_tables',
+    {
+      title: 'List Available Tables',
+      description: 'List the tables in the Azure Log Analytics workspace with their category, last ingestion, billable volume and row estimate, based on the Usage table and (with a workspace resourceId) the management-plane table metadata',
+      inputSchema: {
+        pattern: z.string().optional().describe('Table name pattern, * matches anything (e.g., "Security*" or "*_CL")'),
+        category: z.enum(TABLE_CATEGORIES).optional().describe('Only tables of this category: custom (_CL), sentinel, azure-diagnostics or other'),
+        hasDataSince: z.string().optional().describe('Only tables with ingestion since this ISO 8601 time or timespan ago (e.g., "7d")'),
+        lookbackDays: z.number().int().min(1).max(MAX_LOOKBACK_DAYS).default(30).describe(`Days of Usage data to read, at most ${MAX_LOOKBACK_DAYS} (default: 30)`),
+        includeRowEstimates: z.boolean().default(false).describe('Count the rows ingested by the listed tables in the lookback window. This scans every listed table, so narrow the list with pattern or category first (default: false)'),
+        workspace: workspaceArg,
+      },
+      outputSchema: {
+        workspace: z.string(),
+        lookbackDays: z.number(),
+        sources: z.array(z.enum(['usage', 'management'])),
+        tables: z.array(z.object({
+          name: z.string(),
+          category: z.enum(TABLE_CATEGORIES),
+          lastIngestion: z.string().optional(),
+          billableMB: z.number(),
+          totalMB: z.number(),
+          rowEstimate: z.number().optional(),
+          solutions: z.array(z.string()),
+          categories: z.array(z.string()).optional(),
+          plan: z.string().optional(),
+          retentionInDays: z.number().optional(),
+        })),
+        count: z.number(),
+        warnings: z.array(z.string()),
+      },
+    },
+    reportPolicyErrors(async ({ pattern, category, hasDataSince, lookbackDays, includeRowEstimates, workspace }, extra) => {
+      const result = await operations.run('list_tables', extra, options =>
+        schemaDiscovery.describeTables({ workspace, pattern, category, hasDataSince, lookbackDays, includeRowEstimates }, options)
+      );
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        }],
+        structuredContent: result,
+      };
+    })
+  );
+
+  // Tool: Get Graph API schema
+  const graphProperty: z.ZodType<GraphPropertyOutput> = z.lazy(() => z.object({
+    type: z.string(),
+    required: z.boolean(),
+    nullable: z.boolean(),
+    format: z.string().optional(),
+    properties: z.record(graphProperty).optional(),
+    items: graphProperty.optional(),
+    declaredType: z.string().optional(),
+    source: z.enum(['sampled', 'declared', 'both']).optional(),
+  }));
+
+  server.registerTool(
+    'get_graph_api_schema',
+    {
+      title: 'Get Graph API Schema',
+      description: 'Introspect a Microsoft Graph API endpoint to discover its schema. Sampled records are merged into a nested property tree with nested objects, array element types, optional/nullable properties and string formats.',
+      inputSchema: {
+        endpoint: z.string().describe('Graph API endpoint path (e.g., "/security/alerts")'),
+        sampleSize: graphSampleSizeArg.describe(`Number of sample records to fetch, following @odata.nextLink pages, at most ${maxGraphSampleSize} (default: ${defaultGraphSampleSize})`),
+        includeDeclared: z.boolean().default(false).describe('Merge in the declared entity type from the Graph $metadata, adding properties that were null or absent in every sample'),
+        apiVersion: apiVersionArg,
+      },
+      outputSchema: {
+        endpoint: z.string(),
+        apiVersion: z.enum(GRAPH_API_VERSIONS),
+        sampledRecords: z.number(),
+        pagesFetched: z.number(),
+        properties: z.record(graphProperty),
+        discoveredAt: z.string(),
+        declaredType: z.string().optional(),
+      },
+    },
+    async ({ endpoint, sampleSize, includeDeclared, apiVersion }, extra) => {
+      const schema = await operations.run('get_graph_api_schema', extra, async options => {
+        const sampled = await schemaDiscovery.getGraphAPISchema(endpoint, sampleSize, apiVersion, options);
+        if (!includeDeclared) {
+          return sampled;
+        }
+        const entityType = await graphMetadata.getEntityType(endpoint, apiVersion, options);
+        return {
+          ...sampled,
+          declaredType: entityType.typeName,
+          properties: graphMetadata.mergeDeclared(sampled.properties, entityType),
+        };
+      });
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(schema, null, 2),
+        }],
+        structuredContent: schema,
+      };
+    }
+  );
+
+  // Tool: Get Graph entity type
+  const declaredProperty = z.object({
+    type: z.string(),
+    isCollection: z.boolean(),
+    nullable: z.boolean(),
+    kind: z.enum(['primitive', 'enum', 'complex', 'entity', 'unknown']),
+    declaredIn: z.string(),
+  });
+
+  server.registerTool(
+    'get_graph_entity_type',
+    {
+      title: 'Get Graph Entity Type',
+      description: 'Resolve a Microsoft Graph endpoint path to its declared entity type from the OData $metadata (CSDL) document, including inherited and navigation properties and the complex and enum types it uses',
+      inputSchema: {
+        endpoint: z.string().describe('Graph API endpoint path (e.g., "/security/alerts_v2" or "/users/{id}/manager")'),
+        apiVersion: apiVersionArg,
+      },
+      outputSchema: {
+        endpoint: z.string(),
+        apiVersion: z.enum(GRAPH_API_VERSIONS),
+        typeName: z.string(),
+        kind: z.enum(['entity', 'complex']),
+        isCollection: z.boolean(),
+        baseTypes: z.array(z.string()),
+        abstract: z.boolean(),
+        key: z.array(z.string()),
+        properties: z.record(declaredProperty),
+        navigationProperties: z.record(z.object({
+          type: z.string(),
+          isCollection: z.boolean(),
+          containsTarget: z.boolean(),
+          declaredIn: z.string(),
+        })),
+        complexTypes: z.record(z.record(declaredProperty)),
+        enumTypes: z.record(z.array(z.string())),
+        metadataSource: z.string(),
+      },
+    },
+    async ({ endpoint, apiVersion }, extra) => {
+      const entityType = await operations.run('get_graph_entity_type', extra, options =>
+        graphMetadata.getEntityType(endpoint, apiVersion, options)
+      );
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(entityType, null, 2),
+        }],
+        structuredContent: entityType,
+      };
+    }
+  );
+
+  // Tool: Analyze JSON field schema
+  const jsonField: z.ZodType<JsonFieldOutput> = z.lazy(() => z.object({
+    type: z.string(),
+    frequency: z.number(),
+    exampleValues: z.array(z.any()),
+    distinctValues: z.array(z.any()).optional(),
+    valueCounts: z.record(z.number()).optional(),
+    constantValue: z.any().optional(),
+    caseVariations: z.array(z.array(z.string())).optional(),
+    properties: z.record(jsonField).optional(),
+  }));
+
+  server.registerTool(
+    'analyze_json_field_schema',
+    {
+      title: 'Analyze JSON Field Schema',
+      description: 'Infer the nested structure of a dynamic (JSON) column by sampling rows, grouped by a discriminator field such as "Type"',
+      inputSchema: {
+        tableName: z.string().describe('Name of the Log Analytics table (e.g., "SecurityAlert")'),
+        jsonFieldName: z.string().describe('Name of the dynamic column to analyze (e.g., "Entities")'),
+        timeRange: z.string().default('30d').describe('Time range in KQL format (default: 30d)'),
+        sampleSize: z.number().default(100).describe('Number of rows to sample (default: 100)'),
+        discriminator: z.string().default('Type').describe('Field used to group objects into structures (default: "Type")'),
+        workspace: workspaceArg,
+      },
+      outputSchema: {
+        tableName: z.string(),
+        workspace: z.string(),
+        fieldName: z.string(),
+        baseType: z.string(),
+        discriminator: z.string(),
+        timeRange: z.string(),
+        sampledRows: z.number(),
+        commonStructures: z.array(z.object({
+          entityType: z.string(),
+          frequency: z.number(),
+          fields: z.record(jsonField),
+          fieldNameCaseVariations: z.array(z.array(z.string())).optional(),
+        })),
+        discoveredAt: z.string(),
+        cached: z.boolean(),
+      },
+    },
+    reportPolicyErrors(async ({ tableName, jsonFieldName, timeRange, sampleSize, discriminator, workspace }, extra) => {
+      const schema = await operations.run('analyze_json_field_schema', extra, options =>
+        schemaDiscovery.analyzeJsonFieldSchema({
+          tableName,
+          workspace,
+          jsonFieldName,
+          timeRange,
+          sampleSize,
+          discriminator,
+        }, options)
+      );
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(schema, null, 2),
+        }],
+        structuredContent: schema,
+      };
+    })
+  );
+
+  // Tool: Refresh schema cache
+  server.registerTool(
+    'refresh_schema',
+    {
+      title: 'Refresh Schema Cache',
+      description: 'Force refresh of cached schema for a table or API endpoint',
+      inputSchema: {
+        source: z.string().describe('Table name or API endpoint to refresh'),
+        workspace: workspaceArg,
+        apiVersion: apiVersionArg.describe('Microsoft Graph API version, for API endpoints (default: v1.0)'),
+      },
+      outputSchema: {
+        success: z.boolean(),
+        source: z.string(),
+        refreshedAt: z.string(),
+      },
+    },
+    reportPolicyErrors(async ({ source, workspace, apiVersion }, extra) => {
+      const result = await operations.run('refresh_schema', extra, options =>
+        schemaDiscovery.refreshSchema(source, workspace, apiVersion, options)
+      );
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        }],
+        structuredContent: result,
+      };
+    })
+  );
+
+  // Tool: Compare schema versions
+  const schemaVersion = z.object({
+    ref: z.string(),
+    capturedAt: z.string(),
+    contentHash: z.string(),
+  });
+  const columnChange = z.object({ name: z.string(), type: z.string(), ordinal: z.number() });
+  const propertyChange = z.object({ name: z.string(), type: z.string(), required: z.boolean() });
+
+  server.registerTool(
+    'compare_schema',
+    {
+      title: 'Compare Schema Versions',
+      description: 'Diff two versions of a table or API endpoint schema (cached, live, previous or a history snapshot taken on refresh) and report added, removed, retyped and reordered columns or changed Graph properties',
+      inputSchema: {
+        source: z.string().describe('Table name or API endpoint (starting with "/")'),
+        from: z.string().default('cached').describe('Version to compare from: "cached", "live", "previous" or a snapshot id (default: cached)'),
+        to: z.string().default('live').describe('Version to compare to: "cached", "live", "previous" or a snapshot id (default: live)'),
+        workspace: workspaceArg,
+        apiVersion: apiVersionArg.describe('Microsoft Graph API version, for API endpoints (default: v1.0)'),
+      },
+      outputSchema: {
+        source: z.string(),
+        cacheKey: z.string(),
+        from: schemaVersion,
+        to: schemaVersion,
+        identical: z.boolean(),
+        columns: z.object({
+          added: z.array(columnChange),
+          removed: z.array(columnChange),
+          retyped: z.array(z.object({ name: z.string(), from: z.string(), to: z.string() })),
+          reordered: z.array(z.object({ name: z.string(), fromOrdinal: z.number(), toOrdinal: z.number() })),
+        }).optional(),
+        properties: z.object({
+          added: z.array(propertyChange),
+          removed: z.array(propertyChange),
+          changed: z.array(z.object({
+            name: z.string(),
+            from: z.object({ type: z.string(), required: z.boolean() }),
+            to: z.object({ type: z.string(), required: z.boolean() }),
+          })),
+        }).optional(),
+        snapshots: z.array(z.object({
+          id: z.string(),
+          cachedAt: z.string(),
+          contentHash: z.string(),
+        })),
+      },
+    },
+    reportPolicyErrors(async ({ source, from, to, workspace, apiVersion }, extra) => {
+      const comparison = await operations.run('compare_schema', extra, options =>
+        schemaDiscovery.compareSchema({ source, workspace, apiVersion, from, to }, options)
+      );
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(comparison, null, 2),
+        }],
+        structuredContent: comparison,
+      };
+    })
+  );
+
+  // Tool: Compare Graph API versions
+  const versionProperty = z.object({ name: z.string(), type: z.string(), required: z.boolean() });
+  const versionAvailability = z.object({ available: z.boolean(), error: z.string().optional(), propertyCount: z.number() });
+
+  server.registerTool(
+    'compare_graph_versions',
+    {
+      title: 'Compare Graph API Versions',
+      description: 'Show which properties of a Microsoft Graph endpoint differ between v1.0 and beta, from the declared $metadata types or from sampled responses',
+      inputSchema: {
+        endpoint: z.string().describe('Graph API endpoint path (e.g., "/security/alerts_v2")'),
+        basis: z.enum(['declared', 'sampled']).default('declared').describe('Compare declared types from $metadata, or shapes sampled from live responses (default: declared)'),
+        sampleSize: graphSampleSizeArg.describe(`Number of sample records per version when basis is "sampled", at most ${maxGraphSampleSize} (default: ${defaultGraphSampleSize})`),
+      },
+      outputSchema: {
+        endpoint: z.string(),
+        basis: z.enum(['declared', 'sampled']),
+        versions: z.object({ 'v1.0': versionAvailability, beta: versionAvailability }),
+        identical: z.boolean(),
+        betaOnly: z.array(versionProperty),
+        v1Only: z.array(versionProperty),
+        changed: z.array(z.object({
+          name: z.string(),
+          v1: z.object({ type: z.string(), required: z.boolean() }),
+          beta: z.object({ type: z.string(), required: z.boolean() }),
+        })),
+      },
+    },
+    async ({ endpoint, basis, sampleSize }, extra) => {
+      const comparison = await operations.run('compare_graph_versions', extra, options => basis === 'sampled'
+        ? schemaDiscovery.compareGraphVersions(endpoint, sampleSize, options)
+        : graphMetadata.compareVersions(endpoint, options)
+      );
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(comparison, null, 2),
+        }],
+        structuredContent: comparison,
+      };
+    }
+  );
+
+
+  // Tool: Generate SDK Code
+  server.registerTool(
+    'generate_sdk_code',
+    {
+      title: 'Generate SDK Code',
+      description: 'Generate working TypeScript or Python code to query an Azure Log Analytics table using the Azure Monitor Query SDK. Python code returns a pandas DataFrame typed from the table schema.',
+      inputSchema: {
+        tableName: z.string().describe('Name of the table (e.g., "QualysHostDetectionV3_CL")'),
+        language: languageArg,
+        framework: z.enum(['react', 'node', 'inline']).default('inline').describe('Framework: react (MSAL browser), node (DefaultAzureCredential), or inline (generic)'),
+        authType: codeAuthTypeArg,
+        template: templateArg,
+        workspace: workspaceArg,
+      },
+      outputSchema: {
+        code: z.string(),
+      },
+    },
+    reportPolicyErrors(async ({ tableName, language, framework, authType, template, workspace }, extra) => {
+      const code = await operations.run('generate_sdk_code', extra, options =>
+        codeGeneration.generateSDKCode({ tableName, workspace, language, framework, authType, template }, options)
+      );
+      return {
+        content: [{
+          type: 'text',
+          text: code,
+        }],
+        structuredContent: { code },
+      };
+    })
+  );
+
+  // Tool: List code templates
+  server.registerTool(
+    'list_code_templates',
+    {
+      title: 'List Code Templates',
+      description: 'List the templates generate_sdk_code (kql) and generate_graph_sdk_code (graph) can render: the built-in ones and those in CODE_TEMPLATE_DIR, plus the variables templates can use',
+      inputSchema: {
+        kind: z.enum(CODE_TEMPLATE_KINDS).optional().describe('Only list kql, graph or partial templates'),
+      },
+      outputSchema: {
+        templateDir: z.string().optional(),
+        templates: z.array(z.object({
+          name: z.string(),
+          kind: z.enum(CODE_TEMPLATE_KINDS),
+          description: z.string(),
+          source: z.enum(['builtin', 'user']),
+          path: z.string().optional(),
+          overridesBuiltin: z.boolean().optional(),
+        })),
+        variables: z.object({
+          kql: z.record(z.string()),
+          graph: z.record(z.string()),
+        }),
+      },
+    },
+    async ({ kind }, extra) => {
+      const list = await operations.run('list_code_templates', extra, () => codeGeneration.listCodeTemplates(kind));
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(list, null, 2),
+        }],
+        structuredContent: list,
+      };
+    }
+  );
+
+  // Tool: Generate TypeScript types
+  server.registerTool(
+    'generate_typescript_types',
+    {
+      title: 'Generate TypeScript Types',
+      description: 'Generate a TypeScript interface, zod schema and typed row mapper (using columnDescriptors) for a Log Analytics table. Dynamic columns get a nested type when analyze_json_field_schema has analyzed them.',
+      inputSchema: {
+        tableName: z.string().describe('Name of the table'),
+        typeName: z.string().optional().describe('Interface name (default: table name in PascalCase + "Row")'),
+        naming: z.enum(['camel', 'pascal', 'original']).default('camel').describe('Property naming style'),
+        nullable: z.boolean().default(true).describe('Allow null for every column (Log Analytics columns are usually sparse)'),
+        dates: z.enum(['date', 'string']).default('date').describe('Map datetime columns to Date objects or ISO 8601 strings'),
+        longs: z.enum(['number', 'bigint']).default('number').describe('Map long columns to number or bigint'),
+        dynamic: z.enum(['inferred', 'unknown']).default('inferred').describe('Use cached JSON field analyses for dynamic columns, or always unknown'),
+        includeZod: z.boolean().default(true).describe('Emit a zod schema and validate rows in the mapper'),
+        workspace: workspaceArg,
+      },
+      outputSchema: {
+        tableName: z.string(),
+        workspace: z.string(),
+        typeName: z.string(),
+        properties: z.array(z.object({
+          column: z.string(),
+          property: z.string(),
+          kqlType: z.string(),
+          tsType: z.string(),
+        })),
+        inferredDynamicColumns: z.array(z.string()),
+        code: z.string(),
+      },
+    },
+    reportPolicyErrors(async ({ tableName, typeName, naming, nullable, dates, longs, dynamic, includeZod, workspace }, extra) => {
+      const result = await operations.run('generate_typescript_types', extra, options =>
+        typeGeneration.generateTypeScriptTypes({
+          tableName, workspace, typeName, naming, nullable, dates, longs, dynamic, includeZod,
+        }, options)
+      );
+      return {
+        content: [{
+          type: 'text',
+          text: result.code,
+        }],
+        structuredContent: result,
+      };
+    })
+  );
+
+  // Tool: Generate Example Query
+  server.registerTool(
+    'generate_example_query',
+    {
+      title: 'Generate Example Query',
+      description: 'Generate working KQL query examples for a table based on its schema',
+      inputSchema: {
+        tableName: z.string().describe('Name of the table'),
+        operation: z.enum(['simple_select', 'filter', 'aggregation', 'parse_json', 'mv_expand']).describe('Type of query operation'),
+        timeRange: z.string().default('30d').describe('Time range in KQL format (default: 30d)'),
+        workspace: workspaceArg,
+      },
+      outputSchema: {
+        query: z.string(),
+      },
+    },
+    reportPolicyErrors(async ({ tableName, operation, timeRange, workspace }, extra) => {
+      const query = await operations.run('generate_example_query', extra, options =>
+        codeGeneration.generateExampleQuery({ tableName, workspace, operation, timeRange }, options)
+      );
+      return {
+        content: [{
+          type: 'text',
+          text: query,
+        }],
+        structuredContent: { query },
+      };
+    })
+  );
+
+  // Tool: Detect Table Workspace
+  server.registerTool(
+    'detect_table_workspace',
+    {
+      title: 'Detect Table Workspace',
+      description: 'Test which workspace contains a specific table and return metadata about data availability',
+      inputSchema: {
+        tableName: z.string().describe('Name of the table to search for'),
+        workspaces: z.array(z.string()).optional().describe('Workspace aliases or IDs to check (default: all registered workspaces)'),
+      },
+      outputSchema: {
+        tableName: z.string(),
+        foundIn: z.array(z.object({
+          workspaceId: z.string(),
+          workspaceName: z.string(),
+          hasData: z.boolean(),
+          rowCount: z.number().optional(),
+          dateRange: z.object({
+            earliest: z.string(),
+            latest: z.string(),
+          }).optional(),
+        })),
+        notFoundIn: z.array(z.object({
+          workspaceId: z.string(),
+          workspaceName: z.string(),
+          hasData: z.boolean(),
+          reason: z.string().optional(),
+        })),
+      },
+    },
+    reportPolicyErrors(async ({ tableName, workspaces }, extra) => {
+      const result = await operations.run('detect_table_workspace', extra, options =>
+        codeGeneration.detectTableWorkspace(tableName, workspaces, options)
+      );
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        }],
+        structuredContent: result,
+      };
+    })
+  );
+
+  // Tool: Find Working Query Examples
+  server.registerTool(
+    'find_working_query_examples',
+    {
+      title: 'Find Working Query Examples',
+      description: 'Search local files (.kql/.csl, TS/JS template literals, Python strings, markdown code fences, Sentinel rule YAML and ARM templates) for queries against a table, and check each against the cached table schema',
+      inputSchema: {
+        tableName: z.string().describe('Name of the table to find examples for'),
+        searchPaths: z.array(z.string()).optional().describe('Directories or files to scan (default: QUERY_SEARCH_PATHS or the working directory). .gitignore files are respected'),
+        maxResults: z.number().default(20).describe('Maximum number of examples to return (default: 20)'),
+        workspace: workspaceArg,
+      },
+      outputSchema: {
+        tableName: z.string(),
+        searchedPaths: z.array(z.string()),
+        filesScanned: z.number(),
+        totalFound: z.number(),
+        examples: z.array(z.object({
+          file: z.string(),
+          startLine: z.number(),
+          endLine: z.number(),
+          sourceKind: z.string(),
+          query: z.string(),
+          validation: z.object({
+            status: z.enum(['valid', 'invalid', 'unknown']),
+            unknownColumns: z.array(z.string()),
+            message: z.string().optional(),
+          }),
+        })),
+        message: z.string().optional(),
+      },
+    },
+    reportPolicyErrors(async ({ tableName, searchPaths, maxResults, workspace }, extra) => {
+      const result = await operations.run('find_working_query_examples', extra, options =>
+        codeGeneration.findWorkingQueryExamples({ tableName, workspace, searchPaths, maxResults }, options)
+      );
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        }],
+        structuredContent: result,
+      };
+    })
+  );
+
+  // Tool: Generate Graph SDK Code
+  server.registerTool(
+    'generate_graph_sdk_code',
+    {
+      title: 'Generate Graph SDK Code',
+      description: 'Generate working TypeScript or Python (msgraph-sdk) code to query Microsoft Graph API. GET requests page through @odata.nextLink and retry throttled pages; Python returns them as a pandas DataFrame.',
+      inputSchema: {
+        endpoint: z.string().describe('Graph API endpoint path (e.g., "/security/alerts")'),
+        language: languageArg,
+        framework: z.enum(['react', 'node', 'inline']).default('inline').describe('Framework: react (MSAL browser), node (DefaultAzureCredential), or inline (generic)'),
+        authType: codeAuthTypeArg,
+        method: z.enum(['GET', 'POST', 'PATCH', 'DELETE']).default('GET').describe('HTTP method'),
+        apiVersion: apiVersionArg,
+        maxItems: z.number().int().positive().default(1000).describe('Default limit on items collected across pages for GET requests (default: 1000)'),
+        template: templateArg,
+      },
+      outputSchema: {
+        code: z.string(),
+      },
+    },
+    async ({ endpoint, language, framework, authType, method, apiVersion, maxItems, template }, extra) => {
+      const code = await operations.run('generate_graph_sdk_code', extra, options =>
+        codeGeneration.generateGraphSDKCode({ endpoint, language, framework, authType, method, apiVersion, maxItems, template }, options)
+      );
+      return {
+        content: [{
+          type: 'text',
+          text: code,
+        }],
+        structuredContent: { code },
+      };
+    }
+  );
+
+  // Tool: List workspaces
+  server.registerTool(
+    'list_workspaces',
+    {
+      title: 'List Workspaces',
+      description: 'List the named Log Analytics workspaces that KQL tools can target via their workspace argument',
+      inputSchema: {},
+      outputSchema: {
+        workspaces: z.array(z.object({
+          alias: z.string(),
+          workspaceId: z.string(),
+          resourceId: z.string().optional(),
+          description: z.string().optional(),
+          isDefault: z.boolean(),
+        })),
+        count: z.number(),
+      },
+    },
+    async () => {
+      const list = workspaces.list().map(({ registered, ...workspace }) => workspace);
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({ workspaces: list, count: list.length }, null, 2),
+        }],
+        structuredContent: { workspaces: list, count: list.length },
+      };
+    }
+  );
+
+  // Tool: Authentication status
+  server.registerTool(
+    'auth_status',
+    {
+      title: 'Authentication Status',
+      description: 'Report the active authentication strategy, signed-in account and token expiry per resource',
+      inputSchema: {},
+      outputSchema: {
+        strategy: z.string(),
+        tenantId: z.string(),
+        tokenCachePersistence: z.boolean(),
+        account: z.object({
+          type: z.enum(['user', 'application']),
+          name: z.string().optional(),
+          objectId: z.string().optional(),
+          appId: z.string().optional(),
+        }).nullable(),
+        tokens: z.array(z.object({
+          resource: z.string(),
+          scopes: z.array(z.string()),
+          expiresOn: z.string(),
+          expiresInSeconds: z.number(),
+          expiringSoon: z.boolean(),
+        })),
+      },
+    },
+    async (_args, extra) => {
+      const status = await operations.run('auth_status', extra, () => authManager.getAuthStatus());
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(status, null, 2),
+        }],
+        structuredContent: status,
+      };
+    }
+  );
+
+  // Resources: cached schemas, readable (and discovered on demand) by URI
+  const schemaResources = new SchemaResources(schemaDiscovery, {
+    resourceUpdated: uri => {
+      server.server.sendResourceUpdated({ uri }).catch(() => {
+        // Client not connected; it reads the current schema when it reconnects
+      });
+    },
+    resourceListChanged: () => server.sendResourceListChanged(),
+  });
+
+  server.registerResource(
+    'kql-table-schema',
+    new ResourceTemplate(KQL_SCHEMA_TEMPLATE, { list: undefined }),
+    {
+      title: 'KQL Table Schema',
+      description: 'Columns of a Log Analytics table in a registered workspace, discovered on first read',
+      mimeType: 'application/json',
+    },
+    (uri, _variables, extra) => operations.run('resources/read', extra, options => schemaResources.read(uri.href, options))
+  );
+
+  server.registerResource(
+    'graph-api-schema',
+    new ResourceTemplate(GRAPH_SCHEMA_TEMPLATE, { list: undefined }),
+    {
+      title: 'Graph API Schema',
+      description: 'Sampled response schema of a Microsoft Graph endpoint (apiVersion v1.0 or beta), discovered on first read',
+      mimeType: 'application/json',
+    },
+    (uri, _variables, extra) => operations.run('resources/read', extra, options => schemaResources.read(uri.href, options))
+  );
+
+  // McpServer lists resources in one page; the schema cache can be large
+  server.server.setRequestHandler(ListResourcesRequestSchema, request => schemaResources.list(request.params?.cursor));
+
+  server.server.setRequestHandler(SubscribeRequestSchema, request => {
+    schemaResources.subscribe(request.params.uri);
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, request => {
+    schemaResources.unsubscribe(request.params.uri);
+    return {};
+  });
+
+  // Prompts: task preambles with the current schema, sample rows and example queries embedded
+  const tableArg = z.string().describe('Name of the Log Analytics table (e.g., "SecurityAlert")');
+
+  server.registerPrompt(
+    'investigate_table',
+    {
+      title: 'Investigate Table',
+      description: 'Plan an investigation of a Log Analytics table, with its columns, sample rows and example queries',
+      argsSchema: {
+        table: tableArg,
+        focus: z.string().optional().describe('What to look for (e.g., "failed sign-ins from new countries")'),
+        workspace: workspaceArg,
+      },
+    },
+    (args, extra) => operations.run('prompts/get', extra, options => schemaPrompts.investigateTable(args, options))
+  );
+
+  server.registerPrompt(
+    'write_detection_query',
+    {
+      title: 'Write Detection Query',
+      description: 'Write a KQL detection query for a behavior, using the current columns of the table',
+      argsSchema: {
+        table: tableArg,
+        behavior: z.string().describe('Behavior to detect (e.g., "password spray against many accounts")'),
+        workspace: workspaceArg,
+      },
+    },
+    (args, extra) => operations.run('prompts/get', extra, options => schemaPrompts.writeDetectionQuery(args, options))
+  );
+
+  server.registerPrompt(
+    'explain_table',
+    {
+      title: 'Explain Table',
+      description: 'Explain a Log Analytics table or Microsoft Graph endpoint from its current schema',
+      argsSchema: {
+        source: z.string().describe('Table name, or Graph endpoint starting with / (e.g., "/users")'),
+        workspace: workspaceArg,
+        apiVersion: z.enum(GRAPH_API_VERSIONS).optional().describe('Microsoft Graph API version for endpoints (default: v1.0)'),
+      },
+    },
+    (args, extra) => operations.run('prompts/get', extra, options => schemaPrompts.explainTable(args, options))
+  );
+
+  server.registerPrompt(
+    'migrate_query_to_new_schema',
+    {
+      title: 'Migrate Query to New Schema',
+      description: 'Rewrite a KQL query for the current schema of its table, with the column changes and validation issues embedded',
+      argsSchema: {
+        query: z.string().describe('KQL query written against the earlier schema'),
+        table: tableArg,
+        from: z.string().optional().describe('Schema version the query was written against: "previous" (default) or a snapshot id from compare_schema'),
+        workspace: workspaceArg,
+      },
+    },
+    (args, extra) => operations.run('prompts/get', extra, options => schemaPrompts.migrateQueryToNewSchema(args, options))
+  );
+
+  services.servers.add(server);
+  server.server.onclose = () => {
+    services.servers.delete(server);
+    schemaResources.close();
+  };
+
+  return server;
+}
+
+/**
+ * Wrap a tool callback so a query the policy blocks, whichever service sent it,
+ * comes back as the structured policy error instead of a plain error message
+ */
+function reportPolicyErrors<Args extends unknown[], Result>(
+  callback: (...args: Args) => Promise<Result>
+): (...args: Args) => Promise<Result | ReturnType<typeof policyErrorResult>> {
+  return async (...args) => {
+    try {
+      return await callback(...args);
+    } catch (error) {
+      if (error instanceof QueryPolicyError) {
+        return policyErrorResult(error);
+      }
+      throw error;
+    }
+  };
+}
+
+/**
+ * A tool error that lists the query policy rules a query broke, as JSON
+ */
+function policyErrorResult(error: QueryPolicyError) {
+  return {
+    isError: true,
+    content: [{
+      type: 'text' as const,
+      text: JSON.stringify({ error: 'Query blocked by the query policy', violations: error.violations }, null, 2),
+    }],
+  };
+}
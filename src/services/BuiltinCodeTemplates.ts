@@ -0,0 +1,477 @@
+import type { CodeTemplateKind } from './CodeTemplates.js';
+
+export interface BuiltinCodeTemplate {
+  name: string;
+  kind: CodeTemplateKind;
+  description: string;
+  body: string;
+}
+
+/**
+ * The templates shipped with the server. A user template with the same name
+ * replaces one of these, partials included, so overriding
+ * partials/msal-credential changes both React templates.
+ */
+export const BUILTIN_CODE_TEMPLATES: BuiltinCodeTemplate[] = [
+  {
+    name: 'partials/msal-credential',
+    kind: 'partial',
+    description: 'TokenCredential that acquires tokens silently from an MSAL browser instance',
+    body: `import { AccessToken, TokenCredential } from '@azure/core-auth';
+import { msalInstance } from '../config/azureConfig';
+
+// Custom TokenCredential using MSAL
+const credential = new (class implements TokenCredential {
+  async getToken(scopes: string | string[]): Promise<AccessToken | null> {
+    const accounts = msalInstance.getAllAccounts();
+    if (accounts.length === 0) {
+      throw new Error('Not authenticated. Please sign in.');
+    }
+
+    const scopeArray = Array.isArray(scopes) ? scopes : [scopes];
+    const response = await msalInstance.acquireTokenSilent({
+      scopes: scopeArray,
+      account: accounts[0],
+    });
+
+    return {
+      token: response.accessToken,
+      expiresOnTimestamp: response.expiresOn?.getTime() || 0,
+    };
+  }
+})();`,
+  },
+  {
+    name: 'partials/graph-imports',
+    kind: 'partial',
+    description: 'Microsoft Graph client imports, with PageIterator for paged GET requests',
+    body: `{{#paged}}
+import { Client, PageIterator, RetryHandlerOptions } from '@microsoft/microsoft-graph-client';
+import type { PageCollection } from '@microsoft/microsoft-graph-client';
+{{/paged}}
+{{^paged}}
+import { Client } from '@microsoft/microsoft-graph-client';
+{{/paged}}`,
+  },
+  {
+    name: 'partials/graph-request',
+    kind: 'partial',
+    description: 'The Graph request: GET pages through @odata.nextLink up to maxItems, retrying throttled pages',
+    body: `{{#paged}}
+// Retry throttled (429) and unavailable (503) pages, waiting as long as Retry-After asks
+const retryOptions = new RetryHandlerOptions(3, 5);
+const response: PageCollection = await graphClient
+  .api('{{endpoint}}')
+  .version('{{apiVersion}}')
+  .middlewareOptions([retryOptions])
+  .get();
+
+// A single entity rather than a collection
+if (!Array.isArray(response.value)) {
+  return response;
+}
+
+// Collect items across @odata.nextLink pages; returning false from the callback stops paging
+const items: any[] = [];
+const pageIterator = new PageIterator(graphClient, response, (item) => {
+  items.push(item);
+  return items.length < maxItems;
+}, { middlewareOptions: [retryOptions] });
+await pageIterator.iterate();
+
+console.log(\`Retrieved \${items.length} items\${pageIterator.isComplete() ? '' : \` (stopped at maxItems = \${maxItems})\`}\`);
+return items;
+{{/paged}}
+{{^paged}}
+const response = await graphClient
+  .api('{{endpoint}}')
+  .version('{{apiVersion}}')
+  .{{methodName}}();
+
+return response?.value || response;
+{{/paged}}`,
+  },
+  {
+    name: 'kql/react',
+    kind: 'kql',
+    description: 'React with MSAL browser authentication',
+    body: `// React component with MSAL authentication
+import { LogsQueryClient } from '@azure/monitor-query';
+{{> partials/msal-credential}}
+
+// Query function
+async function {{functionName}}() {
+  try {
+    const client = new LogsQueryClient(credential);
+    const workspaceId = '{{workspaceId}}';
+
+    // Table columns: {{columns}}
+    const query = \`
+      {{table}}
+      | where TimeGenerated > ago(30d)
+      | take 10
+    \`;
+
+    const result = await client.queryWorkspace(workspaceId, query, {
+      duration: 'P30D' // ISO 8601 duration
+    });
+
+    if (result.status === 'Success' && result.tables.length > 0) {
+      const table = result.tables[0];
+      console.log(\`Retrieved \${table.rows.length} rows\`);
+
+      // Access rows
+      table.rows.forEach((row, index) => {
+        console.log(\`Row \${index}:\`, row);
+      });
+
+      return table.rows;
+    } else {
+      console.error('Query failed or returned no results');
+      return [];
+    }
+  } catch (error) {
+    console.error('Query error:', error);
+    throw error;
+  }
+}
+
+// Usage in React component:
+// const data = await {{functionName}}();`,
+  },
+  {
+    name: 'kql/node',
+    kind: 'kql',
+    description: 'Node.js script with DefaultAzureCredential, returning rows as records',
+    body: `// Node.js with DefaultAzureCredential
+import { LogsQueryClient } from '@azure/monitor-query';
+import { DefaultAzureCredential } from '@azure/identity';
+
+// Initialize credential (uses Azure CLI, Managed Identity, etc.)
+const credential = new DefaultAzureCredential();
+const client = new LogsQueryClient(credential);
+
+async function {{functionName}}() {
+  try {
+    const workspaceId = '{{workspaceId}}';
+
+    // Table columns: {{columns}}
+    const query = \`
+      {{table}}
+      | where TimeGenerated > ago(30d)
+      | take 10
+    \`;
+
+    const result = await client.queryWorkspace(workspaceId, query, {
+      duration: 'P30D'
+    });
+
+    if (result.status === 'Success' && result.tables.length > 0) {
+      const table = result.tables[0];
+      console.log(\`Retrieved \${table.rows.length} rows\`);
+
+      // Column descriptors
+      const columns = table.columnDescriptors?.map(col => col.name) || [];
+      console.log('Columns:', columns);
+
+      // Process rows
+      const records = table.rows.map((row, i) => {
+        const record: any = {};
+        columns.forEach((col, j) => {
+          record[col] = row[j];
+        });
+        return record;
+      });
+
+      return records;
+    } else {
+      throw new Error('Query failed or returned no results');
+    }
+  } catch (error) {
+    console.error('Query error:', error);
+    throw error;
+  }
+}
+
+// Run the query
+{{functionName}}()
+  .then(data => console.log('Data:', data))
+  .catch(err => console.error('Error:', err));`,
+  },
+  {
+    name: 'kql/inline',
+    kind: 'kql',
+    description: 'A function taking any TokenCredential',
+    body: `// Inline query code (generic TokenCredential)
+import { LogsQueryClient } from '@azure/monitor-query';
+
+// Assuming you have a TokenCredential instance
+async function {{functionName}}(credential: TokenCredential) {
+  const client = new LogsQueryClient(credential);
+  const workspaceId = '{{workspaceId}}';
+
+  // Table columns: {{columns}}
+  const query = \`
+    {{table}}
+    | where TimeGenerated > ago(30d)
+    | take 10
+  \`;
+
+  const result = await client.queryWorkspace(workspaceId, query, {
+    duration: 'P30D'
+  });
+
+  if (result.status === 'Success' && result.tables.length > 0) {
+    return result.tables[0].rows;
+  }
+
+  return [];
+}`,
+  },
+  {
+    name: 'graph/react',
+    kind: 'graph',
+    description: 'React with MSAL browser authentication',
+    body: `// React component with MSAL authentication for Microsoft Graph
+{{#beta}}
+// Uses the Graph beta API: endpoints and properties may change and are not supported in production apps
+{{/beta}}
+{{> partials/graph-imports}}
+import { TokenCredentialAuthenticationProvider } from '@microsoft/microsoft-graph-client/authProviders/azureTokenCredentials';
+{{> partials/msal-credential}}
+
+// Create Graph client with authentication provider
+const authProvider = new TokenCredentialAuthenticationProvider(credential, {
+  scopes: ['https://graph.microsoft.com/.default']
+});
+
+const graphClient = Client.initWithMiddleware({ authProvider });
+
+async function {{functionName}}({{#paged}}maxItems = {{maxItems}}{{/paged}}) {
+  try {
+    // {{properties}}
+    {{> partials/graph-request}}
+  } catch (error) {
+    console.error('Graph API error:', error);
+    throw error;
+  }
+}
+
+// Usage in React component:
+// const data = await {{functionName}}();`,
+  },
+  {
+    name: 'graph/node',
+    kind: 'graph',
+    description: 'Node.js script with DefaultAzureCredential',
+    body: `// Node.js with DefaultAzureCredential for Microsoft Graph
+{{#beta}}
+// Uses the Graph beta API: endpoints and properties may change and are not supported in production apps
+{{/beta}}
+{{> partials/graph-imports}}
+import { TokenCredentialAuthenticationProvider } from '@microsoft/microsoft-graph-client/authProviders/azureTokenCredentials';
+import { DefaultAzureCredential } from '@azure/identity';
+
+// Initialize credential and Graph client
+const credential = new DefaultAzureCredential();
+const authProvider = new TokenCredentialAuthenticationProvider(credential, {
+  scopes: ['https://graph.microsoft.com/.default']
+});
+
+const graphClient = Client.initWithMiddleware({ authProvider });
+
+async function {{functionName}}({{#paged}}maxItems = {{maxItems}}{{/paged}}) {
+  try {
+    // {{properties}}
+    {{> partials/graph-request}}
+  } catch (error) {
+    console.error('Graph API error:', error);
+    throw error;
+  }
+}
+
+// Run the query
+{{functionName}}()
+  .then(data => console.log('Data:', data))
+  .catch(err => console.error('Error:', err));`,
+  },
+  {
+    name: 'graph/inline',
+    kind: 'graph',
+    description: 'A function taking any TokenCredential',
+    body: `// Generic Microsoft Graph API query with TokenCredential
+{{#beta}}
+// Uses the Graph beta API: endpoints and properties may change and are not supported in production apps
+{{/beta}}
+// {{properties}}
+{{> partials/graph-imports}}
+import { TokenCredentialAuthenticationProvider } from '@microsoft/microsoft-graph-client/authProviders/azureTokenCredentials';
+import type { TokenCredential } from '@azure/core-auth';
+
+async function {{functionName}}(credential: TokenCredential{{#paged}}, maxItems = {{maxItems}}{{/paged}}) {
+  const authProvider = new TokenCredentialAuthenticationProvider(credential, {
+    scopes: ['https://graph.microsoft.com/.default']
+  });
+
+  const graphClient = Client.initWithMiddleware({ authProvider });
+
+  {{> partials/graph-request}}
+}`,
+  },
+  {
+    name: 'partials/python-credential',
+    kind: 'partial',
+    description: 'Python azure-identity credential: InteractiveBrowserCredential for msal-browser, otherwise DefaultAzureCredential',
+    body: `{{#interactive}}
+from azure.identity import InteractiveBrowserCredential
+
+# Opens a browser to sign in once; later queries reuse the token
+credential = InteractiveBrowserCredential(tenant_id="{{tenantId}}")
+{{/interactive}}
+{{^interactive}}
+from azure.identity import DefaultAzureCredential
+
+# Uses az login, environment variables or a managed identity
+credential = DefaultAzureCredential()
+{{/interactive}}`,
+  },
+  {
+    name: 'kql/python',
+    kind: 'kql',
+    description: 'Python with azure-monitor-query, returning a pandas DataFrame typed from the table schema',
+    body: `# Python with azure-monitor-query, results as a pandas DataFrame
+# pip install azure-monitor-query azure-identity pandas
+from datetime import timedelta
+
+import pandas as pd
+from azure.monitor.query import LogsQueryClient, LogsQueryPartialResult
+
+{{> partials/python-credential}}
+client = LogsQueryClient(credential)
+
+WORKSPACE_ID = "{{workspaceId}}"
+
+# pandas dtypes of the {{table}} columns
+DTYPES = {
+    {{pandasDtypes}}
+}
+
+
+def to_frame(table) -> pd.DataFrame:
+    """Build a DataFrame from a result table, with the dtypes of the table schema"""
+    df = pd.DataFrame(data=table.rows, columns=table.columns)
+    for column, dtype in DTYPES.items():
+        if column not in df.columns:
+            continue
+        if dtype.startswith("datetime64"):
+            df[column] = pd.to_datetime(df[column], utc=True)
+        else:
+            df[column] = df[column].astype(dtype)
+    return df
+
+
+def {{pythonFunctionName}}(timespan: timedelta = timedelta(days=30)) -> pd.DataFrame:
+    query = """
+{{table}}
+| where TimeGenerated > ago(30d)
+| take 10
+"""
+    response = client.query_workspace(WORKSPACE_ID, query, timespan=timespan)
+
+    if isinstance(response, LogsQueryPartialResult):
+        # The query failed part way (e.g. a size or time limit); keep the rows that came back
+        print(f"Partial results: {response.partial_error}")
+        tables = response.partial_data
+    else:
+        tables = response.tables
+
+    if not tables:
+        return pd.DataFrame(columns=list(DTYPES))
+    return to_frame(tables[0])
+
+
+df = {{pythonFunctionName}}()
+print(df.dtypes)`,
+  },
+  {
+    name: 'graph/python',
+    kind: 'graph',
+    description: 'Python with msgraph-sdk, returning GET collections as a pandas DataFrame',
+    body: `# Python with msgraph-sdk
+{{#beta}}
+# Uses the Graph beta API: endpoints and properties may change and are not supported in production apps
+{{/beta}}
+# pip install msgraph-sdk azure-identity pandas
+import asyncio
+import json
+
+import pandas as pd
+from kiota_abstractions.method import Method
+from kiota_abstractions.request_information import RequestInformation
+from msgraph import GraphServiceClient
+from msgraph.generated.models.o_data_errors.o_data_error import ODataError
+
+{{> partials/python-credential}}
+client = GraphServiceClient(credential, scopes=["https://graph.microsoft.com/.default"])
+
+# Error responses are raised as ODataError
+ERROR_MAPPING = {"4XX": ODataError, "5XX": ODataError}
+
+{{#paged}}
+# {{properties}}
+DATETIME_PROPERTIES = {{datetimeProperties}}
+
+
+def to_frame(items: list) -> pd.DataFrame:
+    """Flatten Graph items into a DataFrame (nested properties become dotted columns)"""
+    df = pd.json_normalize(items)
+    for column in DATETIME_PROPERTIES:
+        if column in df.columns:
+            df[column] = pd.to_datetime(df[column], utc=True)
+    return df
+
+
+async def {{pythonFunctionName}}(max_items: int = {{maxItems}}) -> pd.DataFrame:
+    request_info = RequestInformation(Method.GET)
+    request_info.url = "https://graph.microsoft.com/{{apiVersion}}{{endpoint}}"
+    request_info.headers.try_add("Accept", "application/json")
+
+    # The client's retry handler waits out throttled (429) and unavailable (503) pages per Retry-After
+    items = []
+    while len(items) < max_items:
+        body = await client.request_adapter.send_primitive_async(request_info, "bytes", ERROR_MAPPING)
+        page = json.loads(body)
+        if not isinstance(page.get("value"), list):
+            # A single entity rather than a collection
+            return to_frame([page])
+
+        items.extend(page["value"])
+        next_link = page.get("@odata.nextLink")
+        if not next_link:
+            break
+        request_info.url = next_link
+
+    print(f"Retrieved {len(items)} items")
+    return to_frame(items[:max_items])
+{{/paged}}
+{{^paged}}
+
+
+async def {{pythonFunctionName}}(body: dict | None = None):
+    """Send a {{method}} request to {{endpoint}}, with an optional JSON body"""
+    request_info = RequestInformation(Method.{{method}})
+    request_info.url = "https://graph.microsoft.com/{{apiVersion}}{{endpoint}}"
+    request_info.headers.try_add("Accept", "application/json")
+    if body is not None:
+        request_info.set_stream_content(json.dumps(body).encode("utf-8"), "application/json")
+
+    response = await client.request_adapter.send_primitive_async(request_info, "bytes", ERROR_MAPPING)
+    return json.loads(response) if response else None
+{{/paged}}
+
+
+# In a notebook, await it directly: {{#paged}}df{{/paged}}{{^paged}}result{{/paged}} = await {{pythonFunctionName}}()
+if __name__ == "__main__":
+    print(asyncio.run({{pythonFunctionName}}()))`,
+  },
+];
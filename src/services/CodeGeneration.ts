@@ -1,27 +1,87 @@
+import type { LogsQueryResult } from '@azure/monitor-query';
 import type { SchemaDiscovery } from './SchemaDiscovery.js';
 import type { Config } from '../config.js';
-import type { AuthManager } from '../auth/AuthManager.js';
-import { LogsQueryClient } from '@azure/monitor-query';
+import type { AzureBackend } from '../backend/AzureBackend.js';
+import type { WorkspaceRegistry } from './WorkspaceRegistry.js';
+import { QueryExampleScanner } from './QueryExampleScanner.js';
+import type { ExtractedQuery } from './QueryExampleScanner.js';
+import { checkColumnReferences } from './KqlValidator.js';
+import { normalizeKqlType } from './KqlTypes.js';
+import { QueryPolicyError } from './QueryPolicy.js';
+import type { ColumnCheck } from './KqlValidator.js';
+import type { GraphApiVersion } from './GraphMetadata.js';
+import type { OperationOptions } from './Operation.js';
+import { CODE_TEMPLATE_VARIABLES, CodeTemplates } from './CodeTemplates.js';
+import type { CodeTemplate, CodeTemplateKind } from './CodeTemplates.js';
+
+export const CODE_LANGUAGES = ['typescript', 'python'] as const;
+export type CodeLanguage = typeof CODE_LANGUAGES[number];
+
+type AuthType = 'msal-browser' | 'default-credential';
 
 export interface SDKCodeParams {
   tableName: string;
+  workspace?: string;
+  language?: CodeLanguage;
+  /** TypeScript only */
   framework?: 'react' | 'node' | 'inline';
-  authType?: 'msal-browser' | 'default-credential';
+  /** Defaults to msal-browser for TypeScript and default-credential for Python */
+  authType?: AuthType;
+  /** Template name; overrides framework and authType */
+  template?: string;
 }
 
 export interface GraphSDKCodeParams {
   endpoint: string;
+  language?: CodeLanguage;
+  /** TypeScript only */
   framework?: 'react' | 'node' | 'inline';
-  authType?: 'msal-browser' | 'default-credential';
+  /** Defaults to msal-browser for TypeScript and default-credential for Python */
+  authType?: AuthType;
   method?: 'GET' | 'POST' | 'PATCH' | 'DELETE';
+  apiVersion?: GraphApiVersion;
+  /** Stop paging once this many items were collected (GET only) */
+  maxItems?: number;
+  /** Template name; overrides framework and authType */
+  template?: string;
+}
+
+export interface CodeTemplateList {
+  [key: string]: unknown;
+  templateDir?: string;
+  templates: Array<Omit<CodeTemplate, 'body'>>;
+  /** Variables available to kql and graph templates */
+  variables: typeof CODE_TEMPLATE_VARIABLES;
 }
 
 export interface ExampleQueryParams {
   tableName: string;
+  workspace?: string;
   operation: 'simple_select' | 'filter' | 'aggregation' | 'parse_json' | 'mv_expand';
   timeRange?: string;
 }
 
+export interface QueryExamplesParams {
+  tableName: string;
+  workspace?: string;
+  searchPaths?: string[];
+  maxResults?: number;
+}
+
+export interface QueryExample extends ExtractedQuery {
+  validation: ColumnCheck;
+}
+
+export interface QueryExamplesResult {
+  [key: string]: unknown;
+  tableName: string;
+  searchedPaths: string[];
+  filesScanned: number;
+  totalFound: number;
+  examples: QueryExample[];
+  message?: string;
+}
+
 export interface WorkspaceInfo {
   [key: string]: unknown;
   workspaceId: string;
@@ -44,198 +104,70 @@ export interface DetectTableResult {
 
 export class CodeGeneration {
   private config: Config;
-  private authManager: AuthManager;
+  private backend: AzureBackend;
   private schemaDiscovery: SchemaDiscovery;
+  private workspaces: WorkspaceRegistry;
+  private templates: CodeTemplates;
 
   constructor(
     config: Config,
-    authManager: AuthManager,
-    schemaDiscovery: SchemaDiscovery
+    backend: AzureBackend,
+    schemaDiscovery: SchemaDiscovery,
+    workspaces: WorkspaceRegistry
   ) {
     this.config = config;
-    this.authManager = authManager;
+    this.backend = backend;
     this.schemaDiscovery = schemaDiscovery;
+    this.workspaces = workspaces;
+    this.templates = new CodeTemplates(config.codeTemplateDir);
   }
 
   /**
    * Generate SDK code for querying a table
    */
-  async generateSDKCode(params: SDKCodeParams): Promise<string> {
-    const { tableName, framework = 'inline', authType = 'msal-browser' } = params;
+  async generateSDKCode(params: SDKCodeParams, options: OperationOptions = {}): Promise<string> {
+    const { tableName, workspace, language = 'typescript', framework = 'inline', template } = params;
+    const authType = params.authType ?? defaultAuthType(language);
+    const resolved = this.workspaces.resolve(workspace);
 
     // Get schema to include in comments
-    const schema = await this.schemaDiscovery.getTableSchema(tableName);
+    const schema = await this.schemaDiscovery.getTableSchema(tableName, workspace, options);
     const columnList = schema.columns.slice(0, 5).map(c => c.name).join(', ');
     const hasMore = schema.columns.length > 5 ? `, ... (${schema.columns.length} total)` : '';
 
-    if (framework === 'react' && authType === 'msal-browser') {
-      return this.generateReactMSALCode(tableName, columnList, hasMore);
-    } else if (framework === 'node' || authType === 'default-credential') {
-      return this.generateNodeCode(tableName, columnList, hasMore);
-    } else {
-      return this.generateInlineCode(tableName, columnList, hasMore);
-    }
-  }
-
-  private generateReactMSALCode(tableName: string, columnList: string, hasMore: string): string {
-    return `// React component with MSAL authentication
-import { LogsQueryClient } from '@azure/monitor-query';
-import { AccessToken, TokenCredential } from '@azure/core-auth';
-import { msalInstance } from '../config/azureConfig';
-
-// Custom TokenCredential using MSAL
-const credential = new (class implements TokenCredential {
-  async getToken(scopes: string | string[]): Promise<AccessToken | null> {
-    const accounts = msalInstance.getAllAccounts();
-    if (accounts.length === 0) {
-      throw new Error('Not authenticated. Please sign in.');
-    }
-    
-    const scopeArray = Array.isArray(scopes) ? scopes : [scopes];
-    const response = await msalInstance.acquireTokenSilent({
-      scopes: scopeArray,
-      account: accounts[0],
-    });
-    
-    return {
-      token: response.accessToken,
-      expiresOnTimestamp: response.expiresOn?.getTime() || 0,
-    };
-  }
-})();
-
-// Query function
-async function query${tableName.replace(/[^a-zA-Z0-9]/g, '')}() {
-  try {
-    const client = new LogsQueryClient(credential);
-    const workspaceId = '${this.config.workspaceId}';
-    
-    // Table columns: ${columnList}${hasMore}
-    const query = \`
-      ${tableName}
-      | where TimeGenerated > ago(30d)
-      | take 10
-    \`;
-
-    const result = await client.queryWorkspace(workspaceId, query, {
-      duration: 'P30D' // ISO 8601 duration
-    });
-
-    if (result.status === 'Success' && result.tables.length > 0) {
-      const table = result.tables[0];
-      console.log(\`Retrieved \${table.rows.length} rows\`);
-      
-      // Access rows
-      table.rows.forEach((row, index) => {
-        console.log(\`Row \${index}:\`, row);
-      });
-      
-      return table.rows;
-    } else {
-      console.error('Query failed or returned no results');
-      return [];
-    }
-  } catch (error) {
-    console.error('Query error:', error);
-    throw error;
-  }
-}
-
-// Usage in React component:
-// const data = await query${tableName.replace(/[^a-zA-Z0-9]/g, '')}();`;
-  }
-
-  private generateNodeCode(tableName: string, columnList: string, hasMore: string): string {
-    return `// Node.js with DefaultAzureCredential
-import { LogsQueryClient } from '@azure/monitor-query';
-import { DefaultAzureCredential } from '@azure/identity';
-
-// Initialize credential (uses Azure CLI, Managed Identity, etc.)
-const credential = new DefaultAzureCredential();
-const client = new LogsQueryClient(credential);
-
-async function query${tableName.replace(/[^a-zA-Z0-9]/g, '')}() {
-  try {
-    const workspaceId = '${this.config.workspaceId}';
-    
-    // Table columns: ${columnList}${hasMore}
-    const query = \`
-      ${tableName}
-      | where TimeGenerated > ago(30d)
-      | take 10
-    \`;
-
-    const result = await client.queryWorkspace(workspaceId, query, {
-      duration: 'P30D'
+    return this.templates.render(template ?? defaultTemplate(language, framework, authType), 'kql', {
+      table: tableName,
+      functionName: `query${tableName.replace(/[^a-zA-Z0-9]/g, '')}`,
+      workspace: resolved.registered ? resolved.alias : resolved.workspaceId,
+      workspaceId: resolved.workspaceId,
+      columns: columnList + hasMore,
+      columnCount: schema.columns.length,
+      schema: JSON.stringify(schema.columns.map(({ name, type }) => ({ name, type })), null, 2),
+      pythonFunctionName: `query_${toSnakeCase(tableName)}`,
+      pandasDtypes: schema.columns
+        .map(c => `${JSON.stringify(c.name)}: ${JSON.stringify(pandasDtype(normalizeKqlType(c.type)))},`)
+        .join('\n'),
+      interactive: authType === 'msal-browser',
+      tenantId: this.config.tenantId,
     });
-
-    if (result.status === 'Success' && result.tables.length > 0) {
-      const table = result.tables[0];
-      console.log(\`Retrieved \${table.rows.length} rows\`);
-      
-      // Column descriptors
-      const columns = table.columnDescriptors?.map(col => col.name) || [];
-      console.log('Columns:', columns);
-      
-      // Process rows
-      const records = table.rows.map((row, i) => {
-        const record: any = {};
-        columns.forEach((col, j) => {
-          record[col] = row[j];
-        });
-        return record;
-      });
-      
-      return records;
-    } else {
-      throw new Error('Query failed or returned no results');
-    }
-  } catch (error) {
-    console.error('Query error:', error);
-    throw error;
   }
-}
 
-// Run the query
-query${tableName.replace(/[^a-zA-Z0-9]/g, '')}()
-  .then(data => console.log('Data:', data))
-  .catch(err => console.error('Error:', err));`;
-  }
-
-  private generateInlineCode(tableName: string, columnList: string, hasMore: string): string {
-    return `// Inline query code (generic TokenCredential)
-import { LogsQueryClient } from '@azure/monitor-query';
-
-// Assuming you have a TokenCredential instance
-async function query${tableName.replace(/[^a-zA-Z0-9]/g, '')}(credential: TokenCredential) {
-  const client = new LogsQueryClient(credential);
-  const workspaceId = '${this.config.workspaceId}';
-  
-  // Table columns: ${columnList}${hasMore}
-  const query = \`
-    ${tableName}
-    | where TimeGenerated > ago(30d)
-    | take 10
-  \`;
-
-  const result = await client.queryWorkspace(workspaceId, query, {
-    duration: 'P30D'
-  });
-
-  if (result.status === 'Success' && result.tables.length > 0) {
-    return result.tables[0].rows;
-  }
-  
-  return [];
-}`;
+  /**
+   * List the built-in and user code templates, and the variables they can use
+   */
+  async listCodeTemplates(kind?: CodeTemplateKind): Promise<CodeTemplateList> {
+    const templates = (await this.templates.list())
+      .filter(template => !kind || template.kind === kind)
+      .map(({ body, ...template }) => template);
+    return { templateDir: this.config.codeTemplateDir, templates, variables: CODE_TEMPLATE_VARIABLES };
   }
 
   /**
    * Generate example KQL query
    */
-  async generateExampleQuery(params: ExampleQueryParams): Promise<string> {
-    const { tableName, operation, timeRange = '30d' } = params;
-    const schema = await this.schemaDiscovery.getTableSchema(tableName);
+  async generateExampleQuery(params: ExampleQueryParams, options: OperationOptions = {}): Promise<string> {
+    const { tableName, workspace, operation, timeRange = '30d' } = params;
+    const schema = await this.schemaDiscovery.getTableSchema(tableName, workspace, options);
     
     // Find common column types
     const timeColumn = schema.columns.find(c => c.type === 'datetime' && c.name.toLowerCase().includes('time'));
@@ -329,37 +261,52 @@ ${tableName}
   }
 
   /**
-   * Detect which workspace contains a table
+   * Detect which workspace contains a table (all registered workspaces by default)
    */
   async detectTableWorkspace(
     tableName: string,
-    workspaceIds?: string[]
+    workspaces?: string[],
+    options: OperationOptions = {}
   ): Promise<DetectTableResult> {
-    const workspacesToCheck = workspaceIds || [this.config.workspaceId];
+    const { abortSignal, onProgress } = options;
+    const workspacesToCheck = workspaces || this.workspaces.list().map(w => w.alias);
     const foundIn: WorkspaceInfo[] = [];
     const notFoundIn: WorkspaceInfo[] = [];
 
-    for (const workspaceId of workspacesToCheck) {
+    for (const [index, workspace] of workspacesToCheck.entries()) {
+      if (index > 0) {
+        onProgress?.(index, workspacesToCheck.length, `Checked ${index} of ${workspacesToCheck.length} workspaces`);
+      }
+      let workspaceId = workspace;
+      let workspaceName = workspace;
       try {
-        const token = await this.authManager.getToken();
-        const client = new LogsQueryClient({
-          getToken: async () => ({ token, expiresOnTimestamp: Date.now() + 3600000 }),
-        });
-
-        // First check if table exists
-        const existsQuery = `union withsource = TableName * | where TableName == "${tableName}" | take 1`;
-        const existsResult = await client.queryWorkspace(workspaceId, existsQuery, {
-          duration: 'PT1H',
-        });
+        const resolved = this.workspaces.resolve(workspace);
+        workspaceId = resolved.workspaceId;
+        workspaceName = resolved.registered ? resolved.alias : 'unregistered';
+
+        // First check if table exists. getschema names only this table, so the
+        // query policy's table allowlist applies, and it succeeds without recent rows
+        const existsQuery = `${tableName} | getschema | take 1`;
+        let existsResult: LogsQueryResult | undefined;
+        try {
+          existsResult = await this.backend.queryWorkspace(workspaceId, existsQuery, {
+            duration: 'PT1H',
+          }, { abortSignal });
+        } catch (error) {
+          if (!isUnresolvedTableError(error)) {
+            throw error;
+          }
+        }
 
         if (
+          !existsResult ||
           existsResult.status !== 'Success' ||
           !existsResult.tables[0] ||
           existsResult.tables[0].rows.length === 0
         ) {
           notFoundIn.push({
             workspaceId,
-            workspaceName: workspaceId === this.config.workspaceId ? 'primary' : 'secondary',
+            workspaceName,
             hasData: false,
             reason: 'Table does not exist',
           });
@@ -373,19 +320,20 @@ ${tableName}
     EarliestRecord = min(TimeGenerated),
     LatestRecord = max(TimeGenerated)`;
 
-        const metadataResult = await client.queryWorkspace(workspaceId, metadataQuery, {
+        const metadataResult = await this.backend.queryWorkspace(workspaceId, metadataQuery, {
           duration: 'P90D',
-        });
+        }, { abortSignal });
 
         if (metadataResult.status === 'Success' && metadataResult.tables[0]) {
           const row = metadataResult.tables[0].rows[0];
           const rowCount = row[0] as number;
-          const earliest = row[1] as string;
-          const latest = row[2] as string;
+          // The SDK returns datetime cells as Date objects
+          const earliest = toTimestamp(row[1]);
+          const latest = toTimestamp(row[2]);
 
           foundIn.push({
             workspaceId,
-            workspaceName: workspaceId === this.config.workspaceId ? 'primary' : 'secondary',
+            workspaceName,
             hasData: rowCount > 0,
             rowCount,
             dateRange: {
@@ -395,14 +343,21 @@ ${tableName}
           });
         }
       } catch (error) {
+        // A cancelled or timed-out call is not a missing table, and a blocked query
+        // is blocked in every workspace
+        abortSignal?.throwIfAborted();
+        if (error instanceof QueryPolicyError) {
+          throw error;
+        }
         notFoundIn.push({
           workspaceId,
-          workspaceName: workspaceId === this.config.workspaceId ? 'primary' : 'secondary',
+          workspaceName,
           hasData: false,
           reason: error instanceof Error ? error.message : 'Unknown error',
         });
       }
     }
+    onProgress?.(workspacesToCheck.length, workspacesToCheck.length, `Checked ${workspacesToCheck.length} of ${workspacesToCheck.length} workspaces`);
 
     return {
       tableName,
@@ -412,174 +367,171 @@ ${tableName}
   }
 
   /**
-   * Find working query examples in codebase (requires file system access)
+   * Find queries that reference a table in local files, checked against the cached schema
    */
-  async findWorkingQueryExamples(tableName: string, searchPaths?: string[]): Promise<any> {
-    // This would require access to the file system to search through code
-    // For now, return a placeholder that indicates this feature needs codebase access
-    return {
+  async findWorkingQueryExamples(params: QueryExamplesParams, options: OperationOptions = {}): Promise<QueryExamplesResult> {
+    const { tableName, workspace, searchPaths = this.config.querySearchPaths, maxResults = 20 } = params;
+
+    const scan = await new QueryExampleScanner().scan(tableName, searchPaths, options);
+
+    // Only the cache is consulted; scanning must not trigger workspace queries
+    const schema = await this.schemaDiscovery.getCachedTableSchema(tableName, workspace);
+    const columns = schema?.columns.map(c => c.name);
+
+    const examples: QueryExample[] = scan.queries.map(query => ({
+      ...query,
+      validation: columns
+        ? checkColumnReferences(query.query, tableName, columns)
+        : { status: 'unknown', unknownColumns: [], message: `No cached schema for ${tableName}; run get_kql_table_schema first` },
+    }));
+
+    // Queries that still validate first
+    const rank = { valid: 0, unknown: 1, invalid: 2 };
+    examples.sort((a, b) => rank[a.validation.status] - rank[b.validation.status]);
+
+    const result: QueryExamplesResult = {
       tableName,
-      message: 'This feature requires file system access to search the codebase',
-      suggestion: 'Use VS Code search or grep to find examples of: ' + tableName,
-      examples: [],
+      searchedPaths: searchPaths,
+      filesScanned: scan.filesScanned,
+      totalFound: examples.length,
+      examples: examples.slice(0, maxResults),
     };
+    if (scan.truncated) {
+      result.message = 'File limit reached; narrow searchPaths to scan everything';
+    } else if (examples.length === 0) {
+      result.message = `No queries referencing ${tableName} found`;
+    }
+    return result;
   }
 
   /**
    * Generate SDK code for Microsoft Graph API queries
    */
-  async generateGraphSDKCode(params: GraphSDKCodeParams): Promise<string> {
-    const { endpoint, framework = 'inline', authType = 'msal-browser', method = 'GET' } = params;
+  async generateGraphSDKCode(params: GraphSDKCodeParams, options: OperationOptions = {}): Promise<string> {
+    const { endpoint, language = 'typescript', framework = 'inline', method = 'GET', apiVersion = 'v1.0', maxItems = 1000, template } = params;
+    const authType = params.authType ?? defaultAuthType(language);
 
     // Get schema to include in comments if available
     let schemaInfo = '';
+    let schemaJson = 'null';
+    let datetimeProperties: string[] = [];
     try {
-      const schema = await this.schemaDiscovery.getGraphAPISchema(endpoint, 2);
+      const schema = await this.schemaDiscovery.getGraphAPISchema(endpoint, undefined, apiVersion, options);
       const properties = Object.keys(schema.properties).slice(0, 5);
       schemaInfo = `Properties: ${properties.join(', ')}${Object.keys(schema.properties).length > 5 ? '...' : ''}`;
+      schemaJson = JSON.stringify(schema.properties, null, 2);
+      datetimeProperties = findDatetimeProperties(schema.properties, '');
     } catch {
+      options.abortSignal?.throwIfAborted();
       schemaInfo = 'Schema discovery not available';
     }
 
-    if (framework === 'react' && authType === 'msal-browser') {
-      return this.generateReactGraphCode(endpoint, method, schemaInfo);
-    } else if (framework === 'node' || authType === 'default-credential') {
-      return this.generateNodeGraphCode(endpoint, method, schemaInfo);
-    } else {
-      return this.generateInlineGraphCode(endpoint, method, schemaInfo);
-    }
-  }
-
-  private generateReactGraphCode(endpoint: string, method: string, schemaInfo: string): string {
-    const functionName = endpoint.replace(/[^a-zA-Z0-9]/g, '').replace(/^/, 'query');
-    
-    return `// React component with MSAL authentication for Microsoft Graph
-import { Client } from '@microsoft/microsoft-graph-client';
-import { TokenCredentialAuthenticationProvider } from '@microsoft/microsoft-graph-client/authProviders/azureTokenCredentials';
-import { AccessToken, TokenCredential } from '@azure/core-auth';
-import { msalInstance } from '../config/azureConfig';
-
-// Custom TokenCredential using MSAL
-const credential = new (class implements TokenCredential {
-  async getToken(scopes: string | string[]): Promise<AccessToken | null> {
-    const accounts = msalInstance.getAllAccounts();
-    if (accounts.length === 0) {
-      throw new Error('Not authenticated. Please sign in.');
-    }
-    
-    const scopeArray = Array.isArray(scopes) ? scopes : [scopes];
-    const response = await msalInstance.acquireTokenSilent({
-      scopes: scopeArray,
-      account: accounts[0],
+    return this.templates.render(template ?? defaultTemplate(language, framework, authType), 'graph', {
+      endpoint,
+      method,
+      methodName: method.toLowerCase(),
+      apiVersion,
+      beta: apiVersion === 'beta',
+      paged: method === 'GET',
+      maxItems,
+      functionName: endpoint.replace(/[^a-zA-Z0-9]/g, '').replace(/^/, 'query'),
+      properties: schemaInfo,
+      schema: schemaJson,
+      pythonFunctionName: `query_${toSnakeCase(endpoint)}`,
+      datetimeProperties: `[${datetimeProperties.map(name => JSON.stringify(name)).join(', ')}]`,
+      interactive: authType === 'msal-browser',
+      tenantId: this.config.tenantId,
     });
-    
-    return {
-      token: response.accessToken,
-      expiresOnTimestamp: response.expiresOn?.getTime() || 0,
-    };
   }
-})();
-
-// Create Graph client with authentication provider
-const authProvider = new TokenCredentialAuthenticationProvider(credential, {
-  scopes: ['https://graph.microsoft.com/.default']
-});
-
-const graphClient = Client.initWithMiddleware({ authProvider });
+}
 
-async function ${functionName}() {
-  try {
-    // ${schemaInfo}
-    const response = await graphClient
-      .api('${endpoint}')
-      .${method.toLowerCase()}();
-    
-    console.log(\`Retrieved \${response.value?.length || 1} items\`);
-    return response.value || response;
-  } catch (error) {
-    console.error('Graph API error:', error);
-    throw error;
-  }
+interface SampledProperty {
+  type: string;
+  format?: string;
+  properties?: Record<string, SampledProperty>;
 }
 
-// Usage in React component:
-// const data = await ${functionName}();`;
-  }
+/**
+ * Notebooks and scripts sign in with DefaultAzureCredential; TypeScript code defaults to browser apps
+ */
+function defaultAuthType(language: CodeLanguage): AuthType {
+  return language === 'python' ? 'default-credential' : 'msal-browser';
+}
 
-  private generateNodeGraphCode(endpoint: string, method: string, schemaInfo: string): string {
-    const functionName = endpoint.replace(/[^a-zA-Z0-9]/g, '').replace(/^/, 'query');
-    
-    return `// Node.js with DefaultAzureCredential for Microsoft Graph
-import { Client } from '@microsoft/microsoft-graph-client';
-import { TokenCredentialAuthenticationProvider } from '@microsoft/microsoft-graph-client/authProviders/azureTokenCredentials';
-import { DefaultAzureCredential } from '@azure/identity';
-
-// Initialize credential and Graph client
-const credential = new DefaultAzureCredential();
-const authProvider = new TokenCredentialAuthenticationProvider(credential, {
-  scopes: ['https://graph.microsoft.com/.default']
-});
-
-const graphClient = Client.initWithMiddleware({ authProvider });
-
-async function ${functionName}() {
-  try {
-    // ${schemaInfo}
-    const response = await graphClient
-      .api('${endpoint}')
-      .${method.toLowerCase()}();
-    
-    // Handle paginated results automatically
-    if (response.value) {
-      console.log(\`Retrieved \${response.value.length} items\`);
-      
-      // Optional: Get all pages
-      let allItems = response.value;
-      let iterator = graphClient
-        .api('${endpoint}')
-        .${method.toLowerCase()}();
-      
-      const pageIterator = await iterator;
-      // Note: Use PageIterator from @microsoft/microsoft-graph-client for full pagination
-      
-      return allItems;
-    }
-    
-    return response;
-  } catch (error) {
-    console.error('Graph API error:', error);
-    throw error;
+/**
+ * The built-in template for a language, framework and authentication type
+ */
+function defaultTemplate(language: CodeLanguage, framework: 'react' | 'node' | 'inline', authType: AuthType): string {
+  if (language === 'python') {
+    return 'python';
+  } else if (framework === 'react' && authType === 'msal-browser') {
+    return 'react';
+  } else if (framework === 'node' || authType === 'default-credential') {
+    return 'node';
   }
+  return 'inline';
 }
 
-// Run the query
-${functionName}()
-  .then(data => console.log('Data:', data))
-  .catch(err => console.error('Error:', err));`;
+/**
+ * The pandas dtype for a KQL scalar type. Integer and boolean dtypes are the
+ * nullable extension types, since Log Analytics columns are usually sparse;
+ * timespans stay strings because pandas cannot parse the d.hh:mm:ss form.
+ */
+function pandasDtype(kqlType: string): string {
+  switch (kqlType) {
+    case 'string':
+    case 'guid':
+    case 'timespan':
+      return 'string';
+    case 'int':
+      return 'Int32';
+    case 'long':
+      return 'Int64';
+    case 'real':
+    case 'decimal':
+      return 'float64';
+    case 'bool':
+      return 'boolean';
+    case 'datetime':
+      return 'datetime64[ns, UTC]';
+    default:
+      return 'object';
   }
+}
 
-  private generateInlineGraphCode(endpoint: string, method: string, schemaInfo: string): string {
-    const functionName = endpoint.replace(/[^a-zA-Z0-9]/g, '').replace(/^/, 'query');
-    
-    return `// Generic Microsoft Graph API query with TokenCredential
-// ${schemaInfo}
-import { Client } from '@microsoft/microsoft-graph-client';
-import { TokenCredentialAuthenticationProvider } from '@microsoft/microsoft-graph-client/authProviders/azureTokenCredentials';
-import type { TokenCredential } from '@azure/core-auth';
-
-async function ${functionName}(credential: TokenCredential) {
-  const authProvider = new TokenCredentialAuthenticationProvider(credential, {
-    scopes: ['https://graph.microsoft.com/.default']
+/**
+ * Paths of datetime properties, as pandas.json_normalize names nested columns
+ */
+function findDatetimeProperties(properties: Record<string, SampledProperty>, prefix: string): string[] {
+  return Object.entries(properties).flatMap(([name, property]) => {
+    if (property.format === 'datetime') {
+      return [prefix + name];
+    }
+    return property.properties ? findDatetimeProperties(property.properties, `${prefix}${name}.`) : [];
   });
+}
 
-  const graphClient = Client.initWithMiddleware({ authProvider });
-
-  const response = await graphClient
-    .api('${endpoint}')
-    .${method.toLowerCase()}();
+/**
+ * Table names and endpoint paths as Python identifiers (SecurityAlert -> security_alert, /security/alerts_v2 -> security_alerts_v2)
+ */
+function toSnakeCase(name: string): string {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2')
+    .replace(/[^A-Za-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .toLowerCase();
+}
 
-  return response.value || response;
-}`;
-  }
+function toTimestamp(value: unknown): string {
+  return value instanceof Date ? value.toISOString() : String(value);
 }
 
+/**
+ * Log Analytics rejects a query naming a table the workspace does not have
+ * with a semantic error, e.g. "Failed to resolve table or column expression named 'X'"
+ */
+function isUnresolvedTableError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return /failed to resolve table/i.test(message) || /could not be resolved/i.test(message);
+}
@@ -0,0 +1,220 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { BUILTIN_CODE_TEMPLATES } from './BuiltinCodeTemplates.js';
+
+export const CODE_TEMPLATE_KINDS = ['kql', 'graph', 'partial'] as const;
+export type CodeTemplateKind = typeof CODE_TEMPLATE_KINDS[number];
+
+export type TemplateValue = string | number | boolean;
+export type TemplateVariables = Record<string, TemplateValue>;
+
+/**
+ * The variables each kind of template is rendered with; partials see the
+ * variables of the template that includes them
+ */
+export const CODE_TEMPLATE_VARIABLES = {
+  kql: {
+    table: 'Table name',
+    functionName: 'Name of the generated query function, e.g. queryHeartbeat',
+    workspace: 'Workspace alias (the ID for unregistered workspaces)',
+    workspaceId: 'Workspace ID',
+    columns: 'The first five column names, with the total when there are more',
+    columnCount: 'Number of columns',
+    schema: 'The table columns as a JSON array of { name, type }',
+    pythonFunctionName: 'Name of the generated Python function, e.g. query_heartbeat',
+    pandasDtypes: 'One "column": "dtype", line per column, for a Python dict of pandas dtypes',
+    interactive: 'True when authType is msal-browser (InteractiveBrowserCredential in Python)',
+    tenantId: 'Tenant ID the server signs in to',
+  },
+  graph: {
+    endpoint: 'Graph endpoint path, e.g. /security/alerts',
+    method: 'HTTP method: GET, POST, PATCH or DELETE',
+    methodName: 'Graph client method for the HTTP method: get, post, patch or delete',
+    apiVersion: 'Graph API version: v1.0 or beta',
+    beta: 'True for the beta API',
+    paged: 'True for GET requests, which page through @odata.nextLink',
+    maxItems: 'Default limit on items collected across pages',
+    functionName: 'Name of the generated query function, e.g. querysecurityalerts',
+    properties: 'The first five sampled property names, or a note that discovery failed',
+    schema: 'The sampled properties as JSON, or null when discovery failed',
+    pythonFunctionName: 'Name of the generated Python function, e.g. query_security_alerts',
+    datetimeProperties: 'Python list of the sampled datetime properties, nested ones as dotted paths',
+    interactive: 'True when authType is msal-browser (InteractiveBrowserCredential in Python)',
+    tenantId: 'Tenant ID the server signs in to',
+  },
+} as const;
+
+// Subdirectories of the user template directory, per kind
+const KIND_DIRECTORIES: Record<CodeTemplateKind, string> = { kql: 'kql', graph: 'graph', partial: 'partials' };
+
+// Deepest chain of partials including partials, to catch cycles
+const MAX_PARTIAL_DEPTH = 10;
+
+export interface CodeTemplate {
+  [key: string]: unknown;
+  name: string;
+  kind: CodeTemplateKind;
+  description: string;
+  source: 'builtin' | 'user';
+  /** File the user template was loaded from */
+  path?: string;
+  /** Set on user templates that replace a built-in one */
+  overridesBuiltin?: boolean;
+  body: string;
+}
+
+/**
+ * Code templates: the built-in set plus user templates from a directory.
+ * The directory is read on every call, so edited templates apply without a
+ * restart. Templates are named <kind directory>/<file name without extension>,
+ * e.g. kql/react or partials/msal-credential.
+ */
+export class CodeTemplates {
+  private templateDir?: string;
+
+  constructor(templateDir?: string) {
+    this.templateDir = templateDir;
+  }
+
+  /**
+   * All templates by name; user templates replace built-ins of the same name
+   */
+  async list(): Promise<CodeTemplate[]> {
+    const templates = new Map<string, CodeTemplate>(
+      BUILTIN_CODE_TEMPLATES.map(template => [template.name, { ...template, source: 'builtin' }])
+    );
+    for (const template of await this.loadUserTemplates()) {
+      const builtin = templates.get(template.name);
+      if (builtin && builtin.kind !== template.kind) {
+        continue;
+      }
+      templates.set(template.name, builtin ? { ...template, overridesBuiltin: true } : template);
+    }
+    return [...templates.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Render a kql or graph template by name. A name without a directory is
+   * looked up under the kind, so "node" means kql/node for table code.
+   */
+  async render(name: string, kind: 'kql' | 'graph', variables: TemplateVariables): Promise<string> {
+    const templates = new Map((await this.list()).map(template => [template.name, template]));
+    const fullName = name.includes('/') ? name : `${KIND_DIRECTORIES[kind]}/${name}`;
+    const template = templates.get(fullName);
+
+    if (!template || template.kind !== kind) {
+      const available = [...templates.values()].filter(t => t.kind === kind).map(t => t.name);
+      throw new Error(`Unknown ${kind} template "${name}". Available: ${available.join(', ')}`);
+    }
+
+    return renderTemplate(template.body, variables, partialName => templates.get(partialName)?.body, template.name);
+  }
+
+  private async loadUserTemplates(): Promise<CodeTemplate[]> {
+    if (!this.templateDir) {
+      return [];
+    }
+
+    const templates: CodeTemplate[] = [];
+    for (const kind of CODE_TEMPLATE_KINDS) {
+      const directory = path.join(this.templateDir, KIND_DIRECTORIES[kind]);
+      let files: string[];
+      try {
+        files = (await fs.readdir(directory, { withFileTypes: true }))
+          .filter(entry => entry.isFile() && !entry.name.startsWith('.'))
+          .map(entry => entry.name);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          continue;
+        }
+        throw error;
+      }
+
+      for (const file of files) {
+        const filePath = path.join(directory, file);
+        const body = (await fs.readFile(filePath, 'utf-8')).replace(/^\uFEFF/, '').replace(/\r?\n$/, '');
+        const description = /^\{\{!\s*([\s\S]*?)\s*\}\}/.exec(body)?.[1];
+        templates.push({
+          name: `${KIND_DIRECTORIES[kind]}/${path.parse(file).name}`,
+          kind,
+          description: description || `User template ${filePath}`,
+          source: 'user',
+          path: filePath,
+          body,
+        });
+      }
+    }
+    return templates;
+  }
+}
+
+/**
+ * Render a template with a small Mustache subset:
+ *
+ * - {{name}} inserts a variable
+ * - {{#name}}...{{/name}} keeps its content when the variable is truthy, {{^name}}...{{/name}} when it is not
+ * - {{> template}} includes another template, usually a partial
+ * - {{! text}} is a comment
+ *
+ * Section and comment tags alone on a line remove the whole line. A variable
+ * or partial alone on a line indents every line it inserts to match, so
+ * multi-line values line up with the surrounding code. Any other {{...}}, such
+ * as a JSX style={{ color: 'red' }}, is left as it is.
+ */
+export function renderTemplate(
+  body: string,
+  variables: TemplateVariables,
+  partial: (name: string) => string | undefined,
+  templateName: string,
+  depth = 0
+): string {
+  const lookup = (name: string): TemplateValue => {
+    if (!(name in variables)) {
+      throw new Error(`Template ${templateName} uses unknown variable "${name}". Available: ${Object.keys(variables).join(', ')}`);
+    }
+    return variables[name];
+  };
+
+  let text = body
+    .replace(/^[ \t]*\{\{![\s\S]*?\}\}[ \t]*(?:\r?\n|$)/gm, '')
+    .replace(/\{\{![\s\S]*?\}\}/g, '')
+    .replace(/^[ \t]*(\{\{[#^/]\s*\w+\s*\}\})[ \t]*(?:\r?\n|$)/gm, '$1');
+
+  // Outer sections first; their content is searched again for nested ones
+  const section = /\{\{([#^])\s*(\w+)\s*\}\}([\s\S]*?)\{\{\/\s*\2\s*\}\}/g;
+  while (section.test(text)) {
+    text = text.replace(section, (_match, type: string, name: string, content: string) =>
+      Boolean(lookup(name)) === (type === '#') ? content : ''
+    );
+  }
+  const unclosed = /\{\{([#^/])\s*(\w+)\s*\}\}/.exec(text);
+  if (unclosed) {
+    throw new Error(`Template ${templateName} has an unmatched ${unclosed[0]}`);
+  }
+
+  // One pass, so inserted values and partials are not scanned for tags again
+  return text.replace(/\{\{\s*(>\s*)?([\w./-]+)\s*\}\}/g, (match, isPartial: string | undefined, name: string, offset: number) => {
+    let value: string;
+    if (isPartial) {
+      const partialBody = partial(name);
+      if (partialBody === undefined) {
+        throw new Error(`Template ${templateName} includes unknown template "${name}"`);
+      }
+      if (depth >= MAX_PARTIAL_DEPTH) {
+        throw new Error(`Template ${templateName} nests partials more than ${MAX_PARTIAL_DEPTH} deep; does ${name} include itself?`);
+      }
+      // The tag's own line break follows the partial, so a final one in the partial would add a blank line
+      value = renderTemplate(partialBody, variables, partial, name, depth + 1).replace(/\r?\n$/, '');
+    } else if (/^\w+$/.test(name)) {
+      value = String(lookup(name));
+    } else {
+      return match;
+    }
+
+    const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+    const indent = text.slice(lineStart, offset);
+    return /^[ \t]+$/.test(indent)
+      ? value.split('\n').map((line, i) => (i === 0 || !line ? line : indent + line)).join('\n')
+      : value;
+  });
+}
@@ -0,0 +1,630 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { Config } from '../config.js';
+import type { AzureBackend } from '../backend/AzureBackend.js';
+import { diffGraphVersions } from './SchemaDiff.js';
+import type { GraphVersionComparison, GraphVersionShape, PropertyTree } from './SchemaDiff.js';
+import { abortable } from './Operation.js';
+import type { OperationOptions } from './Operation.js';
+
+export const GRAPH_API_VERSIONS = ['v1.0', 'beta'] as const;
+
+export type GraphApiVersion = typeof GRAPH_API_VERSIONS[number];
+
+/**
+ * Base URL of a Microsoft Graph API version, e.g. https://graph.microsoft.com/beta
+ */
+export function graphBaseUrl(apiVersion: GraphApiVersion): string {
+  return `https://graph.microsoft.com/${apiVersion}`;
+}
+
+// Complex types nest (and occasionally recurse); stop expanding beyond this depth
+const MAX_MERGE_DEPTH = 6;
+
+export type DeclaredKind = 'primitive' | 'enum' | 'complex' | 'entity' | 'unknown';
+
+export interface DeclaredProperty {
+  [key: string]: unknown;
+  type: string;
+  isCollection: boolean;
+  nullable: boolean;
+  kind: DeclaredKind;
+  declaredIn: string;
+}
+
+export interface DeclaredNavigationProperty {
+  [key: string]: unknown;
+  type: string;
+  isCollection: boolean;
+  containsTarget: boolean;
+  declaredIn: string;
+}
+
+export interface GraphEntityType {
+  [key: string]: unknown;
+  endpoint: string;
+  apiVersion: GraphApiVersion;
+  typeName: string;
+  kind: 'entity' | 'complex';
+  isCollection: boolean;
+  baseTypes: string[];
+  abstract: boolean;
+  key: string[];
+  properties: Record<string, DeclaredProperty>;
+  navigationProperties: Record<string, DeclaredNavigationProperty>;
+  complexTypes: Record<string, Record<string, DeclaredProperty>>;
+  enumTypes: Record<string, string[]>;
+  metadataSource: string;
+}
+
+/**
+ * Shape of a sampled property from getGraphAPISchema
+ */
+export interface SampledProperty {
+  [key: string]: unknown;
+  type: string;
+  required: boolean;
+  nullable: boolean;
+  format?: string;
+  properties?: Record<string, SampledProperty>;
+  items?: SampledProperty;
+  declaredType?: string;
+  source?: 'sampled' | 'declared' | 'both';
+}
+
+interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+}
+
+interface CsdlStructuredType {
+  name: string;
+  kind: 'entity' | 'complex';
+  baseType?: string;
+  abstract: boolean;
+  key: string[];
+  properties: Array<{ name: string; type: string; nullable: boolean }>;
+  navigationProperties: Array<{ name: string; type: string; containsTarget: boolean }>;
+}
+
+interface CsdlModel {
+  structuredTypes: Map<string, CsdlStructuredType>;
+  enumTypes: Map<string, string[]>;
+  entitySets: Map<string, string>;
+  singletons: Map<string, string>;
+  source: string;
+}
+
+/**
+ * Declared Microsoft Graph types from the OData $metadata (CSDL) document of
+ * each API version. The document is read from GRAPH_METADATA_PATH when set,
+ * otherwise fetched once and cached on disk for the Graph cache TTL.
+ */
+export class GraphMetadata {
+  private config: Config;
+  private backend: AzureBackend;
+  private models: Map<GraphApiVersion, Promise<CsdlModel>> = new Map();
+
+  constructor(config: Config, backend: AzureBackend) {
+    this.config = config;
+    this.backend = backend;
+  }
+
+  /**
+   * Resolve an endpoint path (e.g. "/security/alerts_v2" or "/users/{id}/manager")
+   * to the entity type it returns
+   */
+  async getEntityType(
+    endpoint: string,
+    apiVersion: GraphApiVersion = 'v1.0',
+    options: OperationOptions = {}
+  ): Promise<GraphEntityType> {
+    // The document is shared by every caller, so a cancelled call stops waiting rather than the download
+    const model = await abortable(this.loadModel(apiVersion), options.abortSignal);
+    const { typeName, isCollection } = resolvePath(model, endpoint);
+
+    const type = model.structuredTypes.get(typeName);
+    if (!type) {
+      throw new Error(`${endpoint} returns ${typeName}, which is not an entity or complex type`);
+    }
+
+    const hierarchy = getHierarchy(model, type);
+    const result: GraphEntityType = {
+      endpoint,
+      apiVersion,
+      typeName,
+      kind: type.kind,
+      isCollection,
+      baseTypes: hierarchy.slice(1).map(t => t.name),
+      abstract: type.abstract,
+      key: hierarchy.find(t => t.key.length > 0)?.key || [],
+      properties: collectProperties(model, type),
+      navigationProperties: {},
+      complexTypes: {},
+      enumTypes: {},
+      metadataSource: model.source,
+    };
+
+    for (const declaring of [...hierarchy].reverse()) {
+      for (const navigation of declaring.navigationProperties) {
+        const { name, isCollection: navigationIsCollection } = parseTypeReference(navigation.type);
+        result.navigationProperties[navigation.name] = {
+          type: name,
+          isCollection: navigationIsCollection,
+          containsTarget: navigation.containsTarget,
+          declaredIn: declaring.name,
+        };
+      }
+    }
+
+    // Include every complex and enum type reachable through structural properties
+    const pending = Object.values(result.properties);
+    while (pending.length > 0) {
+      const property = pending.pop()!;
+      if (property.kind === 'enum' && !result.enumTypes[property.type]) {
+        result.enumTypes[property.type] = model.enumTypes.get(property.type)!;
+      } else if (property.kind === 'complex' && !result.complexTypes[property.type]) {
+        const properties = collectProperties(model, model.structuredTypes.get(property.type)!);
+        result.complexTypes[property.type] = properties;
+        pending.push(...Object.values(properties));
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Merge declared properties into sampled ones. Sampled properties gain their
+   * declared type; declared properties that were never sampled (null or absent
+   * in this tenant) are added as optional.
+   */
+  mergeDeclared(
+    sampled: Record<string, SampledProperty>,
+    entityType: GraphEntityType
+  ): Record<string, SampledProperty> {
+    return mergeProperties(sampled, entityType.properties, entityType, 0);
+  }
+
+  /**
+   * Compare the declared entity types of an endpoint in Graph v1.0 and beta,
+   * including navigation properties and the properties of complex types
+   */
+  async compareVersions(endpoint: string, options: OperationOptions = {}): Promise<GraphVersionComparison> {
+    const { abortSignal, onProgress } = options;
+    const declared = async (apiVersion: GraphApiVersion, step: number): Promise<GraphVersionShape> => {
+      try {
+        return { available: true, properties: toPropertyTree(await this.getEntityType(endpoint, apiVersion, { abortSignal })) };
+      } catch (error) {
+        abortSignal?.throwIfAborted();
+        return { available: false, error: error instanceof Error ? error.message : String(error), properties: {} };
+      } finally {
+        onProgress?.(step, 2, `Read the ${apiVersion} metadata`);
+      }
+    };
+
+    return diffGraphVersions(endpoint, 'declared', await declared('v1.0', 1), await declared('beta', 2));
+  }
+
+  private loadModel(apiVersion: GraphApiVersion): Promise<CsdlModel> {
+    let model = this.models.get(apiVersion);
+    if (!model) {
+      model = this.readMetadata(apiVersion)
+        .then(({ xml, source }) => parseCsdl(xml, source))
+        .catch(error => {
+          // Allow a retry on the next call
+          this.models.delete(apiVersion);
+          throw error;
+        });
+      this.models.set(apiVersion, model);
+    }
+    return model;
+  }
+
+  private async readMetadata(apiVersion: GraphApiVersion): Promise<{ xml: string; source: string }> {
+    // A path without a {version} placeholder is the v1.0 document
+    const localPath = this.config.graphMetadataPath;
+    if (localPath && (localPath.includes('{version}') || apiVersion === 'v1.0')) {
+      const filePath = localPath.replace('{version}', apiVersion);
+      const xml = await fs.readFile(filePath, 'utf-8');
+      return { xml, source: filePath };
+    }
+
+    const url = `${graphBaseUrl(apiVersion)}/$metadata`;
+    const cachePath = path.join(this.config.schemaCacheDir, 'metadata', `graph-${apiVersion}.xml`);
+    try {
+      const stats = await fs.stat(cachePath);
+      if (Date.now() - stats.mtimeMs < this.config.schemaCacheTtl.graph * 1000) {
+        return { xml: await fs.readFile(cachePath, 'utf-8'), source: url };
+      }
+    } catch {
+      // Not cached yet
+    }
+
+    console.error(`Fetching Graph metadata: ${url}`);
+    const response = await this.backend.fetchGraph(url);
+    if (!response.ok || typeof response.body !== 'string') {
+      throw new Error(`Failed to fetch Graph $metadata (${apiVersion}): ${response.status} ${response.statusText}`);
+    }
+
+    try {
+      await fs.mkdir(path.dirname(cachePath), { recursive: true });
+      await fs.writeFile(cachePath, response.body, 'utf-8');
+    } catch (error) {
+      console.error('Warning: Failed to cache Graph metadata to disk:', error);
+    }
+
+    return { xml: response.body, source: url };
+  }
+}
+
+/**
+ * Parse the CSDL document into type and entity container lookups. Type
+ * references using a schema alias are rewritten to the full namespace.
+ */
+function parseCsdl(xml: string, source: string): CsdlModel {
+  const document = parseXml(xml);
+  const schemas = findElements(document, 'Schema');
+  if (schemas.length === 0) {
+    throw new Error(`${source} is not a CSDL document (no Schema elements found)`);
+  }
+
+  const aliases = new Map<string, string>();
+  for (const schema of schemas) {
+    if (schema.attributes.Alias) aliases.set(schema.attributes.Alias, schema.attributes.Namespace);
+  }
+  const qualify = (reference: string): string => {
+    const collection = /^Collection\((.*)\)$/.exec(reference);
+    if (collection) return `Collection(${qualify(collection[1])})`;
+    const dot = reference.lastIndexOf('.');
+    const namespace = reference.slice(0, dot);
+    return aliases.has(namespace) ? `${aliases.get(namespace)}.${reference.slice(dot + 1)}` : reference;
+  };
+
+  const model: CsdlModel = {
+    structuredTypes: new Map(),
+    enumTypes: new Map(),
+    entitySets: new Map(),
+    singletons: new Map(),
+    source,
+  };
+
+  for (const schema of schemas) {
+    const namespace = schema.attributes.Namespace;
+    for (const element of schema.children) {
+      if (element.name === 'EntityType' || element.name === 'ComplexType') {
+        const key = element.children.find(child => child.name === 'Key');
+        model.structuredTypes.set(`${namespace}.${element.attributes.Name}`, {
+          name: `${namespace}.${element.attributes.Name}`,
+          kind: element.name === 'EntityType' ? 'entity' : 'complex',
+          baseType: element.attributes.BaseType ? qualify(element.attributes.BaseType) : undefined,
+          abstract: element.attributes.Abstract === 'true',
+          key: key ? key.children.map(ref => ref.attributes.Name) : [],
+          properties: element.children
+            .filter(child => child.name === 'Property')
+            .map(child => ({
+              name: child.attributes.Name,
+              type: qualify(child.attributes.Type),
+              nullable: child.attributes.Nullable !== 'false',
+            })),
+          navigationProperties: element.children
+            .filter(child => child.name === 'NavigationProperty')
+            .map(child => ({
+              name: child.attributes.Name,
+              type: qualify(child.attributes.Type),
+              containsTarget: child.attributes.ContainsTarget === 'true',
+            })),
+        });
+      } else if (element.name === 'EnumType') {
+        model.enumTypes.set(
+          `${namespace}.${element.attributes.Name}`,
+          element.children.filter(child => child.name === 'Member').map(child => child.attributes.Name)
+        );
+      } else if (element.name === 'EntityContainer') {
+        for (const child of element.children) {
+          if (child.name === 'EntitySet') model.entitySets.set(child.attributes.Name, qualify(child.attributes.EntityType));
+          if (child.name === 'Singleton') model.singletons.set(child.attributes.Name, qualify(child.attributes.Type));
+        }
+      }
+    }
+  }
+
+  return model;
+}
+
+/**
+ * Walk an endpoint path from its entity set or singleton through keys,
+ * navigation properties, complex properties and type casts
+ */
+function resolvePath(model: CsdlModel, endpoint: string): { typeName: string; isCollection: boolean } {
+  const segments = endpoint.split('?')[0].split('/').filter(Boolean);
+  if (segments.length === 0) {
+    throw new Error('Endpoint path is empty');
+  }
+
+  const [root, ...rest] = segments;
+  let current: { typeName: string; isCollection: boolean };
+  if (model.entitySets.has(root)) {
+    current = { typeName: model.entitySets.get(root)!, isCollection: true };
+  } else if (model.singletons.has(root)) {
+    current = { typeName: model.singletons.get(root)!, isCollection: false };
+  } else {
+    throw new Error(`"${root}" is not an entity set or singleton in the Graph metadata`);
+  }
+
+  for (const segment of rest) {
+    // Type cast, e.g. /directoryObjects/microsoft.graph.user
+    if (model.structuredTypes.has(segment)) {
+      current = { typeName: segment, isCollection: current.isCollection };
+      continue;
+    }
+
+    // Any other segment after a collection addresses a single member by key
+    if (current.isCollection) {
+      current = { typeName: current.typeName, isCollection: false };
+      continue;
+    }
+
+    const type = model.structuredTypes.get(current.typeName);
+    const member = type && findMember(model, type, segment);
+    if (!member) {
+      throw new Error(`"${segment}" is not a property or navigation property of ${current.typeName}`);
+    }
+    const reference = parseTypeReference(member);
+    current = { typeName: reference.name, isCollection: reference.isCollection };
+  }
+
+  return current;
+}
+
+function findMember(model: CsdlModel, type: CsdlStructuredType, name: string): string | undefined {
+  for (const declaring of getHierarchy(model, type)) {
+    const member = declaring.navigationProperties.find(p => p.name === name)
+      || declaring.properties.find(p => p.name === name);
+    if (member) return member.type;
+  }
+  return undefined;
+}
+
+/**
+ * The type followed by its base types, most derived first
+ */
+function getHierarchy(model: CsdlModel, type: CsdlStructuredType): CsdlStructuredType[] {
+  const hierarchy = [type];
+  let current = type;
+  while (current.baseType && model.structuredTypes.has(current.baseType) && hierarchy.length < 32) {
+    current = model.structuredTypes.get(current.baseType)!;
+    hierarchy.push(current);
+  }
+  return hierarchy;
+}
+
+/**
+ * Structural properties of a type including inherited ones, base type properties first
+ */
+function collectProperties(model: CsdlModel, type: CsdlStructuredType): Record<string, DeclaredProperty> {
+  const properties: Record<string, DeclaredProperty> = {};
+  for (const declaring of getHierarchy(model, type).reverse()) {
+    for (const property of declaring.properties) {
+      const { name, isCollection } = parseTypeReference(property.type);
+      properties[property.name] = {
+        type: name,
+        isCollection,
+        nullable: property.nullable,
+        kind: getKind(model, name),
+        declaredIn: declaring.name,
+      };
+    }
+  }
+  return properties;
+}
+
+function getKind(model: CsdlModel, typeName: string): DeclaredKind {
+  if (typeName.startsWith('Edm.')) return 'primitive';
+  if (model.enumTypes.has(typeName)) return 'enum';
+  const type = model.structuredTypes.get(typeName);
+  if (type) return type.kind;
+  return 'unknown';
+}
+
+function parseTypeReference(reference: string): { name: string; isCollection: boolean } {
+  const collection = /^Collection\((.*)\)$/.exec(reference);
+  return collection ? { name: collection[1], isCollection: true } : { name: reference, isCollection: false };
+}
+
+function mergeProperties(
+  sampled: Record<string, SampledProperty>,
+  declared: Record<string, DeclaredProperty>,
+  entityType: GraphEntityType,
+  depth: number
+): Record<string, SampledProperty> {
+  const merged: Record<string, SampledProperty> = {};
+
+  for (const [name, property] of Object.entries(sampled)) {
+    const declaration = declared[name];
+    merged[name] = declaration
+      ? mergeProperty(property, declaration, entityType, depth)
+      : { ...property, source: 'sampled' };
+  }
+
+  for (const [name, declaration] of Object.entries(declared)) {
+    if (!merged[name]) {
+      merged[name] = { ...describeDeclared(declaration, entityType, depth), source: 'declared' };
+    }
+  }
+
+  return merged;
+}
+
+function mergeProperty(
+  property: SampledProperty,
+  declaration: DeclaredProperty,
+  entityType: GraphEntityType,
+  depth: number
+): SampledProperty {
+  const merged: SampledProperty = { ...property, declaredType: formatDeclaredType(declaration), source: 'both' };
+  const complex = declaration.kind === 'complex' && depth < MAX_MERGE_DEPTH
+    ? entityType.complexTypes[declaration.type]
+    : undefined;
+  if (!complex) return merged;
+
+  if (declaration.isCollection && property.items) {
+    const items = property.items.properties
+      ? { ...property.items, properties: mergeProperties(property.items.properties, complex, entityType, depth + 1) }
+      : property.items;
+    merged.items = items;
+  } else if (!declaration.isCollection && property.properties) {
+    merged.properties = mergeProperties(property.properties, complex, entityType, depth + 1);
+  }
+  return merged;
+}
+
+/**
+ * Describe a declared-only property in the same terms as a sampled one
+ */
+function describeDeclared(declaration: DeclaredProperty, entityType: GraphEntityType, depth: number): SampledProperty {
+  const element: SampledProperty = { ...describeDeclaredType(declaration.type, declaration.kind), required: false, nullable: declaration.nullable };
+  const complex = declaration.kind === 'complex' && depth < MAX_MERGE_DEPTH
+    ? entityType.complexTypes[declaration.type]
+    : undefined;
+  if (complex) {
+    element.properties = Object.fromEntries(
+      Object.entries(complex).map(([name, child]) => [name, { ...describeDeclared(child, entityType, depth + 1), source: 'declared' as const }])
+    );
+  }
+
+  const described: SampledProperty = declaration.isCollection
+    ? { type: 'array', required: false, nullable: declaration.nullable, items: { ...element, required: true, nullable: false } }
+    : element;
+  described.declaredType = formatDeclaredType(declaration);
+  return described;
+}
+
+/**
+ * Declared properties in the shape compared by diffGraphVersions: the declared
+ * type name, with non-nullable properties counted as required
+ */
+function toPropertyTree(entityType: GraphEntityType): Record<string, PropertyTree> {
+  const convert = (properties: Record<string, DeclaredProperty>, depth: number): Record<string, PropertyTree> =>
+    Object.fromEntries(Object.entries(properties).map(([name, declaration]) => {
+      const property: PropertyTree = { type: formatDeclaredType(declaration), required: !declaration.nullable };
+      const complex = entityType.complexTypes[declaration.type];
+      if (declaration.kind === 'complex' && complex && depth < MAX_MERGE_DEPTH) {
+        const children = convert(complex, depth + 1);
+        if (declaration.isCollection) {
+          property.items = { type: declaration.type, required: true, properties: children };
+        } else {
+          property.properties = children;
+        }
+      }
+      return [name, property];
+    }));
+
+  const tree = convert(entityType.properties, 0);
+  for (const [name, navigation] of Object.entries(entityType.navigationProperties)) {
+    tree[name] = {
+      type: navigation.isCollection ? `Collection(${navigation.type})` : navigation.type,
+      required: false,
+    };
+  }
+  return tree;
+}
+
+function describeDeclaredType(typeName: string, kind: DeclaredKind): { type: string; format?: string } {
+  if (kind === 'enum') return { type: 'string' };
+  if (kind === 'complex' || kind === 'entity') return { type: 'object' };
+  switch (typeName) {
+    case 'Edm.Boolean':
+      return { type: 'boolean' };
+    case 'Edm.Byte':
+    case 'Edm.SByte':
+    case 'Edm.Int16':
+    case 'Edm.Int32':
+    case 'Edm.Int64':
+    case 'Edm.Single':
+    case 'Edm.Double':
+    case 'Edm.Decimal':
+      return { type: 'number' };
+    case 'Edm.Guid':
+      return { type: 'string', format: 'GUID' };
+    case 'Edm.DateTimeOffset':
+      return { type: 'string', format: 'datetime' };
+    case 'Edm.Untyped':
+      return { type: 'unknown' };
+    default:
+      return { type: 'string' };
+  }
+}
+
+function formatDeclaredType(declaration: DeclaredProperty): string {
+  return declaration.isCollection ? `Collection(${declaration.type})` : declaration.type;
+}
+
+/**
+ * Minimal XML parser for CSDL: elements and attributes only (text content,
+ * comments and processing instructions are skipped), namespace prefixes dropped
+ */
+function parseXml(xml: string): XmlElement {
+  const document: XmlElement = { name: '#document', attributes: {}, children: [] };
+  const stack: XmlElement[] = [document];
+  const token = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!\[CDATA\[[\s\S]*?\]\]>|<![^>]*>|<(\/?)([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = token.exec(xml))) {
+    const [, closing, qualifiedName, attributes, selfClosing] = match;
+    if (!qualifiedName) continue;
+
+    const name = qualifiedName.slice(qualifiedName.indexOf(':') + 1);
+    if (closing) {
+      const open = stack.pop();
+      if (!open || open.name !== name || stack.length === 0) {
+        throw new Error(`Malformed XML: unexpected </${qualifiedName}>`);
+      }
+      continue;
+    }
+
+    const element: XmlElement = { name, attributes: parseAttributes(attributes), children: [] };
+    stack[stack.length - 1].children.push(element);
+    if (!selfClosing) stack.push(element);
+  }
+
+  if (stack.length !== 1) {
+    throw new Error(`Malformed XML: <${stack[stack.length - 1].name}> is not closed`);
+  }
+  return document;
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const attribute = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = attribute.exec(source))) {
+    attributes[match[1]] = decodeEntities(match[2] ?? match[3]);
+  }
+  return attributes;
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(lt|gt|amp|quot|apos|#\d+|#x[\da-f]+);/gi, (entity, name: string) => {
+    switch (name.toLowerCase()) {
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'amp': return '&';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      default:
+        return String.fromCodePoint(name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10));
+    }
+  });
+}
+
+function findElements(root: XmlElement, name: string): XmlElement[] {
+  const found: XmlElement[] = [];
+  const pending = [root];
+  while (pending.length > 0) {
+    const element = pending.pop()!;
+    if (element.name === name) found.push(element);
+    pending.push(...element.children);
+  }
+  return found;
+}
@@ -0,0 +1,35 @@
+// getschema reports .NET type names in DataType; map them to KQL scalar types
+const DOTNET_TYPES: Record<string, string> = {
+  'System.String': 'string',
+  'System.DateTime': 'datetime',
+  'System.TimeSpan': 'timespan',
+  'System.Int32': 'int',
+  'System.Int64': 'long',
+  'System.Double': 'real',
+  'System.Single': 'real',
+  'System.Data.SqlTypes.SqlDecimal': 'decimal',
+  'System.Decimal': 'decimal',
+  'System.SByte': 'bool',
+  'System.Boolean': 'bool',
+  'System.Guid': 'guid',
+  'System.Object': 'dynamic',
+};
+
+const KQL_ALIASES: Record<string, string> = {
+  double: 'real',
+  boolean: 'bool',
+  date: 'datetime',
+  time: 'timespan',
+  uniqueid: 'guid',
+};
+
+/**
+ * Normalize a column type from getschema or query results to a KQL scalar type
+ * (string, datetime, timespan, int, long, real, decimal, bool, guid, dynamic)
+ */
+export function normalizeKqlType(type: string): string {
+  const trimmed = type.trim();
+  if (DOTNET_TYPES[trimmed]) return DOTNET_TYPES[trimmed];
+  const lower = trimmed.toLowerCase();
+  return KQL_ALIASES[lower] || lower;
+}
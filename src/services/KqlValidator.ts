@@ -0,0 +1,1139 @@
+import type { SchemaDiscovery } from './SchemaDiscovery.js';
+import type { WorkspaceRegistry } from './WorkspaceRegistry.js';
+import { normalizeKqlType } from './KqlTypes.js';
+import { globMatches } from './QueryPolicy.js';
+import type { OperationOptions } from './Operation.js';
+
+export type ValidationStatus = 'valid' | 'invalid' | 'unknown';
+
+export type IssueCode =
+  | 'unknown-table'
+  | 'unknown-column'
+  | 'unknown-operator'
+  | 'type-mismatch'
+  | 'schema-unavailable'
+  | 'syntax';
+
+export interface ValidationIssue {
+  [key: string]: unknown;
+  severity: 'error' | 'warning';
+  code: IssueCode;
+  message: string;
+  line: number;
+  column: number;
+  suggestions?: string[];
+}
+
+export interface TableReference {
+  [key: string]: unknown;
+  name: string;
+  status: 'found' | 'unknown' | 'unavailable';
+  columnCount?: number;
+}
+
+export interface ValidationResult {
+  [key: string]: unknown;
+  status: ValidationStatus;
+  tables: TableReference[];
+  issues: ValidationIssue[];
+}
+
+export interface QueryReferences {
+  tables: string[];
+  /** Table patterns such as Security* or a bare * */
+  wildcards: string[];
+  /** Tabular operators, plus every function and plugin the query calls */
+  operators: string[];
+}
+
+export interface ValidateOptions extends OperationOptions {
+  workspace?: string;
+  /** Only use cached schemas; never query the workspace for missing ones */
+  cacheOnly?: boolean;
+}
+
+export interface ColumnCheck {
+  [key: string]: unknown;
+  status: ValidationStatus;
+  unknownColumns: string[];
+  message?: string;
+}
+
+interface Token {
+  kind: 'identifier' | 'string' | 'literal' | 'operator' | 'placeholder';
+  value: string;
+  offset: number;
+}
+
+interface RawIssue {
+  severity: 'error' | 'warning';
+  code: IssueCode;
+  message: string;
+  offset: number;
+  identifier?: string;
+  suggestions?: string[];
+}
+
+/** Column name to normalized KQL type ('' when not known); null when the columns cannot be determined */
+type Columns = Map<string, string> | null;
+
+interface Analysis {
+  tables: Map<string, number>;
+  issues: RawIssue[];
+  incomplete: boolean;
+}
+
+interface AnalysisContext extends Analysis {
+  resolveTable: (name: string) => Columns;
+  scalars: Set<string>;
+  tabulars: Map<string, Columns>;
+}
+
+const TABULAR_OPERATORS = new Set([
+  'where', 'filter', 'project', 'project-away', 'project-keep', 'project-rename', 'project-reorder', 'extend',
+  'serialize', 'summarize', 'sort', 'order', 'top', 'take', 'limit', 'sample', 'count', 'distinct',
+  'mv-expand', 'parse', 'parse-where', 'parse-kv', 'join', 'lookup', 'union', 'as', 'getschema', 'render',
+  'evaluate', 'make-series', 'mv-apply', 'invoke', 'scan', 'top-nested', 'top-hitters', 'fork', 'facet',
+  'partition', 'sample-distinct', 'reduce', 'search', 'find', 'consume', 'execute', 'project-smart',
+]);
+
+// Operators whose output columns cannot be derived here
+const OPAQUE_OPERATORS = new Set([
+  'evaluate', 'make-series', 'mv-apply', 'invoke', 'scan', 'top-nested', 'top-hitters', 'fork', 'facet',
+  'partition', 'sample-distinct', 'reduce', 'search', 'find', 'consume', 'execute', 'project-smart',
+]);
+
+const HYPHENATED_OPERATORS = new Set([...TABULAR_OPERATORS].filter(op => op.includes('-')));
+
+// Words that can appear in expressions without being column references
+const EXPRESSION_KEYWORDS = new Set([
+  'and', 'or', 'not', 'in', 'has', 'contains', 'startswith', 'endswith', 'matches', 'regex', 'between',
+  'has_any', 'has_all', 'has_cs', 'hasprefix', 'hassuffix', 'hasprefix_cs', 'hassuffix_cs', 'contains_cs',
+  'startswith_cs', 'endswith_cs', 'notcontains', 'notcontains_cs', 'notbetween', 'notlike', 'like',
+  'true', 'false', 'null', 'asc', 'desc', 'nulls', 'first', 'last', 'by', 'to', 'with', 'kind', 'on',
+  'of', 'step', 'from', 'limit', 'string', 'int', 'long', 'real', 'double', 'decimal', 'bool', 'boolean',
+  'datetime', 'date', 'timespan', 'time', 'dynamic', 'guid',
+]);
+
+const OPERATOR_OPTIONS = new Set(['kind', 'withsource', 'isfuzzy', 'bagexpansion', 'with_itemindex', 'flags']);
+
+const STRING_OPERATORS = new Set([
+  'has', 'contains', 'startswith', 'endswith', 'matches', 'has_any', 'has_all', 'has_cs', 'hasprefix',
+  'hassuffix', 'hasprefix_cs', 'hassuffix_cs', 'contains_cs', 'startswith_cs', 'endswith_cs', 'notcontains',
+  'notcontains_cs', '=~', '!~',
+]);
+
+const STRING_FUNCTIONS = new Set([
+  'tolower', 'toupper', 'strlen', 'substring', 'split', 'trim', 'trim_start', 'trim_end', 'indexof',
+  'replace_string', 'replace_regex', 'extract', 'extract_all', 'parse_url', 'parse_path', 'countof',
+  'reverse', 'url_decode', 'url_encode', 'base64_decode_tostring', 'parse_csv', 'parse_ipv4',
+]);
+
+const DATETIME_FUNCTIONS = new Set([
+  'startofday', 'startofweek', 'startofmonth', 'startofyear', 'endofday', 'endofweek', 'endofmonth',
+  'endofyear', 'dayofweek', 'dayofmonth', 'dayofyear', 'weekofyear', 'monthofyear', 'getmonth', 'getyear',
+  'hourofday', 'format_datetime', 'datetime_add', 'datetime_part', 'datetime_utc_to_local',
+]);
+
+const NUMERIC_FUNCTIONS = new Set([
+  'sum', 'sumif', 'avg', 'avgif', 'stdev', 'stdevif', 'variance', 'varianceif', 'percentile',
+  'percentiles', 'round', 'abs', 'log', 'log10', 'sqrt', 'exp', 'pow',
+]);
+
+const NON_STRING_TYPES = new Set(['datetime', 'timespan', 'int', 'long', 'real', 'decimal', 'bool']);
+const NUMERIC_TYPES = new Set(['int', 'long', 'real', 'decimal']);
+
+const RETURN_TYPES: Record<string, string> = {
+  tostring: 'string', tolower: 'string', toupper: 'string', strcat: 'string', substring: 'string',
+  format_datetime: 'string', trim: 'string', extract: 'string', replace_string: 'string',
+  strlen: 'long', count: 'long', countif: 'long', dcount: 'long', dcountif: 'long', tolong: 'long',
+  toint: 'int', toreal: 'real', todouble: 'real', avg: 'real', avgif: 'real', tobool: 'bool',
+  todatetime: 'datetime', ago: 'datetime', now: 'datetime', startofday: 'datetime', startofweek: 'datetime',
+  startofmonth: 'datetime', startofyear: 'datetime', datetime_add: 'datetime', totimespan: 'timespan',
+  todynamic: 'dynamic', parse_json: 'dynamic', make_list: 'dynamic', make_set: 'dynamic', make_bag: 'dynamic',
+  split: 'dynamic', pack: 'dynamic', bag_pack: 'dynamic', pack_array: 'dynamic', toguid: 'guid',
+};
+
+// Functions whose result has the type of their first argument
+const TYPE_PRESERVING_FUNCTIONS = new Set(['min', 'max', 'minif', 'maxif', 'any', 'take_any', 'bin', 'floor', 'sum', 'sumif']);
+
+/**
+ * Validates KQL locally against table schemas from SchemaDiscovery. The
+ * query itself is never sent to the workspace; missing schemas are fetched
+ * with getschema unless only cached schemas are allowed.
+ */
+export class KqlValidator {
+  private schemaDiscovery: SchemaDiscovery;
+  private workspaces: WorkspaceRegistry;
+
+  constructor(schemaDiscovery: SchemaDiscovery, workspaces: WorkspaceRegistry) {
+    this.schemaDiscovery = schemaDiscovery;
+    this.workspaces = workspaces;
+  }
+
+  /**
+   * Check the tables, columns, operators and column types a query uses
+   */
+  async validate(query: string, options: ValidateOptions = {}): Promise<ValidationResult> {
+    const { workspace, cacheOnly = false, abortSignal } = options;
+    // Fail fast on an unknown workspace rather than reporting every table as missing
+    this.workspaces.resolve(workspace);
+
+    // A first pass without schemas finds the tables the query reads from
+    const probe = analyzeKql(query, () => null);
+
+    const schemas = new Map<string, Map<string, string>>();
+    const tables: TableReference[] = [];
+    const issues: RawIssue[] = [];
+    let knownTables: Promise<string[] | null> | undefined;
+
+    for (const [name, offset] of probe.tables) {
+      try {
+        const schema = cacheOnly
+          ? await this.schemaDiscovery.getCachedTableSchema(name, workspace)
+          : await this.schemaDiscovery.getTableSchema(name, workspace, { abortSignal });
+        if (!schema) {
+          tables.push({ name, status: 'unavailable' });
+          continue;
+        }
+        schemas.set(name, new Map(schema.columns.map(c => [c.name, normalizeKqlType(c.type)])));
+        tables.push({ name, status: 'found', columnCount: schema.columns.length });
+      } catch (error) {
+        abortSignal?.throwIfAborted();
+        // Tell a table that does not exist apart from a lookup that failed
+        knownTables ??= this.schemaDiscovery.listTables(workspace, { abortSignal }).catch(() => null);
+        const names = await knownTables;
+        if (names && !names.includes(name)) {
+          tables.push({ name, status: 'unknown' });
+          issues.push({
+            severity: 'error',
+            code: 'unknown-table',
+            message: `Unknown table "${name}"`,
+            offset,
+            suggestions: suggest(name, names),
+          });
+        } else {
+          tables.push({ name, status: 'unavailable' });
+          issues.push({
+            severity: 'warning',
+            code: 'schema-unavailable',
+            message: `Could not get the schema of ${name}: ${error instanceof Error ? error.message : String(error)}`,
+            offset,
+          });
+        }
+      }
+    }
+
+    const analysis = analyzeKql(query, name => schemas.get(name) ?? null);
+    issues.push(...analysis.issues);
+
+    const hasErrors = issues.some(issue => issue.severity === 'error');
+    const checkedEverything = !analysis.incomplete && tables.every(table => table.status === 'found');
+    return {
+      status: hasErrors ? 'invalid' : checkedEverything ? 'valid' : 'unknown',
+      tables,
+      issues: issues
+        .sort((a, b) => a.offset - b.offset)
+        .map(issue => toValidationIssue(query, issue)),
+    };
+  }
+}
+
+/**
+ * Check that the columns a query uses exist on a table whose column names are
+ * already known (no other schemas are consulted)
+ */
+export function checkColumnReferences(query: string, tableName: string, columns: string[]): ColumnCheck {
+  const analysis = analyzeKql(query, name => (name === tableName ? new Map(columns.map(c => [c, ''])) : null));
+  const unknownColumns = [...new Set(
+    analysis.issues.filter(issue => issue.code === 'unknown-column').map(issue => issue.identifier!)
+  )];
+
+  if (unknownColumns.length > 0) {
+    return { status: 'invalid', unknownColumns, message: `Unknown columns on ${tableName}: ${unknownColumns.join(', ')}` };
+  }
+  if (analysis.incomplete) {
+    return { status: 'unknown', unknownColumns, message: 'Query uses other tables or operators whose columns could not be checked' };
+  }
+  return { status: 'valid', unknownColumns };
+}
+
+/**
+ * Tables, table wildcards (union Security*, search without in) and the operators,
+ * plugins and functions a query invokes, for policy checks
+ */
+export function collectQueryReferences(query: string): QueryReferences {
+  const tokens = tokenize(query);
+  const tables = new Set([...analyzeKql(query, () => null).tables.keys()].filter(name => !TABULAR_OPERATORS.has(name)));
+  const wildcards = new Set<string>();
+  const operators = new Set<string>();
+
+  // Bracket depth of the table list of the union being read, if any
+  let depth = 0;
+  let unionDepth: number | null = null;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const previous = tokens[i - 1];
+    const next = tokens[i + 1];
+
+    if (token.kind === 'operator') {
+      if ('([{'.includes(token.value)) depth++;
+      if (')]}'.includes(token.value)) depth--;
+      if (unionDepth !== null && (depth < unionDepth || (depth === unionDepth && (token.value === '|' || token.value === ';')))) {
+        unionDepth = null;
+      }
+      if (token.value === '*' && depth === unionDepth) {
+        // A table pattern such as * or Security*
+        const prefix = previous?.kind === 'identifier' && previous.offset + previous.value.length === token.offset ? previous.value : '';
+        const suffix = next?.kind === 'identifier' && next.offset === token.offset + 1 ? next.value : '';
+        wildcards.add(`${prefix}*${suffix}`);
+      }
+      continue;
+    }
+
+    if (token.kind !== 'identifier') continue;
+
+    const isHead = !previous || previous.value === '|' || previous.value === ';' || previous.value === '(';
+    if ((isHead && TABULAR_OPERATORS.has(token.value)) || (next?.value === '(' && !EXPRESSION_KEYWORDS.has(token.value))) {
+      operators.add(token.value);
+    }
+
+    if (token.value === 'union' && isHead) {
+      unionDepth = depth;
+    } else if (token.value === 'table' && next?.value === '(' && tokens[i + 2]?.kind === 'string') {
+      tables.add(tokens[i + 2].value.replace(/^[hH]?@?(['"])(.*)\1$/, '$2'));
+    } else if ((token.value === 'search' || token.value === 'find') && (!previous || previous.value === ';')) {
+      // Without "in (...)" every table is searched
+      const rest = skipOptions(tokens.slice(i + 1), false);
+      if (rest[0]?.value === 'in' && rest[1]?.value === '(') {
+        for (const item of splitTopLevel(groupContents(rest, 1), ',')) {
+          const name = item.map(t => t.value).join('');
+          if (name.includes('*')) wildcards.add(name);
+          else if (item.length === 1 && item[0].kind === 'identifier') tables.add(name);
+        }
+      } else {
+        wildcards.add('*');
+      }
+    }
+  }
+
+  return { tables: [...tables], wildcards: [...wildcards], operators: [...operators] };
+}
+
+/**
+ * Cap the rows of every tabular statement by wrapping it as `(statement) | take n`.
+ * Statements are found with the validation lexer, so identifiers and strings that
+ * merely contain "take" or "limit" don't matter. A trailing render stays last.
+ */
+export function limitQueryRows(query: string, maxRows: number): string {
+  let limited = '';
+  let cursor = 0;
+
+  for (const statement of splitTopLevel(tokenize(query), ';')) {
+    if (statement.length === 0 || !isTabularStatement(statement)) continue;
+
+    const segments = splitTopLevel(statement, '|');
+    const wrapped = segments.length > 1 && segments[segments.length - 1][0]?.value === 'render'
+      ? segments[segments.length - 2]
+      : segments[segments.length - 1];
+    const last = wrapped[wrapped.length - 1] ?? statement[0];
+    const start = statement[0].offset;
+    const end = last.offset + last.value.length;
+
+    limited += `${query.slice(cursor, start)}(${query.slice(start, end)})\n| take ${maxRows}`;
+    cursor = end;
+  }
+
+  return limited + query.slice(cursor);
+}
+
+/**
+ * Walk all statements of a query, tracking the columns available after each
+ * pipeline operator. Tables are looked up through resolveTable.
+ */
+function analyzeKql(query: string, resolveTable: (name: string) => Columns): Analysis {
+  const ctx: AnalysisContext = {
+    tables: new Map(),
+    issues: [],
+    incomplete: false,
+    resolveTable,
+    scalars: new Set(),
+    tabulars: new Map(),
+  };
+
+  for (const statement of splitTopLevel(tokenize(query), ';')) {
+    if (statement.length > 0) {
+      analyzeStatement(statement, ctx);
+    }
+  }
+
+  return { tables: ctx.tables, issues: ctx.issues, incomplete: ctx.incomplete };
+}
+
+function analyzeStatement(tokens: Token[], ctx: AnalysisContext): void {
+  const head = tokens[0].value;
+
+  if (head === 'let' && tokens[1]?.kind === 'identifier' && tokens[2]?.value === '=') {
+    const name = tokens[1].value;
+    const body = tokens.slice(3);
+
+    if (isFunctionBody(body)) {
+      ctx.scalars.add(name);
+    } else if (isTabularBody(body, ctx)) {
+      const inner = body[0]?.value === 'materialize' && body[1]?.value === '(' ? groupContents(body, 1) : body;
+      ctx.tabulars.set(name, analyzePipeline(inner, ctx));
+    } else {
+      ctx.scalars.add(name);
+      checkExpression(body, null, ctx);
+    }
+    return;
+  }
+
+  if (head === 'declare') {
+    // declare query_parameters(name:type, ...)
+    for (const name of typedNames(tokens).keys()) {
+      ctx.scalars.add(name);
+    }
+    return;
+  }
+
+  if (head === 'set' || head === 'alias' || head === 'restrict' || head === 'pattern') {
+    return;
+  }
+
+  analyzePipeline(tokens, ctx);
+}
+
+function analyzePipeline(tokens: Token[], ctx: AnalysisContext): Columns {
+  const [source = [], ...operators] = splitTopLevel(tokens, '|');
+  let columns = analyzeSource(source, ctx);
+  for (const segment of operators) {
+    columns = applyOperator(segment, columns, ctx);
+  }
+  return columns;
+}
+
+function analyzeSource(tokens: Token[], ctx: AnalysisContext): Columns {
+  const first = tokens[0];
+  if (!first) {
+    return opaque(ctx);
+  }
+
+  if (first.value === '(') {
+    return analyzePipeline(groupContents(tokens, 0), ctx);
+  }
+
+  if (first.kind !== 'identifier') {
+    return opaque(ctx);
+  }
+
+  switch (first.value) {
+    case 'union':
+      return analyzeUnion(tokens.slice(1), undefined, ctx);
+    case 'print':
+      return new Map(splitTopLevel(tokens.slice(1), ',').map((item, index) => isAssignment(item)
+        ? [item[0].value, inferType(item.slice(2), null)]
+        : [`print_${index}`, inferType(item, null)]));
+    case 'range':
+      return tokens[1]?.kind === 'identifier' ? new Map([[tokens[1].value, '']]) : opaque(ctx);
+    case 'datatable':
+      return tokens[1]?.value === '(' ? typedNames(groupContents(tokens, 1)) : opaque(ctx);
+  }
+
+  if (tokens[1]?.value === '(' || tokens[1]?.value === '.' || first.value.startsWith('$')) {
+    // Tabular functions, table("..."), workspace("...").Table and friends
+    return opaque(ctx);
+  }
+
+  const columns = referenceTable(first, ctx);
+  if (tokens.length > 1) {
+    ctx.issues.push({
+      severity: 'error',
+      code: 'syntax',
+      message: `Unexpected "${tokens[1].value}" after ${first.value}; missing "|"?`,
+      offset: tokens[1].offset,
+    });
+  }
+  return columns;
+}
+
+/**
+ * Look up a table or a tabular let name, recording table references
+ */
+function referenceTable(token: Token, ctx: AnalysisContext): Columns {
+  if (ctx.tabulars.has(token.value)) {
+    const columns = ctx.tabulars.get(token.value)!;
+    return columns ? new Map(columns) : opaque(ctx);
+  }
+  if (token.kind !== 'identifier' || ctx.scalars.has(token.value)) {
+    return opaque(ctx);
+  }
+
+  if (!ctx.tables.has(token.value)) {
+    ctx.tables.set(token.value, token.offset);
+  }
+  const columns = ctx.resolveTable(token.value);
+  return columns ? new Map(columns) : opaque(ctx);
+}
+
+function applyOperator(tokens: Token[], columns: Columns, ctx: AnalysisContext): Columns {
+  const operatorToken = tokens[0];
+  if (!operatorToken) {
+    ctx.issues.push({ severity: 'error', code: 'syntax', message: 'Empty pipeline step', offset: 0 });
+    return columns;
+  }
+
+  const operator = operatorToken.value;
+  const rest = tokens.slice(1);
+
+  switch (operator) {
+    case 'where':
+    case 'filter':
+      checkExpression(rest, columns, ctx);
+      return columns;
+
+    case 'take':
+    case 'limit':
+    case 'sample':
+    case 'render':
+      return columns;
+
+    case 'count':
+      return new Map([['Count', 'long']]);
+
+    case 'getschema':
+      return new Map([['ColumnName', 'string'], ['ColumnOrdinal', 'int'], ['DataType', 'string'], ['ColumnType', 'string']]);
+
+    case 'project':
+      return projectColumns(rest, columns, ctx);
+
+    case 'extend':
+    case 'serialize':
+      return extendColumns(rest, columns, ctx);
+
+    case 'project-away':
+    case 'project-keep':
+    case 'project-reorder':
+      return selectColumns(operator, rest, columns, ctx);
+
+    case 'project-rename': {
+      const output = columns ? new Map(columns) : null;
+      for (const item of splitTopLevel(rest, ',')) {
+        if (!isAssignment(item)) continue;
+        checkColumn(item[2], columns, ctx);
+        if (output) {
+          const type = output.get(item[2].value) ?? '';
+          output.delete(item[2].value);
+          output.set(item[0].value, type);
+        }
+      }
+      return output;
+    }
+
+    case 'summarize':
+      return summarizeColumns(skipOptions(rest, true), columns, ctx);
+
+    case 'sort':
+    case 'order':
+    case 'top': {
+      const byIndex = rest.findIndex(t => t.value === 'by');
+      if (byIndex < 0 || (operator !== 'top' && byIndex !== 0)) {
+        ctx.issues.push({ severity: 'error', code: 'syntax', message: `Expected "by" in ${operator}`, offset: operatorToken.offset });
+      }
+      for (const item of splitTopLevel(rest.slice(byIndex + 1), ',')) {
+        checkExpression(item, columns, ctx);
+      }
+      return columns;
+    }
+
+    case 'distinct': {
+      const items = splitTopLevel(rest, ',');
+      if (items.length === 1 && items[0].length === 1 && items[0][0].value === '*') return columns;
+      const output = new Map<string, string>();
+      for (const item of items) {
+        checkExpression(item, columns, ctx);
+        if (item.length === 1 && item[0].kind === 'identifier') output.set(item[0].value, columns?.get(item[0].value) ?? '');
+      }
+      return output;
+    }
+
+    case 'mv-expand':
+      return expandColumns(rest, columns, ctx);
+
+    case 'parse':
+    case 'parse-where': {
+      const body = skipOptions(rest, false);
+      const withIndex = body.findIndex(t => t.value === 'with');
+      checkExpression(withIndex >= 0 ? body.slice(0, withIndex) : body, columns, ctx);
+      const output = columns ? new Map(columns) : null;
+      const pattern = withIndex >= 0 ? body.slice(withIndex + 1) : [];
+      for (const [index, token] of pattern.entries()) {
+        if (token.kind !== 'identifier' || pattern[index - 1]?.value === ':') continue;
+        const type = pattern[index + 1]?.value === ':' ? normalizeKqlType(pattern[index + 2]?.value ?? '') : 'string';
+        output?.set(token.value, type);
+      }
+      return output;
+    }
+
+    case 'parse-kv': {
+      const asIndex = rest.findIndex(t => t.value === 'as');
+      checkExpression(asIndex >= 0 ? rest.slice(0, asIndex) : rest, columns, ctx);
+      if (!columns || asIndex < 0 || rest[asIndex + 1]?.value !== '(') return opaque(ctx);
+      return new Map([...columns, ...typedNames(groupContents(rest, asIndex + 1))]);
+    }
+
+    case 'join':
+    case 'lookup':
+      return joinColumns(operator, rest, columns, ctx);
+
+    case 'union':
+      return analyzeUnion(rest, columns, ctx);
+
+    case 'as': {
+      const name = skipOptions(rest, true)[0];
+      if (name?.kind === 'identifier') ctx.tabulars.set(name.value, columns);
+      return columns;
+    }
+  }
+
+  if (OPAQUE_OPERATORS.has(operator)) {
+    // Plugin arguments are not column expressions; other operators still get their references checked
+    if (operator !== 'evaluate' && operator !== 'invoke') checkExpression(skipOptions(rest, false), columns, ctx);
+    return opaque(ctx);
+  }
+
+  ctx.issues.push({
+    severity: 'error',
+    code: 'unknown-operator',
+    message: `Unknown tabular operator "${operator}"`,
+    offset: operatorToken.offset,
+    suggestions: suggest(operator, [...TABULAR_OPERATORS]),
+  });
+  return opaque(ctx);
+}
+
+function projectColumns(tokens: Token[], columns: Columns, ctx: AnalysisContext): Columns {
+  const output = new Map<string, string>();
+  splitTopLevel(tokens, ',').forEach((item, index) => {
+    if (isAssignment(item)) {
+      checkExpression(item.slice(2), columns, ctx);
+      output.set(item[0].value, inferType(item.slice(2), columns));
+    } else {
+      checkExpression(item, columns, ctx);
+      const name = item.length === 1 && item[0].kind === 'identifier' ? item[0].value : `Column${index + 1}`;
+      output.set(name, inferType(item, columns));
+    }
+  });
+  return output;
+}
+
+function extendColumns(tokens: Token[], columns: Columns, ctx: AnalysisContext): Columns {
+  const output = columns ? new Map(columns) : null;
+  for (const item of splitTopLevel(tokens, ',')) {
+    const index = assignmentIndex(item);
+    if (isAssignment(item)) {
+      checkExpression(item.slice(2), columns, ctx);
+      output?.set(item[0].value, inferType(item.slice(2), columns));
+    } else if (item[0]?.value === '(' && index > 0) {
+      // Tuple assignment: extend (A, B) = ...
+      checkExpression(item.slice(index + 1), columns, ctx);
+      for (const name of groupContents(item, 0).filter(t => t.kind === 'identifier')) {
+        output?.set(name.value, '');
+      }
+    } else {
+      checkExpression(item, columns, ctx);
+    }
+  }
+  return output;
+}
+
+/**
+ * project-away, project-keep and project-reorder take column names or wildcards
+ */
+function selectColumns(operator: string, tokens: Token[], columns: Columns, ctx: AnalysisContext): Columns {
+  if (!columns) {
+    return operator === 'project-reorder' ? null : opaque(ctx);
+  }
+
+  const selected = new Set<string>();
+  for (const item of splitTopLevel(tokens, ',')) {
+    const parts = item.filter(t => !['asc', 'desc', 'granny-asc', 'granny-desc'].includes(t.value));
+    const pattern = parts.map(t => t.value).join('');
+    if (pattern.includes('*')) {
+      [...columns.keys()].filter(name => globMatches(pattern, name)).forEach(name => selected.add(name));
+    } else if (checkColumn(parts[0], columns, ctx)) {
+      selected.add(pattern);
+    }
+  }
+
+  if (operator === 'project-reorder') return columns;
+  return new Map([...columns].filter(([name]) => selected.has(name) === (operator === 'project-keep')));
+}
+
+function summarizeColumns(tokens: Token[], columns: Columns, ctx: AnalysisContext): Columns {
+  const byIndex = tokens.findIndex((t, i) => t.value === 'by' && depthAt(tokens, i) === 0);
+  const aggregates = splitTopLevel(byIndex >= 0 ? tokens.slice(0, byIndex) : tokens, ',');
+  const groups = byIndex >= 0 ? splitTopLevel(tokens.slice(byIndex + 1), ',') : [];
+  let output: Columns = new Map();
+
+  for (const item of aggregates) {
+    if (isAssignment(item)) {
+      checkExpression(item.slice(2), columns, ctx);
+      output?.set(item[0].value, inferType(item.slice(2), columns));
+      continue;
+    }
+
+    checkExpression(item, columns, ctx);
+    const fn = item[0]?.value;
+    const args = item[1]?.value === '(' ? splitTopLevel(groupContents(item, 1), ',') : [];
+    if (fn === 'arg_max' || fn === 'arg_min') {
+      // arg_max(ExprToMaximize, Col1, Col2, ...) or arg_max(Expr, *)
+      for (const arg of args) {
+        if (arg.length === 1 && arg[0].value === '*') {
+          output = columns && output ? new Map([...output, ...columns]) : opaque(ctx);
+        } else if (arg.length === 1 && arg[0].kind === 'identifier') {
+          output?.set(arg[0].value, columns?.get(arg[0].value) ?? '');
+        }
+      }
+    } else if (fn) {
+      // Unnamed aggregates are called count_, dcount_Computer, ...
+      const firstArg = args[0]?.length === 1 && args[0][0].kind === 'identifier' ? args[0][0].value : '';
+      output?.set(`${fn}_${firstArg}`, inferType(item, columns));
+    }
+  }
+
+  for (const item of groups) {
+    if (isAssignment(item)) {
+      checkExpression(item.slice(2), columns, ctx);
+      output?.set(item[0].value, inferType(item.slice(2), columns));
+      continue;
+    }
+    checkExpression(item, columns, ctx);
+    // Grouping by bin(TimeGenerated, 1h) keeps the column name
+    const name = item.length === 1 ? item[0] : item[1]?.value === '(' ? item[2] : undefined;
+    if (name?.kind === 'identifier') output?.set(name.value, inferType(item, columns));
+  }
+
+  return output;
+}
+
+function expandColumns(tokens: Token[], columns: Columns, ctx: AnalysisContext): Columns {
+  const output = columns ? new Map(columns) : null;
+  const body = skipOptions(tokens, false, output);
+  const limitIndex = body.findIndex(t => t.value === 'limit');
+
+  for (const item of splitTopLevel(limitIndex >= 0 ? body.slice(0, limitIndex) : body, ',')) {
+    // Col [to typeof(T)] or Name = Expr [to typeof(T)]
+    const toIndex = item.findIndex(t => t.value === 'to');
+    const expression = toIndex >= 0 ? item.slice(0, toIndex) : item;
+    const type = toIndex >= 0 ? normalizeKqlType(item[toIndex + 3]?.value ?? '') : 'dynamic';
+    if (isAssignment(expression)) {
+      checkExpression(expression.slice(2), columns, ctx);
+      output?.set(expression[0].value, type);
+    } else {
+      checkExpression(expression, columns, ctx);
+      if (expression.length === 1) output?.set(expression[0].value, type);
+    }
+  }
+  return output;
+}
+
+function joinColumns(operator: string, tokens: Token[], left: Columns, ctx: AnalysisContext): Columns {
+  const joinKind = optionValue(tokens, 'kind') ?? (operator === 'lookup' ? 'leftouter' : 'innerunique');
+  const body = skipOptions(tokens, false);
+  const onIndex = body.findIndex((t, i) => t.value === 'on' && depthAt(body, i) === 0);
+  const rightTokens = onIndex >= 0 ? body.slice(0, onIndex) : body;
+  const right = rightTokens[0]?.value === '('
+    ? analyzePipeline(groupContents(rightTokens, 0), ctx)
+    : rightTokens[0] ? referenceTable(rightTokens[0], ctx) : opaque(ctx);
+
+  for (const item of splitTopLevel(onIndex >= 0 ? body.slice(onIndex + 1) : [], ',')) {
+    if (item.length === 1 && item[0].kind === 'identifier') {
+      checkColumn(item[0], left, ctx);
+      checkColumn(item[0], right, ctx);
+      continue;
+    }
+    // $left.A == $right.B
+    for (const [index, token] of item.entries()) {
+      if (item[index + 1]?.value !== '.') continue;
+      if (token.value === '$left') checkColumn(item[index + 2], left, ctx);
+      if (token.value === '$right') checkColumn(item[index + 2], right, ctx);
+    }
+  }
+
+  if (!left || !right) return opaque(ctx);
+
+  if (['leftsemi', 'leftanti', 'anti', 'leftantisemi'].includes(joinKind)) return left;
+  if (['rightsemi', 'rightanti', 'rightantisemi'].includes(joinKind)) return right;
+
+  const output = new Map(left);
+  for (const [name, type] of right) {
+    if (!output.has(name)) {
+      output.set(name, type);
+    } else if (operator === 'join') {
+      // The right side's copy of a duplicate column gets a numeric suffix
+      output.set(`${name}1`, type);
+    }
+  }
+  return output;
+}
+
+function analyzeUnion(tokens: Token[], input: Columns | undefined, ctx: AnalysisContext): Columns {
+  const extra = new Map<string, string>();
+  const items = splitTopLevel(skipOptions(tokens, false, extra), ',');
+
+  let output: Columns = input === undefined ? new Map() : input ? new Map(input) : null;
+  for (const item of items) {
+    const columns = item[0]?.value === '('
+      ? analyzePipeline(groupContents(item, 0), ctx)
+      : item.length === 1 && item[0].kind === 'identifier' ? referenceTable(item[0], ctx) : opaque(ctx);
+    output = output && columns ? new Map([...output, ...columns]) : null;
+  }
+
+  return output ? new Map([...output, ...extra]) : opaque(ctx);
+}
+
+/**
+ * Check bare column references in an expression and common type mismatches
+ */
+function checkExpression(tokens: Token[], columns: Columns, ctx: AnalysisContext): void {
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    // Subqueries such as "in (OtherTable | project X)" or toscalar(T | count)
+    if (token.value === '(') {
+      const inner = groupContents(tokens, i);
+      if (splitTopLevel(inner, '|').length > 1) {
+        analyzePipeline(inner, ctx);
+        i += inner.length + 1;
+      }
+      continue;
+    }
+
+    if (token.kind !== 'identifier') continue;
+    const previous = tokens[i - 1];
+    const next = tokens[i + 1];
+
+    if (previous?.value === '.' || token.value.startsWith('$')) continue;
+    if (next?.value === '(') {
+      checkFunctionArgument(token, tokens, i, columns, ctx);
+      continue;
+    }
+    if (EXPRESSION_KEYWORDS.has(token.value) || ctx.scalars.has(token.value)) continue;
+    // Lambda parameters (x:string) and named arguments (title="...")
+    if (next?.value === ':' || next?.value === '=') continue;
+
+    if (checkColumn(token, columns, ctx)) {
+      checkOperatorTypes(token, tokens, i, columns!, ctx);
+    }
+  }
+}
+
+/**
+ * Report a column that is not available; returns whether it is known
+ */
+function checkColumn(token: Token | undefined, columns: Columns, ctx: AnalysisContext): boolean {
+  if (!token || !columns || token.kind !== 'identifier') return false;
+  if (columns.has(token.value)) return true;
+
+  ctx.issues.push({
+    severity: 'error',
+    code: 'unknown-column',
+    message: `Unknown column "${token.value}"`,
+    offset: token.offset,
+    identifier: token.value,
+    suggestions: suggest(token.value, [...columns.keys()]),
+  });
+  return false;
+}
+
+function checkFunctionArgument(fn: Token, tokens: Token[], index: number, columns: Columns, ctx: AnalysisContext): void {
+  const arg = tokens[index + 2];
+  const after = tokens[index + 3]?.value;
+  if (!columns || arg?.kind !== 'identifier' || (after !== ',' && after !== ')')) return;
+
+  const type = columns.get(arg.value);
+  if (!type) return;
+
+  let expected: string | undefined;
+  if (STRING_FUNCTIONS.has(fn.value) && NON_STRING_TYPES.has(type)) {
+    expected = 'a string';
+  } else if (DATETIME_FUNCTIONS.has(fn.value) && (type === 'string' || type === 'bool' || NUMERIC_TYPES.has(type))) {
+    expected = 'a datetime';
+  } else if (NUMERIC_FUNCTIONS.has(fn.value) && (type === 'string' || type === 'bool' || type === 'guid')) {
+    expected = 'a number';
+  }
+
+  if (expected) {
+    ctx.issues.push({
+      severity: 'warning',
+      code: 'type-mismatch',
+      message: `${fn.value}() expects ${expected}, but ${arg.value} is ${type}`,
+      offset: arg.offset,
+    });
+  }
+}
+
+function checkOperatorTypes(column: Token, tokens: Token[], index: number, columns: Map<string, string>, ctx: AnalysisContext): void {
+  const type = columns.get(column.value);
+  let next = index + 1;
+  if (tokens[next]?.value === '!') next++;
+  const operator = tokens[next]?.value;
+  if (!type || !operator) return;
+
+  if (STRING_OPERATORS.has(operator) && NON_STRING_TYPES.has(type)) {
+    ctx.issues.push({
+      severity: 'warning',
+      code: 'type-mismatch',
+      message: `"${operator}" is a string operator, but ${column.value} is ${type}`,
+      offset: column.offset,
+    });
+    return;
+  }
+
+  // Comparing a string column with ago(), now() or a datetime literal
+  const comparedWith = operator === 'between' ? tokens[next + 2] : tokens[next + 1];
+  const isComparison = ['<', '>', '<=', '>=', 'between'].includes(operator);
+  if (isComparison && type === 'string' && /^(ago|now|datetime|startof)/.test(comparedWith?.value ?? '')) {
+    ctx.issues.push({
+      severity: 'warning',
+      code: 'type-mismatch',
+      message: `${column.value} is string but is compared with a datetime; use todatetime(${column.value})`,
+      offset: column.offset,
+    });
+  }
+}
+
+/**
+ * Best-effort type of an expression, '' when unknown
+ */
+function inferType(tokens: Token[], columns: Columns): string {
+  const [first, second] = tokens;
+  if (!first) return '';
+
+  if (tokens.length === 1) {
+    if (first.kind === 'string') return 'string';
+    if (first.kind === 'literal') {
+      if (first.value.startsWith('datetime')) return 'datetime';
+      if (first.value.startsWith('timespan') || /^\d+(\.\d+)?(d|h|m|s|ms|microseconds?|ticks?)$/.test(first.value)) return 'timespan';
+      return /^\d+$/.test(first.value) ? 'long' : 'real';
+    }
+    return columns?.get(first.value) ?? '';
+  }
+
+  // A single function call: fn(...)
+  if (first.kind === 'identifier' && second?.value === '(' && groupContents(tokens, 1).length + 3 === tokens.length) {
+    if (RETURN_TYPES[first.value]) return RETURN_TYPES[first.value];
+    if (TYPE_PRESERVING_FUNCTIONS.has(first.value)) {
+      return inferType(splitTopLevel(groupContents(tokens, 1), ',')[0] ?? [], columns);
+    }
+  }
+  return '';
+}
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const rest = query.slice(i);
+    let match: RegExpExecArray | null;
+
+    if ((match = /^\s+/.exec(rest)) || (match = /^\/\/[^\n]*/.exec(rest))) {
+      i += match[0].length;
+      continue;
+    }
+
+    if ((match = /^\$\{[^}]*\}/.exec(rest))) {
+      // Interpolation in a host-language template literal
+      tokens.push({ kind: 'placeholder', value: match[0], offset: i });
+    } else if ((match = /^(?:[hH]?@?(?:'(?:[^'\\\n]|\\.)*'|"(?:[^"\\\n]|\\.)*")|```[\s\S]*?```)/.exec(rest))) {
+      tokens.push({ kind: 'string', value: match[0], offset: i });
+    } else if ((match = /^(?:datetime|timespan|time|guid)\s*\([^()]*\)/.exec(rest))) {
+      tokens.push({ kind: 'literal', value: match[0], offset: i });
+    } else if ((match = /^(?:0x[0-9a-fA-F]+|\d+(?:\.\d+)?(?:[eE][+-]?\d+)?[A-Za-z]*)/.exec(rest))) {
+      tokens.push({ kind: 'literal', value: match[0], offset: i });
+    } else if ((match = /^\$?[A-Za-z_]\w*/.exec(rest))) {
+      const hyphenated = /^[a-z]+-[a-z]+/.exec(rest);
+      if (hyphenated && HYPHENATED_OPERATORS.has(hyphenated[0])) match = hyphenated;
+      tokens.push({ kind: 'identifier', value: match[0], offset: i });
+    } else {
+      match = /^(?:==|!=|=~|!~|<=|>=|<>|=>|\.\.|[\s\S])/.exec(rest)!;
+      tokens.push({ kind: 'operator', value: match[0], offset: i });
+    }
+
+    i += match[0].length;
+  }
+
+  return tokens;
+}
+
+/**
+ * Split tokens on a separator outside of parentheses, brackets and braces
+ */
+function splitTopLevel(tokens: Token[], separator: string): Token[][] {
+  if (tokens.length === 0) return [];
+
+  const parts: Token[][] = [[]];
+  let depth = 0;
+  for (const token of tokens) {
+    if (token.kind === 'operator') {
+      if ('([{'.includes(token.value)) depth++;
+      if (')]}'.includes(token.value)) depth--;
+      if (depth === 0 && token.value === separator) {
+        parts.push([]);
+        continue;
+      }
+    }
+    parts[parts.length - 1].push(token);
+  }
+  return parts;
+}
+
+/**
+ * Tokens between the bracket at openIndex and its matching closing bracket
+ */
+function groupContents(tokens: Token[], openIndex: number): Token[] {
+  let depth = 0;
+  for (let i = openIndex; i < tokens.length; i++) {
+    if (tokens[i].kind !== 'operator') continue;
+    if ('([{'.includes(tokens[i].value)) depth++;
+    if (')]}'.includes(tokens[i].value)) depth--;
+    if (depth === 0) return tokens.slice(openIndex + 1, i);
+  }
+  return tokens.slice(openIndex + 1);
+}
+
+function depthAt(tokens: Token[], index: number): number {
+  let depth = 0;
+  for (let i = 0; i < index; i++) {
+    if (tokens[i].kind !== 'operator') continue;
+    if ('([{'.includes(tokens[i].value)) depth++;
+    if (')]}'.includes(tokens[i].value)) depth--;
+  }
+  return depth;
+}
+
+/**
+ * Skip operator options such as kind=inner or hint.strategy=shuffle. Options
+ * that name a new column (withsource=, with_itemindex=) are added to columns.
+ */
+function skipOptions(tokens: Token[], hintsOnly: boolean, columns?: Map<string, string> | null): Token[] {
+  let i = 0;
+  while (tokens[i]?.kind === 'identifier') {
+    let name = tokens[i].value;
+    let end = i + 1;
+    while (tokens[end]?.value === '.' && tokens[end + 1]?.kind === 'identifier') {
+      name += `.${tokens[end + 1].value}`;
+      end += 2;
+    }
+    const isOption = name.startsWith('hint.') || (!hintsOnly && OPERATOR_OPTIONS.has(name));
+    if (!isOption || tokens[end]?.value !== '=' || !tokens[end + 1]) break;
+
+    if ((name === 'withsource' || name === 'with_itemindex') && tokens[end + 1].kind === 'identifier') {
+      columns?.set(tokens[end + 1].value, name === 'withsource' ? 'string' : 'long');
+    }
+    i = end + 2;
+  }
+  return tokens.slice(i);
+}
+
+function optionValue(tokens: Token[], option: string): string | undefined {
+  const index = tokens.findIndex((t, i) => t.value === option && tokens[i + 1]?.value === '=');
+  return index >= 0 ? tokens[index + 2]?.value : undefined;
+}
+
+function isAssignment(item: Token[]): boolean {
+  return item.length > 2 && item[0].kind === 'identifier' && item[1].value === '=';
+}
+
+function assignmentIndex(item: Token[]): number {
+  return item.findIndex((t, i) => t.value === '=' && depthAt(item, i) === 0);
+}
+
+function isFunctionBody(body: Token[]): boolean {
+  if (body[0]?.value === 'view') return true;
+  if (body[0]?.value !== '(') return false;
+  const params = groupContents(body, 0);
+  return body[params.length + 2]?.value === '{';
+}
+
+function isTabularBody(body: Token[], ctx: AnalysisContext): boolean {
+  if (splitTopLevel(body, '|').length > 1) return true;
+  if (['materialize', 'union', 'datatable', 'range', 'print'].includes(body[0]?.value)) return true;
+  return body.length === 1 && body[0].kind === 'identifier' && !ctx.scalars.has(body[0].value);
+}
+
+/**
+ * Statements that produce a result table, as opposed to let, set, declare and
+ * similar statements or management commands
+ */
+function isTabularStatement(tokens: Token[]): boolean {
+  const head = tokens[0].value;
+  return head !== '.' && !['let', 'declare', 'set', 'alias', 'restrict', 'pattern'].includes(head);
+}
+
+/**
+ * Column definitions such as (Name:string, Count:long)
+ */
+function typedNames(tokens: Token[]): Map<string, string> {
+  const names = new Map<string, string>();
+  for (const [index, token] of tokens.entries()) {
+    if (token.kind === 'identifier' && tokens[index + 1]?.value === ':') {
+      names.set(token.value, normalizeKqlType(tokens[index + 2]?.value ?? ''));
+    }
+  }
+  return names;
+}
+
+function opaque(ctx: AnalysisContext): null {
+  ctx.incomplete = true;
+  return null;
+}
+
+/**
+ * "Did you mean" candidates: case-insensitive matches and close edit distances
+ */
+function suggest(name: string, candidates: string[]): string[] | undefined {
+  const lower = name.toLowerCase();
+  const maxDistance = Math.max(1, Math.floor(name.length / 3));
+  const suggestions = candidates
+    .map(candidate => ({ candidate, distance: editDistance(lower, candidate.toLowerCase()) }))
+    .filter(entry => entry.distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, 3)
+    .map(entry => entry.candidate);
+  return suggestions.length > 0 ? suggestions : undefined;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function toValidationIssue(query: string, issue: RawIssue): ValidationIssue {
+  const before = query.slice(0, issue.offset);
+  const result: ValidationIssue = {
+    severity: issue.severity,
+    code: issue.code,
+    message: issue.message,
+    line: before.split('\n').length,
+    column: issue.offset - before.lastIndexOf('\n'),
+  };
+  if (issue.suggestions) {
+    result.suggestions = issue.suggestions;
+  }
+  return result;
+}
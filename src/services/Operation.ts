@@ -0,0 +1,92 @@
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type { ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { Config } from '../config.js';
+
+export type ProgressReporter = (progress: number, total: number | undefined, message: string) => void;
+
+/**
+ * Cancellation and progress for the work behind a single tool call
+ */
+export interface OperationOptions {
+  /** Aborts the Log Analytics queries and Graph requests made for the operation */
+  abortSignal?: AbortSignal;
+  /** Called as an operation made of several requests advances */
+  onProgress?: ProgressReporter;
+}
+
+export type ToolRequestExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/**
+ * Thrown when a tool runs longer than its configured timeout
+ */
+export class OperationTimeoutError extends Error {
+  constructor(toolName: string, seconds: number) {
+    super(`${toolName} timed out after ${seconds}s`);
+    this.name = 'OperationTimeoutError';
+  }
+}
+
+/**
+ * Runs tool handlers with an abort signal that fires when the client cancels the
+ * request or the tool's timeout passes, and reports progress to clients that
+ * asked for it with a progress token
+ */
+export class ToolOperations {
+  private config: Config;
+
+  constructor(config: Config) {
+    this.config = config;
+  }
+
+  /**
+   * Timeout of a tool in seconds
+   */
+  timeoutFor(toolName: string): number {
+    return this.config.toolTimeouts.tools[toolName] ?? this.config.toolTimeouts.default;
+  }
+
+  async run<T>(toolName: string, extra: ToolRequestExtra, operation: (options: OperationOptions) => Promise<T>): Promise<T> {
+    const seconds = this.timeoutFor(toolName);
+    const timeout = AbortSignal.timeout(seconds * 1000);
+    const abortSignal = AbortSignal.any([extra.signal, timeout]);
+
+    const progressToken = extra._meta?.progressToken;
+    const onProgress: ProgressReporter | undefined = progressToken === undefined ? undefined : (progress, total, message) => {
+      extra.sendNotification({
+        method: 'notifications/progress',
+        params: { progressToken, progress, total, message },
+      }).catch(() => {
+        // Progress is best effort; the result still arrives
+      });
+    };
+
+    try {
+      // Work that does not watch the signal (local files, shared downloads) is left behind
+      return await abortable(operation({ abortSignal, onProgress }), abortSignal);
+    } catch (error) {
+      if (timeout.aborted) {
+        throw new OperationTimeoutError(toolName, seconds);
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Wait for a promise, giving up when the signal aborts. The work behind the
+ * promise keeps running, so it can be shared between callers.
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
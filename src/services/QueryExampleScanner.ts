@@ -0,0 +1,394 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { OperationOptions } from './Operation.js';
+
+export type QuerySourceKind = 'kql' | 'typescript' | 'python' | 'markdown' | 'sentinel-yaml' | 'arm-template';
+
+export interface ExtractedQuery {
+  [key: string]: unknown;
+  file: string;
+  startLine: number;
+  endLine: number;
+  sourceKind: QuerySourceKind;
+  query: string;
+}
+
+export interface ScanResult {
+  queries: ExtractedQuery[];
+  filesScanned: number;
+  truncated: boolean;
+}
+
+interface IgnoreRule {
+  baseDir: string;
+  regex: RegExp;
+  negated: boolean;
+  directoryOnly: boolean;
+}
+
+interface TextMatch {
+  text: string;
+  start: number;
+  end: number;
+}
+
+const SOURCE_KINDS: Record<string, QuerySourceKind> = {
+  '.kql': 'kql',
+  '.csl': 'kql',
+  '.ts': 'typescript',
+  '.tsx': 'typescript',
+  '.mts': 'typescript',
+  '.cts': 'typescript',
+  '.js': 'typescript',
+  '.jsx': 'typescript',
+  '.mjs': 'typescript',
+  '.cjs': 'typescript',
+  '.py': 'python',
+  '.md': 'markdown',
+  '.markdown': 'markdown',
+  '.yaml': 'sentinel-yaml',
+  '.yml': 'sentinel-yaml',
+  '.json': 'arm-template',
+};
+
+// Never worth descending into, whether or not they are git-ignored
+const ALWAYS_SKIPPED_DIRS = new Set(['.git', 'node_modules']);
+
+const MAX_FILE_SIZE = 1024 * 1024;
+const MAX_FILES = 10000;
+
+/**
+ * Walks directory trees (honouring .gitignore files) and extracts KQL queries
+ * that reference a table from query files, code string literals, markdown
+ * code fences and Sentinel rule definitions
+ */
+export class QueryExampleScanner {
+  /**
+   * Find queries referencing a table under the given roots. The abort signal
+   * is checked before each directory and file, so a cancelled scan stops early.
+   */
+  async scan(tableName: string, roots: string[], options: OperationOptions = {}): Promise<ScanResult> {
+    const { abortSignal } = options;
+    const result: ScanResult = { queries: [], filesScanned: 0, truncated: false };
+    const tablePattern = new RegExp(`(?<![\\w.$-])${escapeRegex(tableName)}(?![\\w-])`);
+
+    for (const root of roots) {
+      const stats = await fs.stat(root).catch(() => null);
+      if (!stats) {
+        console.error(`Warning: Query example search path does not exist: ${root}`);
+        continue;
+      }
+
+      const files = stats.isDirectory()
+        ? await this.listFiles(root, await loadIgnoreRules(root, []), abortSignal)
+        : [root];
+
+      for (const file of files) {
+        if (result.filesScanned >= MAX_FILES) {
+          result.truncated = true;
+          return result;
+        }
+        const queries = await this.scanFile(file, tablePattern, abortSignal);
+        if (queries) {
+          result.filesScanned++;
+          result.queries.push(...queries);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Extract matching queries from a single file, or null if the file type is not supported
+   */
+  private async scanFile(file: string, tablePattern: RegExp, abortSignal?: AbortSignal): Promise<ExtractedQuery[] | null> {
+    abortSignal?.throwIfAborted();
+    const sourceKind = SOURCE_KINDS[path.extname(file).toLowerCase()];
+    if (!sourceKind) return null;
+
+    let content: string;
+    try {
+      const stats = await fs.stat(file);
+      if (stats.size > MAX_FILE_SIZE) return null;
+      content = await fs.readFile(file, 'utf-8');
+    } catch (error) {
+      return null;
+    }
+
+    // Cheap pre-check before running the extractors
+    if (!tablePattern.test(content)) return [];
+
+    return extractQueries(content, sourceKind)
+      .filter(match => tablePattern.test(match.text) && looksLikeKql(match.text, sourceKind))
+      .map(match => {
+        // Line range of the query itself, without surrounding blank lines
+        const start = match.start + (match.text.length - match.text.trimStart().length);
+        const end = match.end - (match.text.length - match.text.trimEnd().length);
+        return {
+          file,
+          startLine: lineAt(content, start),
+          endLine: lineAt(content, Math.max(start, end - 1)),
+          sourceKind,
+          query: match.text.trim(),
+        };
+      });
+  }
+
+  /**
+   * Recursively list files, applying .gitignore rules from each directory on the way down
+   */
+  private async listFiles(dir: string, rules: IgnoreRule[], abortSignal?: AbortSignal): Promise<string[]> {
+    abortSignal?.throwIfAborted();
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch (error) {
+      return [];
+    }
+
+    const files: string[] = [];
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (ALWAYS_SKIPPED_DIRS.has(entry.name) || isIgnored(fullPath, true, rules)) continue;
+        files.push(...await this.listFiles(fullPath, await loadIgnoreRules(fullPath, rules), abortSignal));
+      } else if (entry.isFile() && !isIgnored(fullPath, false, rules)) {
+        files.push(fullPath);
+      }
+    }
+    return files;
+  }
+}
+
+/**
+ * Read a directory's .gitignore and append its rules to the inherited ones
+ */
+async function loadIgnoreRules(dir: string, inherited: IgnoreRule[]): Promise<IgnoreRule[]> {
+  let content: string;
+  try {
+    content = await fs.readFile(path.join(dir, '.gitignore'), 'utf-8');
+  } catch (error) {
+    return inherited;
+  }
+
+  const rules = [...inherited];
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.trimEnd();
+    if (!line || line.startsWith('#')) continue;
+
+    const negated = line.startsWith('!');
+    if (negated) line = line.slice(1);
+    if (line.startsWith('\\')) line = line.slice(1);
+
+    const directoryOnly = line.endsWith('/');
+    if (directoryOnly) line = line.slice(0, -1);
+
+    // Patterns containing a slash are relative to the .gitignore; others match at any depth
+    const anchored = line.includes('/');
+    if (line.startsWith('/')) line = line.slice(1);
+
+    const body = globToRegex(line);
+    const regex = new RegExp(anchored ? `^${body}$` : `(^|/)${body}$`);
+    rules.push({ baseDir: dir, regex, negated, directoryOnly });
+  }
+  return rules;
+}
+
+/**
+ * Apply ignore rules in order; the last matching rule wins, as in git
+ */
+function isIgnored(fullPath: string, isDirectory: boolean, rules: IgnoreRule[]): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) continue;
+    const relative = path.relative(rule.baseDir, fullPath).split(path.sep).join('/');
+    if (rule.regex.test(relative)) {
+      ignored = !rule.negated;
+    }
+  }
+  return ignored;
+}
+
+function globToRegex(glob: string): string {
+  let regex = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // "**/" matches zero or more directories, a trailing "**" everything below
+        regex += glob[i + 2] === '/' ? '(.*/)?' : '.*';
+        i += glob[i + 2] === '/' ? 2 : 1;
+      } else {
+        regex += '[^/]*';
+      }
+    } else if (char === '?') {
+      regex += '[^/]';
+    } else if (char === '[') {
+      const close = glob.indexOf(']', i + 1);
+      if (close === -1) {
+        regex += '\\[';
+      } else {
+        regex += `[${glob.slice(i + 1, close).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+        i = close;
+      }
+    } else {
+      regex += escapeRegex(char);
+    }
+  }
+  return regex;
+}
+
+function extractQueries(content: string, sourceKind: QuerySourceKind): TextMatch[] {
+  switch (sourceKind) {
+    case 'kql':
+      return extractKqlBlocks(content);
+    case 'typescript':
+      return extractTemplateLiterals(content);
+    case 'python':
+      return extractPythonStrings(content);
+    case 'markdown':
+      return extractCodeFences(content);
+    case 'sentinel-yaml':
+      return extractYamlQueries(content);
+    case 'arm-template':
+      return extractJsonQueries(content);
+  }
+}
+
+/**
+ * Query files may hold several queries separated by blank lines
+ */
+function extractKqlBlocks(content: string): TextMatch[] {
+  return collectMatches(content, /\S[\s\S]*?(?=\r?\n[ \t]*\r?\n|\s*$)/g);
+}
+
+function extractTemplateLiterals(content: string): TextMatch[] {
+  return collectMatches(content, /`((?:[^`\\]|\\[\s\S])*)`/g, 1);
+}
+
+function extractPythonStrings(content: string): TextMatch[] {
+  return [
+    ...collectMatches(content, /[rRfFuU]{0,2}("""|''')([\s\S]*?)\1/g, 2),
+    ...collectMatches(content, /(?<!["'])(["'])((?:(?!\1)[^\\\n]|\\.)*)\1(?!["'])/g, 2),
+  ];
+}
+
+/**
+ * Fenced blocks tagged kql/kusto/csl, or untagged blocks
+ */
+function extractCodeFences(content: string): TextMatch[] {
+  const matches: TextMatch[] = [];
+  let fence: { marker: string; wanted: boolean; start: number } | null = null;
+  let offset = 0;
+
+  for (const line of content.split('\n')) {
+    const next = offset + line.length + 1;
+    if (!fence) {
+      const open = /^[ \t]*(`{3,}|~{3,})[ \t]*([\w+-]*)/.exec(line);
+      if (open) {
+        fence = { marker: open[1], wanted: /^(kql|kusto|csl|)$/i.test(open[2]), start: next };
+      }
+    } else if (line.trim() === fence.marker) {
+      if (fence.wanted && offset > fence.start) {
+        matches.push({ text: content.slice(fence.start, offset - 1), start: fence.start, end: offset - 1 });
+      }
+      fence = null;
+    }
+    offset = next;
+  }
+  return matches;
+}
+
+/**
+ * Sentinel analytics rules keep the query under a "query:" key, usually as a block scalar
+ */
+function extractYamlQueries(content: string): TextMatch[] {
+  const matches: TextMatch[] = [];
+  const lines = content.split('\n');
+  let offset = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const key = /^(\s*)(?:-\s+)?query:\s*(.*?)\s*$/.exec(line);
+    if (key) {
+      const indent = key[1].length;
+      const value = key[2];
+
+      if (/^[|>][-+]?\d*$/.test(value)) {
+        // Block scalar: every following line indented deeper than the key (or blank)
+        let end = i;
+        for (let j = i + 1; j < lines.length; j++) {
+          if (lines[j].trim() === '') continue;
+          if (lines[j].length - lines[j].trimStart().length <= indent) break;
+          end = j;
+        }
+        if (end > i) {
+          const start = offset + line.length + 1;
+          const blockEnd = lines.slice(0, end + 1).join('\n').length;
+          matches.push({ text: dedent(content.slice(start, blockEnd)), start, end: blockEnd });
+        }
+      } else if (value) {
+        const unquoted = /^(['"])([\s\S]*)\1$/.exec(value);
+        const start = offset + line.indexOf(value);
+        matches.push({ text: unquoted ? unquoted[2] : value, start, end: start + value.length });
+      }
+    }
+    offset += line.length + 1;
+  }
+  return matches;
+}
+
+/**
+ * ARM templates for Sentinel rules store the query as a JSON string under "query"
+ */
+function extractJsonQueries(content: string): TextMatch[] {
+  return collectMatches(content, /"query"\s*:\s*("(?:[^"\\]|\\.)*")/g, 1).map(match => {
+    try {
+      return { ...match, text: JSON.parse(match.text) };
+    } catch {
+      return match;
+    }
+  });
+}
+
+function collectMatches(content: string, pattern: RegExp, group = 0): TextMatch[] {
+  const matches: TextMatch[] = [];
+  for (const match of content.matchAll(pattern)) {
+    const text = match[group];
+    if (text === undefined) continue;
+    const start = match.index! + match[0].indexOf(text);
+    matches.push({ text, start, end: start + text.length });
+  }
+  return matches;
+}
+
+/**
+ * Strings in code and prose mention table names for all sorts of reasons;
+ * only keep the ones shaped like a query (a pipe or a KQL statement)
+ */
+function looksLikeKql(text: string, sourceKind: QuerySourceKind): boolean {
+  if (sourceKind === 'kql' || sourceKind === 'sentinel-yaml' || sourceKind === 'arm-template') {
+    return true;
+  }
+  return /\|\s*(where|project|extend|summarize|take|limit|top|sort|order|distinct|count|join|union|parse|mv-expand|render|getschema)\b/.test(text)
+    || /^\s*(let|union|search)\b/.test(text);
+}
+
+function dedent(text: string): string {
+  const lines = text.split('\n');
+  const indent = Math.min(...lines.filter(line => line.trim()).map(line => line.length - line.trimStart().length));
+  return lines.map(line => line.slice(indent)).join('\n');
+}
+
+function lineAt(content: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset && i < content.length; i++) {
+    if (content[i] === '\n') line++;
+  }
+  return line;
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
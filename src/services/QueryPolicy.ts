@@ -0,0 +1,180 @@
+import type { QueryTimeInterval } from '@azure/monitor-query';
+import type { Config, QueryPolicyConfig } from '../config.js';
+import { collectQueryReferences, limitQueryRows } from './KqlValidator.js';
+
+export type PolicyRule = 'max-timespan' | 'denied-operator' | 'denied-table' | 'table-not-allowed' | 'max-rows';
+
+export interface PolicyViolation {
+  [key: string]: unknown;
+  rule: PolicyRule;
+  message: string;
+  /** The operator, table, timespan or row count that broke the rule */
+  value: string;
+}
+
+export interface PolicyEvaluation {
+  [key: string]: unknown;
+  allowed: boolean;
+  violations: PolicyViolation[];
+  tables: string[];
+  operators: string[];
+}
+
+/**
+ * Thrown when a query breaks the query policy; violations name each rule that was hit
+ */
+export class QueryPolicyError extends Error {
+  readonly violations: PolicyViolation[];
+
+  constructor(violations: PolicyViolation[]) {
+    super(`Query blocked by the query policy:\n${violations.map(v => `- ${v.rule}: ${v.message}`).join('\n')}`);
+    this.name = 'QueryPolicyError';
+    this.violations = violations;
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Checks Log Analytics queries against the configured timespan, operator,
+ * table and row limits before they are sent
+ */
+export class QueryPolicy {
+  private policy: QueryPolicyConfig;
+
+  constructor(config: Config) {
+    this.policy = config.queryPolicy;
+  }
+
+  /**
+   * Report every rule a query would break. requestedRows is the row count a
+   * caller asks for, checked against the row limit.
+   */
+  evaluate(query: string, timespan: QueryTimeInterval, requestedRows?: number): PolicyEvaluation {
+    const { maxTimespan, deniedOperators, allowedTables, deniedTables, maxRows } = this.policy;
+    const references = collectQueryReferences(query);
+    const violations: PolicyViolation[] = [];
+
+    if (maxTimespan) {
+      const span = timespanLength(timespan);
+      if (span === null || span > durationLength(maxTimespan)) {
+        violations.push({
+          rule: 'max-timespan',
+          message: `The timespan ${describeTimespan(timespan)} is longer than the allowed ${maxTimespan}`,
+          value: describeTimespan(timespan),
+        });
+      }
+    }
+
+    const denied = new Set(deniedOperators.map(op => op.toLowerCase()));
+    for (const operator of references.operators) {
+      if (denied.has(operator.toLowerCase())) {
+        violations.push({ rule: 'denied-operator', message: `"${operator}" is not allowed`, value: operator });
+      }
+    }
+
+    for (const table of [...references.tables, ...references.wildcards]) {
+      const isPattern = table.includes('*');
+      // A pattern is denied when it could match a denied table
+      const deniedBy = deniedTables.find(denied => isPattern
+        ? denied.includes('*') || globMatches(table, denied)
+        : globMatches(denied, table));
+      if (deniedBy) {
+        violations.push({
+          rule: 'denied-table',
+          message: isPattern
+            ? `The table pattern "${table}" could include the denied table "${deniedBy}"`
+            : `The table "${table}" is denied`,
+          value: table,
+        });
+      } else if (allowedTables && (isPattern || !allowedTables.some(pattern => globMatches(pattern, table)))) {
+        violations.push({
+          rule: 'table-not-allowed',
+          message: isPattern
+            ? `The table pattern "${table}" is not allowed while an allow list is configured`
+            : `The table "${table}" is not in the allow list`,
+          value: table,
+        });
+      }
+    }
+
+    if (maxRows !== undefined && requestedRows !== undefined && requestedRows > maxRows) {
+      violations.push({
+        rule: 'max-rows',
+        message: `${requestedRows} rows were requested but at most ${maxRows} are allowed`,
+        value: String(requestedRows),
+      });
+    }
+
+    return {
+      allowed: violations.length === 0,
+      violations,
+      tables: [...references.tables, ...references.wildcards],
+      operators: references.operators,
+    };
+  }
+
+  /**
+   * Throw a QueryPolicyError if the query breaks any rule
+   */
+  enforce(query: string, timespan: QueryTimeInterval, requestedRows?: number): void {
+    const { violations } = this.evaluate(query, timespan, requestedRows);
+    if (violations.length > 0) {
+      throw new QueryPolicyError(violations);
+    }
+  }
+
+  /**
+   * Rows every query is capped at, if a limit is configured
+   */
+  rowLimit(): number | undefined {
+    return this.policy.maxRows;
+  }
+
+  /**
+   * The query as it is sent: capped at the row limit, if one is configured
+   */
+  applyRowLimit(query: string): string {
+    return this.policy.maxRows !== undefined ? limitQueryRows(query, this.policy.maxRows) : query;
+  }
+}
+
+/**
+ * Length of a time interval in milliseconds; null when it has no end
+ */
+function timespanLength(timespan: QueryTimeInterval): number | null {
+  if ('duration' in timespan && timespan.duration) {
+    return durationLength(timespan.duration);
+  }
+  if ('startTime' in timespan && 'endTime' in timespan && timespan.startTime && timespan.endTime) {
+    return timespan.endTime.getTime() - timespan.startTime.getTime();
+  }
+  return null;
+}
+
+/**
+ * Milliseconds in an ISO 8601 duration; months count as 30 days
+ */
+function durationLength(duration: string): number {
+  const match = /^P(?:(\d+)Y)?(?:(\d+)M)?(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i.exec(duration);
+  if (!match) {
+    throw new Error(`Unsupported ISO 8601 duration "${duration}"`);
+  }
+  const [, years, months, weeks, days, hours, minutes, seconds] = match.map(part => Number(part ?? 0));
+  return (years * 365 + months * 30 + weeks * 7 + days) * DAY_MS + ((hours * 60 + minutes) * 60 + seconds) * 1000;
+}
+
+function describeTimespan(timespan: QueryTimeInterval): string {
+  if ('startTime' in timespan && 'endTime' in timespan && timespan.startTime && timespan.endTime) {
+    return `${timespan.startTime.toISOString()}/${timespan.endTime.toISOString()}`;
+  }
+  return 'duration' in timespan && timespan.duration ? timespan.duration : 'unbounded';
+}
+
+/**
+ * Case-insensitive match of a name against a pattern where * matches anything
+ */
+export function globMatches(pattern: string, name: string): boolean {
+  const regex = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${regex}$`, 'i').test(name);
+}
@@ -0,0 +1,162 @@
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { Config } from '../config.js';
+import type { QueryResult, QueryResultTable } from './SchemaDiscovery.js';
+
+export const QUERY_RESULT_FORMATS = ['json', 'records', 'markdown', 'csv', 'jsonl'] as const;
+
+export type QueryResultFormat = typeof QUERY_RESULT_FORMATS[number];
+
+export interface QueryExport {
+  exportPath: string;
+  exportedRows: number;
+  /** The exported result cut down to its first rows */
+  preview: QueryResult;
+}
+
+const FILE_EXTENSIONS: Record<QueryResultFormat, string> = {
+  json: 'json',
+  records: 'json',
+  markdown: 'md',
+  csv: 'csv',
+  jsonl: 'jsonl',
+};
+
+/**
+ * Render a query result as text. json and records keep the full result (rows as
+ * arrays or as objects); markdown renders every table, csv and jsonl only the
+ * first one. Datetimes are normalized to ISO 8601 and dynamic values to JSON.
+ */
+export function formatQueryResult(result: QueryResult, format: QueryResultFormat): string {
+  switch (format) {
+    case 'json':
+    case 'records': {
+      const tables = [result, ...(result.additionalTables || [])].map(table => ({
+        ...table,
+        rows: normalizeRows(table, format === 'records'),
+      }));
+      const [primary, ...additional] = tables;
+      return JSON.stringify(additional.length > 0 ? { ...primary, additionalTables: additional } : primary, null, 2);
+    }
+    case 'markdown':
+      return [result, ...(result.additionalTables || [])].map((table, i, tables) => {
+        const heading = tables.length > 1 ? `### ${table.name}\n\n` : '';
+        const note = table.truncated ? `\n\n_Showing the first ${table.rowCount} rows._` : '';
+        return heading + toMarkdownTable(table) + note;
+      }).join('\n\n');
+    case 'csv':
+      return [
+        result.columns.map(col => escapeCsv(col.name)).join(','),
+        ...rowValues(result).map(values => values.map((value, i) => escapeCsv(toCellText(value, result.columns[i].type))).join(',')),
+      ].join('\n');
+    case 'jsonl':
+      return normalizeRows(result, true).map(row => JSON.stringify(row)).join('\n');
+  }
+}
+
+/**
+ * Writes query results to files under the configured export directory
+ */
+export class QueryResultExporter {
+  private config: Config;
+
+  constructor(config: Config) {
+    this.config = config;
+  }
+
+  /**
+   * Write the whole result in the given format and return its path with a preview.
+   * The result is written as given, so run the query for all rows before exporting it.
+   */
+  async export(result: QueryResult, format: QueryResultFormat, previewRows: number = 5): Promise<QueryExport> {
+    // The random suffix keeps exports started in the same millisecond apart; wx never overwrites
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const fileName = `query-${timestamp}-${randomBytes(4).toString('hex')}.${FILE_EXTENSIONS[format]}`;
+    const exportPath = path.resolve(this.config.exportDir, fileName);
+
+    await fs.mkdir(path.dirname(exportPath), { recursive: true });
+    await fs.writeFile(exportPath, formatQueryResult(result, format) + '\n', { encoding: 'utf-8', flag: 'wx' });
+    console.error(`✓ Exported ${result.rowCount} rows to ${exportPath}`);
+
+    const preview = previewTable(result, previewRows);
+    if (result.additionalTables) {
+      preview.additionalTables = result.additionalTables.map(table => previewTable(table, previewRows));
+    }
+    return { exportPath, exportedRows: result.rowCount, preview };
+  }
+}
+
+function previewTable<T extends QueryResultTable>(table: T, previewRows: number): T {
+  return { ...table, rows: table.rows.slice(0, previewRows) as T['rows'] };
+}
+
+/**
+ * Row values in column order, whether rows are arrays or column-keyed objects
+ */
+function rowValues(table: QueryResultTable): unknown[][] {
+  return (table.rows as Array<unknown[] | Record<string, unknown>>).map(row =>
+    Array.isArray(row) ? row : table.columns.map(col => row[col.name])
+  );
+}
+
+function normalizeRows(table: QueryResultTable, asObjects: boolean): Array<unknown[] | Record<string, unknown>> {
+  return rowValues(table).map(values => {
+    const normalized = values.map((value, i) => normalizeValue(value, table.columns[i].type));
+    return asObjects ? Object.fromEntries(table.columns.map((col, i) => [col.name, normalized[i]])) : normalized;
+  });
+}
+
+/**
+ * Datetimes arrive as Date objects from the SDK and as strings from recordings;
+ * dynamic values may arrive as JSON strings
+ */
+function normalizeValue(value: unknown, type: string): unknown {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value !== 'string' || !value) {
+    return value;
+  }
+  if (type === 'datetime') {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? value : date.toISOString();
+  }
+  if (type === 'dynamic') {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+  return value;
+}
+
+function toCellText(value: unknown, type: string): string {
+  const normalized = normalizeValue(value, type);
+  if (normalized === null || normalized === undefined) {
+    return '';
+  }
+  return typeof normalized === 'object' ? JSON.stringify(normalized) : String(normalized);
+}
+
+function escapeCsv(text: string): string {
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+}
+
+function toMarkdownTable(table: QueryResultTable): string {
+  if (table.columns.length === 0) {
+    return '_No columns_';
+  }
+  return [
+    `| ${table.columns.map(col => escapeMarkdown(col.name)).join(' | ')} |`,
+    `| ${table.columns.map(() => '---').join(' | ')} |`,
+    ...rowValues(table).map(values =>
+      `| ${values.map((value, i) => escapeMarkdown(toCellText(value, table.columns[i].type))).join(' | ')} |`
+    ),
+  ].join('\n');
+}
@@ -0,0 +1,335 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { Config } from '../config.js';
+
+// Bump whenever the shape of cached schemas changes; older entries are discarded
+export const CACHE_FORMAT_VERSION = 5;
+
+export type CacheSourceType = 'kql' | 'graph';
+
+export interface CacheEntry<T = Record<string, unknown>> {
+  formatVersion: number;
+  key: string;
+  sourceType: CacheSourceType;
+  workspace?: string;
+  workspaceId?: string;
+  cachedAt: string;
+  expiresAt: string;
+  contentHash: string;
+  schema: T;
+}
+
+/** Called after a stored schema is new (added) or its content changed (updated) */
+export type CacheChangeListener = (entry: CacheEntry, change: 'added' | 'updated') => void;
+
+export interface SnapshotInfo {
+  [key: string]: unknown;
+  id: string;
+  cachedAt: string;
+  contentHash: string;
+}
+
+// Fields that change on every discovery and must not affect the content hash
+const VOLATILE_FIELDS = new Set(['discoveredAt', 'cached']);
+
+// Oldest snapshots beyond this count are pruned per cache key
+const MAX_SNAPSHOTS = 20;
+
+// Subdirectories of the cache directory: schema snapshots and Graph $metadata documents
+const CACHE_SUBDIRECTORIES = ['history', 'metadata'];
+
+/**
+ * Two-layer (memory + disk) schema cache with per-source TTLs, a format
+ * version and a content hash per entry
+ */
+export class SchemaCache {
+  private config: Config;
+  private entries: Map<string, CacheEntry> = new Map();
+  private listeners: CacheChangeListener[] = [];
+
+  constructor(config: Config) {
+    this.config = config;
+  }
+
+  /**
+   * Get an entry from memory or disk, expired or not. Entries written by an
+   * incompatible cache format are deleted and reported as missing.
+   */
+  async get(key: string): Promise<CacheEntry | null> {
+    const cached = this.entries.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const entry = await this.loadFromDisk(key);
+    if (!entry) {
+      return null;
+    }
+
+    if (entry.formatVersion !== CACHE_FORMAT_VERSION || !entry.schema) {
+      console.error(`Discarding cached schema ${key} (cache format ${entry.formatVersion ?? 'unknown'}, expected ${CACHE_FORMAT_VERSION})`);
+      await this.deleteFromDisk(key);
+      return null;
+    }
+
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  /**
+   * List the current entries of memory and disk, sorted by key. Entries of an
+   * incompatible cache format are skipped.
+   */
+  async list(): Promise<CacheEntry[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.config.schemaCacheDir);
+    } catch (error) {
+      files = [];
+    }
+
+    const entries = new Map(this.entries);
+    for (const file of files.filter(name => name.endsWith('.json'))) {
+      const entry = await readEntryFile(path.join(this.config.schemaCacheDir, file));
+      if (entry?.key && entry.formatVersion === CACHE_FORMAT_VERSION && !entries.has(entry.key)) {
+        entries.set(entry.key, entry);
+      }
+    }
+    return [...entries.values()].sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  /**
+   * Listen for schemas that are stored for the first time or change content.
+   * Returns a function that removes the listener.
+   */
+  onChange(listener: CacheChangeListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(existing => existing !== listener);
+    };
+  }
+
+  /**
+   * Store a schema, stamping it with its TTL and content hash. A history
+   * snapshot is kept whenever the content differs from the last snapshot.
+   */
+  async set(
+    key: string,
+    sourceType: CacheSourceType,
+    schema: Record<string, unknown>,
+    workspace?: { alias: string; workspaceId: string }
+  ): Promise<CacheEntry> {
+    const previous = await this.get(key);
+    const now = Date.now();
+    const entry: CacheEntry = {
+      formatVersion: CACHE_FORMAT_VERSION,
+      key,
+      sourceType,
+      workspace: workspace?.alias,
+      workspaceId: workspace?.workspaceId,
+      cachedAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + this.config.schemaCacheTtl[sourceType] * 1000).toISOString(),
+      contentHash: hashSchema(schema),
+      schema,
+    };
+
+    this.entries.set(key, entry);
+    await this.saveToDisk(entry);
+    await this.snapshot(entry);
+
+    if (previous?.contentHash !== entry.contentHash) {
+      this.notify(entry, previous ? 'updated' : 'added');
+    }
+    return entry;
+  }
+
+  /**
+   * Keep a timestamped copy of an entry in the key's history, unless the
+   * latest snapshot already has the same content
+   */
+  async snapshot(entry: CacheEntry): Promise<void> {
+    const snapshots = await this.listSnapshots(entry.key);
+    const latest = snapshots[snapshots.length - 1];
+    if (latest?.contentHash === entry.contentHash) {
+      return;
+    }
+
+    const dir = this.getHistoryDir(entry.key);
+    try {
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(path.join(dir, toSnapshotFilename(entry.cachedAt)), JSON.stringify(entry, null, 2), 'utf-8');
+
+      for (const stale of snapshots.slice(0, Math.max(0, snapshots.length + 1 - MAX_SNAPSHOTS))) {
+        await fs.unlink(path.join(dir, toSnapshotFilename(stale.id)));
+      }
+    } catch (error) {
+      console.error('Warning: Failed to save schema snapshot:', error);
+    }
+  }
+
+  /**
+   * List the history snapshots of a key, oldest first
+   */
+  async listSnapshots(key: string): Promise<SnapshotInfo[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.getHistoryDir(key));
+    } catch (error) {
+      return [];
+    }
+
+    const snapshots: SnapshotInfo[] = [];
+    for (const file of files.filter(name => name.endsWith('.json'))) {
+      const entry = await this.readSnapshotFile(key, file);
+      if (entry) {
+        snapshots.push({ id: entry.cachedAt, cachedAt: entry.cachedAt, contentHash: entry.contentHash });
+      }
+    }
+    return snapshots.sort((a, b) => a.cachedAt.localeCompare(b.cachedAt));
+  }
+
+  /**
+   * Load a single history snapshot by its id (the cachedAt timestamp)
+   */
+  async getSnapshot(key: string, id: string): Promise<CacheEntry | null> {
+    if (!/^[\dT:.Z-]+$/.test(id)) {
+      return null;
+    }
+    return this.readSnapshotFile(key, toSnapshotFilename(id));
+  }
+
+  /**
+   * Remove an entry from memory and disk
+   */
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+    await this.deleteFromDisk(key);
+  }
+
+  /**
+   * Remove every entry, history snapshot and cached Graph metadata document
+   * from memory and disk. Returns the number of entries removed. Other files
+   * in the cache directory are left alone, as it may be shared.
+   */
+  async clear(): Promise<number> {
+    const count = (await this.list()).length;
+    this.entries.clear();
+
+    let files: string[];
+    try {
+      files = await fs.readdir(this.config.schemaCacheDir);
+    } catch (error) {
+      files = [];
+    }
+    for (const file of files.filter(name => name.endsWith('.json'))) {
+      const filePath = path.join(this.config.schemaCacheDir, file);
+      // Entries of any format version, but only files that are cache entries
+      const entry = await readEntryFile(filePath);
+      if (entry?.key && entry.formatVersion !== undefined) {
+        await fs.rm(filePath, { force: true });
+      }
+    }
+    for (const directory of CACHE_SUBDIRECTORIES) {
+      await fs.rm(path.join(this.config.schemaCacheDir, directory), { recursive: true, force: true });
+    }
+    return count;
+  }
+
+  /**
+   * Check whether an entry has outlived its TTL
+   */
+  isExpired(entry: CacheEntry): boolean {
+    return Date.parse(entry.expiresAt) <= Date.now();
+  }
+
+  private notify(entry: CacheEntry, change: 'added' | 'updated'): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(entry, change);
+      } catch (error) {
+        console.error(`Warning: Schema change listener failed for ${entry.key}:`, error);
+      }
+    }
+  }
+
+  private getFilePath(key: string): string {
+    return path.join(this.config.schemaCacheDir, encodeKey(key) + '.json');
+  }
+
+  private getHistoryDir(key: string): string {
+    return path.join(this.config.schemaCacheDir, 'history', encodeKey(key));
+  }
+
+  private async readSnapshotFile(key: string, file: string): Promise<CacheEntry | null> {
+    const entry = await readEntryFile(path.join(this.getHistoryDir(key), file));
+    return entry?.formatVersion === CACHE_FORMAT_VERSION ? entry : null;
+  }
+
+  /**
+   * Load entry from disk cache
+   */
+  private async loadFromDisk(key: string): Promise<CacheEntry | null> {
+    try {
+      const data = await fs.readFile(this.getFilePath(key), 'utf-8');
+      return JSON.parse(data);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Save entry to disk cache
+   */
+  private async saveToDisk(entry: CacheEntry): Promise<void> {
+    try {
+      await fs.mkdir(this.config.schemaCacheDir, { recursive: true });
+      await fs.writeFile(this.getFilePath(entry.key), JSON.stringify(entry, null, 2), 'utf-8');
+    } catch (error) {
+      console.error('Warning: Failed to cache schema to disk:', error);
+    }
+  }
+
+  /**
+   * Delete entry from disk cache
+   */
+  private async deleteFromDisk(key: string): Promise<void> {
+    try {
+      await fs.unlink(this.getFilePath(key));
+    } catch (error) {
+      // Ignore errors
+    }
+  }
+}
+
+/**
+ * Hash the schema content, ignoring discovery timestamps
+ */
+export function hashSchema(schema: Record<string, unknown>): string {
+  const content = JSON.stringify(schema, (key, value) => (VOLATILE_FIELDS.has(key) ? undefined : value));
+  return createHash('sha256').update(content).digest('hex');
+}
+
+async function readEntryFile(filePath: string): Promise<CacheEntry | null> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Snapshot files are named after the entry timestamp, with characters that
+ * are invalid in Windows file names replaced
+ */
+/**
+ * File or directory name for a cache key. Percent-encoding is reversible, so
+ * distinct keys never share a file; * is encoded too as Windows rejects it.
+ */
+function encodeKey(key: string): string {
+  return encodeURIComponent(key).replace(/\*/g, '%2A');
+}
+
+function toSnapshotFilename(cachedAt: string): string {
+  return cachedAt.replace(/:/g, '-') + '.json';
+}
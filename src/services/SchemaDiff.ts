@@ -0,0 +1,206 @@
+interface ColumnLike {
+  name: string;
+  type: string;
+  ordinal: number;
+}
+
+interface PropertyLike {
+  type: string;
+  required: boolean;
+}
+
+export interface PropertyTree extends PropertyLike {
+  properties?: Record<string, PropertyTree>;
+  items?: PropertyTree;
+}
+
+export interface ColumnChanges {
+  [key: string]: unknown;
+  added: Array<{ name: string; type: string; ordinal: number }>;
+  removed: Array<{ name: string; type: string; ordinal: number }>;
+  retyped: Array<{ name: string; from: string; to: string }>;
+  reordered: Array<{ name: string; fromOrdinal: number; toOrdinal: number }>;
+}
+
+export interface PropertyChanges {
+  [key: string]: unknown;
+  added: Array<{ name: string } & PropertyLike>;
+  removed: Array<{ name: string } & PropertyLike>;
+  changed: Array<{ name: string; from: PropertyLike; to: PropertyLike }>;
+}
+
+export interface GraphVersionShape {
+  available: boolean;
+  error?: string;
+  properties: Record<string, PropertyTree>;
+}
+
+export interface GraphVersionComparison {
+  [key: string]: unknown;
+  endpoint: string;
+  basis: 'sampled' | 'declared';
+  versions: Record<'v1.0' | 'beta', { available: boolean; error?: string; propertyCount: number }>;
+  identical: boolean;
+  betaOnly: Array<{ name: string } & PropertyLike>;
+  v1Only: Array<{ name: string } & PropertyLike>;
+  changed: Array<{ name: string; v1: PropertyLike; beta: PropertyLike }>;
+}
+
+/**
+ * Compare two column lists. Only columns that moved relative to the other
+ * surviving columns count as reordered, so adding or removing a column does
+ * not flag every column after it.
+ */
+export function diffColumns(before: ColumnLike[], after: ColumnLike[]): ColumnChanges {
+  const beforeByName = new Map(before.map(column => [column.name, column]));
+  const afterByName = new Map(after.map(column => [column.name, column]));
+
+  const changes: ColumnChanges = { added: [], removed: [], retyped: [], reordered: [] };
+
+  for (const column of after) {
+    const previous = beforeByName.get(column.name);
+    if (!previous) {
+      changes.added.push({ name: column.name, type: column.type, ordinal: column.ordinal });
+    } else if (previous.type !== column.type) {
+      changes.retyped.push({ name: column.name, from: previous.type, to: column.type });
+    }
+  }
+
+  for (const column of before) {
+    if (!afterByName.has(column.name)) {
+      changes.removed.push({ name: column.name, type: column.type, ordinal: column.ordinal });
+    }
+  }
+
+  const byOrdinal = (a: ColumnLike, b: ColumnLike) => a.ordinal - b.ordinal;
+  const beforeOrder = before.filter(column => afterByName.has(column.name)).sort(byOrdinal).map(column => column.name);
+  const afterOrder = after.filter(column => beforeByName.has(column.name)).sort(byOrdinal).map(column => column.name);
+  const stayed = longestCommonSubsequence(beforeOrder, afterOrder);
+  for (const name of afterOrder) {
+    if (!stayed.has(name)) {
+      changes.reordered.push({
+        name,
+        fromOrdinal: beforeByName.get(name)!.ordinal,
+        toOrdinal: afterByName.get(name)!.ordinal,
+      });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Compare two Graph property trees by type and required-ness. Nested
+ * properties are reported by path, e.g. "location.city" or "assignedLicenses[].skuId".
+ */
+export function diffProperties(
+  beforeTree: Record<string, PropertyTree>,
+  afterTree: Record<string, PropertyTree>
+): PropertyChanges {
+  const before = flattenProperties(beforeTree);
+  const after = flattenProperties(afterTree);
+  const changes: PropertyChanges = { added: [], removed: [], changed: [] };
+
+  for (const [name, property] of Object.entries(after)) {
+    const previous = before[name];
+    if (!previous) {
+      changes.added.push({ name, type: property.type, required: property.required });
+    } else if (previous.type !== property.type || previous.required !== property.required) {
+      changes.changed.push({
+        name,
+        from: { type: previous.type, required: previous.required },
+        to: { type: property.type, required: property.required },
+      });
+    }
+  }
+
+  for (const [name, property] of Object.entries(before)) {
+    if (!(name in after)) {
+      changes.removed.push({ name, type: property.type, required: property.required });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Compare the v1.0 and beta shapes of one Graph endpoint. An endpoint missing
+ * from one version has all of its properties reported as only in the other.
+ */
+export function diffGraphVersions(
+  endpoint: string,
+  basis: 'sampled' | 'declared',
+  v1: GraphVersionShape,
+  beta: GraphVersionShape
+): GraphVersionComparison {
+  const changes = diffProperties(v1.properties, beta.properties);
+  const describe = (shape: GraphVersionShape) => ({
+    available: shape.available,
+    ...(shape.error ? { error: shape.error } : {}),
+    propertyCount: Object.keys(flattenProperties(shape.properties)).length,
+  });
+
+  return {
+    endpoint,
+    basis,
+    versions: { 'v1.0': describe(v1), beta: describe(beta) },
+    identical: v1.available === beta.available
+      && changes.added.length === 0 && changes.removed.length === 0 && changes.changed.length === 0,
+    betaOnly: changes.added,
+    v1Only: changes.removed,
+    changed: changes.changed.map(({ name, from, to }) => ({ name, v1: from, beta: to })),
+  };
+}
+
+function flattenProperties(
+  tree: Record<string, PropertyTree>,
+  prefix = '',
+  flat: Record<string, PropertyLike> = {}
+): Record<string, PropertyLike> {
+  for (const [name, property] of Object.entries(tree)) {
+    const path = `${prefix}${name}`;
+    flat[path] = { type: property.type, required: property.required };
+    if (property.properties) flattenProperties(property.properties, `${path}.`, flat);
+
+    // Walk through (nested) arrays to their element types and properties
+    let items = property.items;
+    let itemPath = `${path}[]`;
+    while (items) {
+      flat[itemPath] = { type: items.type, required: items.required };
+      if (items.properties) flattenProperties(items.properties, `${itemPath}.`, flat);
+      items = items.items;
+      itemPath += '[]';
+    }
+  }
+  return flat;
+}
+
+/**
+ * Names that keep their relative order between two sequences of unique names
+ */
+function longestCommonSubsequence(a: string[], b: string[]): Set<string> {
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const common = new Set<string>();
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      common.add(a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return common;
+}
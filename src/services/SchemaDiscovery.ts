@@ -1,8 +1,19 @@
-﻿import { LogsQueryClient } from '@azure/monitor-query';
-import { promises as fs } from 'fs';
-import path from 'path';
-import type { Config } from '../config.js';
-import type { AuthManager } from '../auth/AuthManager.js';
+﻿import type { Config } from '../config.js';
+import type { AzureBackend } from '../backend/AzureBackend.js';
+import type { LogsTable, QueryTimeInterval } from '@azure/monitor-query';
+import { SchemaCache, hashSchema } from './SchemaCache.js';
+import type { CacheChangeListener, CacheEntry, CacheSourceType, SnapshotInfo } from './SchemaCache.js';
+import { diffColumns, diffGraphVersions, diffProperties } from './SchemaDiff.js';
+import type { ColumnChanges, GraphVersionComparison, GraphVersionShape, PropertyChanges } from './SchemaDiff.js';
+import { graphBaseUrl } from './GraphMetadata.js';
+import { limitQueryRows } from './KqlValidator.js';
+import { QueryPolicy, QueryPolicyError } from './QueryPolicy.js';
+import { TableCatalog } from './TableCatalog.js';
+import type { ListTablesParams, TableList } from './TableCatalog.js';
+import type { PolicyEvaluation } from './QueryPolicy.js';
+import type { GraphApiVersion } from './GraphMetadata.js';
+import type { OperationOptions } from './Operation.js';
+import type { ResolvedWorkspace, WorkspaceRegistry } from './WorkspaceRegistry.js';
 
 interface TableColumn {
   name: string;
@@ -13,66 +24,226 @@ interface TableColumn {
 interface TableSchema {
   [key: string]: unknown;
   tableName: string;
+  workspace: string;
   columns: TableColumn[];
   discoveredAt: string;
   cached: boolean;
 }
 
-interface QueryResult {
+export type RowFormat = 'arrays' | 'objects';
+
+/**
+ * Query time range: a duration (ISO 8601 such as "P7D", or "7d"), start and end,
+ * or either bound with a duration. A start alone runs until now.
+ */
+export interface QueryTimespan {
+  [key: string]: unknown;
+  duration?: string;
+  start?: string;
+  end?: string;
+}
+
+export interface TestQueryParams {
+  query: string;
+  workspace?: string;
+  maxRows?: number;
+  /** Return every row instead of maxRows, up to the policy's row limit; for exports */
+  allRows?: boolean;
+  timespan?: QueryTimespan;
+  rowFormat?: RowFormat;
+  /** Check the query against the policy and report what would run, without running it */
+  dryRun?: boolean;
+}
+
+export interface QueryResultTable {
   [key: string]: unknown;
+  name: string;
   columns: Array<{ name: string; type: string }>;
-  rows: any[][];
+  rows: unknown[][] | Array<Record<string, unknown>>;
   rowCount: number;
+  truncated: boolean;
+}
+
+export interface QueryPlan {
+  [key: string]: unknown;
+  workspaceId: string;
+  /** The query as it would be sent, including row limits */
+  query: string;
+  timespan: QueryTimeInterval;
+  policy: PolicyEvaluation;
+}
+
+export interface QueryResult extends QueryResultTable {
+  status: 'Success' | 'PartialFailure' | 'DryRun';
+  timespan: QueryTimespan;
+  error?: { code: string; message: string };
+  additionalTables?: QueryResultTable[];
+  plan?: QueryPlan;
+}
+
+interface GraphProperty {
+  [key: string]: unknown;
+  type: string;
+  required: boolean;
+  nullable: boolean;
+  format?: string;
+  properties?: Record<string, GraphProperty>;
+  items?: GraphProperty;
 }
 
 interface GraphAPISchema {
   [key: string]: unknown;
   endpoint: string;
-  properties: Record<string, { type: string; required: boolean }>;
+  apiVersion: GraphApiVersion;
+  sampledRecords: number;
+  pagesFetched: number;
+  properties: Record<string, GraphProperty>;
   discoveredAt: string;
 }
 
+interface JsonFieldInfo {
+  [key: string]: unknown;
+  type: string;
+  frequency: number;
+  exampleValues: unknown[];
+  distinctValues?: unknown[];
+  valueCounts?: Record<string, number>;
+  constantValue?: unknown;
+  caseVariations?: string[][];
+  /** Fields of object values, with frequencies counted among those objects */
+  properties?: Record<string, JsonFieldInfo>;
+}
+
+interface JsonStructure {
+  [key: string]: unknown;
+  entityType: string;
+  frequency: number;
+  fields: Record<string, JsonFieldInfo>;
+  fieldNameCaseVariations?: string[][];
+}
+
+interface JsonFieldSchema {
+  [key: string]: unknown;
+  tableName: string;
+  workspace: string;
+  fieldName: string;
+  baseType: string;
+  discriminator: string;
+  timeRange: string;
+  sampledRows: number;
+  commonStructures: JsonStructure[];
+  discoveredAt: string;
+  cached: boolean;
+}
+
+type CachedSchema = TableSchema | GraphAPISchema | JsonFieldSchema;
+
+interface SchemaVersion {
+  [key: string]: unknown;
+  ref: string;
+  capturedAt: string;
+  contentHash: string;
+}
+
+interface SchemaComparison {
+  [key: string]: unknown;
+  source: string;
+  cacheKey: string;
+  from: SchemaVersion;
+  to: SchemaVersion;
+  identical: boolean;
+  columns?: ColumnChanges;
+  properties?: PropertyChanges;
+  snapshots: SnapshotInfo[];
+}
+
+export interface CompareSchemaParams {
+  source: string;
+  workspace?: string;
+  apiVersion?: GraphApiVersion;
+  from?: string;
+  to?: string;
+}
+
+export interface JsonFieldSchemaParams {
+  tableName: string;
+  workspace?: string;
+  jsonFieldName: string;
+  timeRange?: string;
+  sampleSize?: number;
+  discriminator?: string;
+}
+
+// Fields with at most this many distinct values are reported as enumerations
+const MAX_DISTINCT_VALUES = 15;
+const MAX_EXAMPLE_VALUES = 3;
+
+// Sampling defaults of analyze_json_field_schema
+const DEFAULT_JSON_TIME_RANGE = '30d';
+const DEFAULT_JSON_SAMPLE_SIZE = 100;
+const DEFAULT_JSON_DISCRIMINATOR = 'Type';
+
+// Graph records sampled for schema inference; properties missing from some are reported as optional
+const DEFAULT_GRAPH_SAMPLE_SIZE = 10;
+
 export class SchemaDiscovery {
   private config: Config;
-  private authManager: AuthManager;
-  private schemaCache: Map<string, TableSchema | GraphAPISchema> = new Map();
+  private backend: AzureBackend;
+  private workspaces: WorkspaceRegistry;
+  private cache: SchemaCache;
+  private policy: QueryPolicy;
+  private catalog: TableCatalog;
+  private revalidating: Map<string, Promise<void>> = new Map();
 
-  constructor(config: Config, authManager: AuthManager) {
+  constructor(config: Config, backend: AzureBackend, workspaces: WorkspaceRegistry) {
     this.config = config;
-    this.authManager = authManager;
+    this.backend = backend;
+    this.workspaces = workspaces;
+    this.cache = new SchemaCache(config);
+    this.policy = new QueryPolicy(config);
+    this.catalog = new TableCatalog(backend);
   }
 
   /**
    * Get schema for a KQL table
    */
-  async getTableSchema(tableName: string): Promise<TableSchema> {
-    // Check cache first
-    const cacheKey = `table:${tableName}`;
-    const cached = this.schemaCache.get(cacheKey);
-    if (cached) {
-      return { ...cached as TableSchema, cached: true };
-    }
+  async getTableSchema(tableName: string, workspace?: string, options: OperationOptions = {}): Promise<TableSchema> {
+    const resolved = this.workspaces.resolve(workspace);
 
-    // Try to load from disk
-    const diskSchema = await this.loadSchemaFromDisk(cacheKey);
-    if (diskSchema) {
-      this.schemaCache.set(cacheKey, diskSchema);
-      return { ...diskSchema as TableSchema, cached: true };
-    }
+    // Cache keys are workspace-scoped
+    const { schema, cached } = await this.getOrDiscover(
+      `table:${resolved.alias}:${tableName}`,
+      'kql',
+      resolved,
+      discoverOptions => this.discoverTableSchema(tableName, resolved, discoverOptions),
+      options
+    );
+    return { ...schema, cached };
+  }
 
+  /**
+   * Get a table schema from the cache only (expired or not), without querying the workspace
+   */
+  async getCachedTableSchema(tableName: string, workspace?: string): Promise<TableSchema | null> {
+    const resolved = this.workspaces.resolve(workspace);
+    const entry = await this.cache.get(`table:${resolved.alias}:${tableName}`);
+    return entry ? { ...(entry.schema as TableSchema), cached: true } : null;
+  }
+
+  private async discoverTableSchema(
+    tableName: string,
+    workspace: ResolvedWorkspace,
+    options: OperationOptions = {}
+  ): Promise<TableSchema> {
     // Discover schema using getschema operator
-    console.error(`Discovering schema for table: ${tableName}`);
-    
-    const token = await this.authManager.getToken();
-    const client = new LogsQueryClient({
-      getToken: async () => ({ token, expiresOnTimestamp: Date.now() + 3600000 }),
-    });
+    console.error(`Discovering schema for table: ${tableName} (workspace: ${workspace.alias})`);
 
     const query = `${tableName} | getschema`;
-    const result = await client.queryWorkspace(
-      this.config.workspaceId,
+    const result = await this.backend.queryWorkspace(
+      workspace.workspaceId,
       query,
-      { duration: 'PT1H' }
+      { duration: 'PT1H' },
+      { abortSignal: options.abortSignal }
     );
 
     if (result.status !== 'Success' || !result.tables || result.tables.length === 0) {
@@ -86,162 +257,263 @@ export class SchemaDiscovery {
       ordinal: typeof row[1] === 'number' ? row[1] : index,
     }));
 
-    const schema: TableSchema = {
+    console.error(`✓ Discovered ${columns.length} columns for ${tableName}\n`);
+    return {
       tableName,
+      workspace: workspace.alias,
       columns,
       discoveredAt: new Date().toISOString(),
       cached: false,
     };
-
-    // Cache in memory and on disk
-    this.schemaCache.set(cacheKey, schema);
-    await this.saveSchemaToDisk(cacheKey, schema);
-
-    console.error(`✓ Discovered ${columns.length} columns for ${tableName}\n`);
-    return schema;
   }
 
   /**
    * Test a KQL query and return sample results
    */
-  async testQuery(query: string, maxRows: number = 10): Promise<QueryResult> {
-    const token = await this.authManager.getToken();
-    const client = new LogsQueryClient({
-      getToken: async () => ({ token, expiresOnTimestamp: Date.now() + 3600000 }),
-    });
-
-    // Add LIMIT if not present
-    const limitedQuery = query.includes('take') || query.includes('limit')
-      ? query
-      : `${query} | take ${maxRows}`;
-
-    const result = await client.queryWorkspace(
-      this.config.workspaceId,
-      limitedQuery,
-      { duration: 'PT1H' }
-    );
+  async testQuery(params: TestQueryParams, options: OperationOptions = {}): Promise<QueryResult> {
+    const { query, workspace, maxRows = 10, allRows = false, timespan = { duration: 'PT1H' }, rowFormat = 'arrays', dryRun = false } = params;
+    const { workspaceId } = this.workspaces.resolve(workspace);
 
-    if (result.status !== 'Success' || !result.tables || result.tables.length === 0) {
-      throw new Error('Query failed or returned no results');
+    // One row more than requested tells whether the result was cut off
+    const rowLimit = allRows ? Infinity : maxRows;
+    const limitedQuery = allRows ? query : limitQueryRows(query, maxRows + 1);
+    const interval = toQueryTimeInterval(timespan);
+    const evaluation = this.policy.evaluate(limitedQuery, interval, allRows ? undefined : maxRows);
+
+    if (dryRun) {
+      return {
+        status: 'DryRun',
+        timespan,
+        name: '',
+        columns: [],
+        rows: [],
+        rowCount: 0,
+        truncated: false,
+        plan: { workspaceId, query: this.policy.applyRowLimit(limitedQuery), timespan: interval, policy: evaluation },
+      };
+    }
+    if (!evaluation.allowed) {
+      throw new QueryPolicyError(evaluation.violations);
     }
 
-    const table = result.tables[0];
-    return {
-      columns: table.columnDescriptors?.map((col: any) => ({
-        name: col.name || 'unknown',
-        type: col.type || 'unknown',
-      })) || [],
-      rows: table.rows || [],
-      rowCount: table.rows?.length || 0,
-    };
+    const result = await this.backend.queryWorkspace(workspaceId, limitedQuery, interval, { abortSignal: options.abortSignal });
+
+    const tables = result.status === 'PartialFailure' ? result.partialTables : result.tables;
+    if (!tables || tables.length === 0) {
+      const reason = result.status === 'PartialFailure' ? `: ${result.partialError.message}` : '';
+      throw new Error(`Query returned no result tables${reason}`);
+    }
+
+    // The policy caps the query at its own row limit, which swallows the extra row when
+    // maxRows reaches that limit; a table that fills the cap may then have been cut off
+    const policyRowLimit = this.policy.rowLimit();
+    const cappedAt = policyRowLimit !== undefined && policyRowLimit <= rowLimit ? policyRowLimit : undefined;
+    const [primary, ...additional] = tables.map(table => toQueryResultTable(table, rowLimit, rowFormat, cappedAt));
+    const queryResult: QueryResult = { status: result.status, timespan, ...primary };
+    if (result.status === 'PartialFailure') {
+      queryResult.error = { code: result.partialError.code, message: result.partialError.message };
+    }
+    if (additional.length > 0) {
+      queryResult.additionalTables = additional;
+    }
+    return queryResult;
   }
 
   /**
-   * List all available tables in the workspace
+   * List the names of the tables in the workspace
    */
-  async listTables(): Promise<string[]> {
-    const token = await this.authManager.getToken();
-    const client = new LogsQueryClient({
-      getToken: async () => ({ token, expiresOnTimestamp: Date.now() + 3600000 }),
-    });
-
-    // Query to get all tables
-    const query = `union withsource = TableName * | distinct TableName | sort by TableName asc`;
-    
-    const result = await client.queryWorkspace(
-      this.config.workspaceId,
-      query,
-      { duration: 'PT1H' }
-    );
-
-    if (result.status !== 'Success' || !result.tables || result.tables.length === 0) {
-      throw new Error('Failed to list tables');
-    }
+  async listTables(workspace?: string, options: OperationOptions = {}): Promise<string[]> {
+    const { tables } = await this.describeTables({ workspace, includeRowEstimates: false }, { abortSignal: options.abortSignal });
+    return tables.map(table => table.name);
+  }
 
-    const table = result.tables[0];
-    return table.rows.map((row: any) => String(row[0]));
+  /**
+   * List the tables in the workspace with their category, ingestion and volume
+   */
+  async describeTables(params: ListTablesParams = {}, options: OperationOptions = {}): Promise<TableList> {
+    return this.catalog.list(this.workspaces.resolve(params.workspace), params, options);
   }
 
   /**
    * Get schema for a Microsoft Graph API endpoint
    */
-  async getGraphAPISchema(endpoint: string, sampleSize: number = 2): Promise<GraphAPISchema> {
-    const cacheKey = `api:${endpoint}`;
-    const cached = this.schemaCache.get(cacheKey);
-    if (cached) {
-      return cached as GraphAPISchema;
-    }
-
-    // Try to load from disk
-    const diskSchema = await this.loadSchemaFromDisk(cacheKey);
-    if (diskSchema) {
-      this.schemaCache.set(cacheKey, diskSchema);
-      return diskSchema as GraphAPISchema;
-    }
+  async getGraphAPISchema(
+    endpoint: string,
+    sampleSize: number = DEFAULT_GRAPH_SAMPLE_SIZE,
+    apiVersion: GraphApiVersion = 'v1.0',
+    options: OperationOptions = {}
+  ): Promise<GraphAPISchema> {
+    // Cache keys are API-version-scoped
+    const { schema } = await this.getOrDiscover(
+      this.getCacheKey(endpoint, undefined, apiVersion),
+      'graph',
+      undefined,
+      discoverOptions => this.discoverGraphAPISchema(endpoint, sampleSize, apiVersion, discoverOptions),
+      options
+    );
+    return schema;
+  }
 
+  private async discoverGraphAPISchema(
+    endpoint: string,
+    sampleSize: number,
+    apiVersion: GraphApiVersion,
+    options: OperationOptions = {}
+  ): Promise<GraphAPISchema> {
     // Fetch sample data from Graph API
-    console.error(`Discovering schema for API endpoint: ${endpoint}`);
-    
-    const token = await this.authManager.getGraphToken();
-    const url = `https://graph.microsoft.com/v1.0${endpoint}?$top=${sampleSize}`;
+    console.error(`Discovering schema for API endpoint: ${endpoint} (${apiVersion})`);
     
-    const response = await fetch(url, {
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`Graph API request failed: ${response.status} ${response.statusText}`);
-    }
+    // Follow @odata.nextLink until the sample is complete or the page budget is spent
+    const { maxRecords, maxPages } = this.config.graphSampleBudget;
+    const limit = Math.min(sampleSize, maxRecords);
+    let url: string | undefined = `${graphBaseUrl(apiVersion)}${endpoint}${endpoint.includes('?') ? '&' : '?'}$top=${limit}`;
+    const samples: unknown[] = [];
+    let pagesFetched = 0;
 
-    const data = await response.json();
-    const samples = data.value || [data];
+    while (url && samples.length < limit && pagesFetched < maxPages) {
+      const response = await this.backend.fetchGraph(url, { abortSignal: options.abortSignal });
 
-    // Introspect structure
-    const properties: Record<string, { type: string; required: boolean }> = {};
-    
-    if (samples.length > 0) {
-      const firstSample = samples[0];
-      for (const [key, value] of Object.entries(firstSample)) {
-        const type = Array.isArray(value) ? 'array' : typeof value;
-        const required = samples.every((s: any) => s[key] !== undefined && s[key] !== null);
-        properties[key] = { type, required };
+      if (!response.ok) {
+        if (pagesFetched === 0) {
+          throw new Error(`Graph API request failed: ${response.status} ${response.statusText}`);
+        }
+        // A throttled or failed follow-up page leaves a smaller sample rather than no schema
+        console.error(`Stopped paging ${endpoint} after ${pagesFetched} page(s): ${response.status} ${response.statusText}`);
+        break;
+      }
+
+      pagesFetched++;
+      const data = response.body;
+      if (!Array.isArray(data?.value)) {
+        // A single entity rather than a collection
+        samples.push(data);
+        break;
       }
+      samples.push(...data.value);
+      url = data['@odata.nextLink'];
+      const sampled = Math.min(samples.length, limit);
+      options.onProgress?.(sampled, limit, `Sampled ${sampled} of ${limit} records (page ${pagesFetched})`);
     }
+    samples.splice(limit);
 
-    const schema: GraphAPISchema = {
+    // Merge the shapes of all sampled records
+    const root = newShapeAccumulator();
+    for (const sample of samples) {
+      accumulateShape(root, sample);
+    }
+    const properties = finalizeProperties(root);
+
+    console.error(`✓ Discovered ${Object.keys(properties).length} properties for ${endpoint}\n`);
+    return {
       endpoint,
+      apiVersion,
+      sampledRecords: samples.length,
+      pagesFetched,
       properties,
       discoveredAt: new Date().toISOString(),
     };
+  }
 
-    // Cache in memory and on disk
-    this.schemaCache.set(cacheKey, schema);
-    await this.saveSchemaToDisk(cacheKey, schema);
+  /**
+   * Infer the nested structure of a dynamic (JSON) column by sampling rows
+   */
+  async analyzeJsonFieldSchema(params: JsonFieldSchemaParams, options: OperationOptions = {}): Promise<JsonFieldSchema> {
+    const resolved = this.workspaces.resolve(params.workspace);
 
-    console.error(`✓ Discovered ${Object.keys(properties).length} properties for ${endpoint}\n`);
+    const { schema, cached } = await this.getOrDiscover(
+      getJsonFieldCacheKey(resolved.alias, params),
+      'kql',
+      resolved,
+      discoverOptions => this.discoverJsonFieldSchema(params, resolved, discoverOptions),
+      options
+    );
+    return { ...schema, cached };
+  }
+
+  /**
+   * Get a JSON field analysis from the cache only, without sampling the workspace
+   */
+  async getCachedJsonFieldSchema(tableName: string, jsonFieldName: string, workspace?: string): Promise<JsonFieldSchema | null> {
+    const resolved = this.workspaces.resolve(workspace);
+    const entry = await this.cache.get(getJsonFieldCacheKey(resolved.alias, { tableName, jsonFieldName }));
+    return entry ? { ...(entry.schema as JsonFieldSchema), cached: true } : null;
+  }
+
+  private async discoverJsonFieldSchema(
+    params: JsonFieldSchemaParams,
+    workspace: ResolvedWorkspace,
+    options: OperationOptions = {}
+  ): Promise<JsonFieldSchema> {
+    const {
+      tableName,
+      jsonFieldName,
+      timeRange = DEFAULT_JSON_TIME_RANGE,
+      sampleSize = DEFAULT_JSON_SAMPLE_SIZE,
+      discriminator = DEFAULT_JSON_DISCRIMINATOR,
+    } = params;
+
+    console.error(`Analyzing JSON field schema for ${tableName}.${jsonFieldName}`);
+
+    const query = `${tableName}
+| where TimeGenerated > ago(${timeRange})
+| where isnotempty(${jsonFieldName})
+| project ${jsonFieldName}
+| take ${sampleSize}`;
+
+    const result = await this.backend.queryWorkspace(
+      workspace.workspaceId,
+      query,
+      { duration: toIsoDuration(timeRange) },
+      { abortSignal: options.abortSignal }
+    );
+
+    if (result.status !== 'Success' || !result.tables || result.tables.length === 0) {
+      throw new Error(`Failed to sample ${jsonFieldName} from table ${tableName}`);
+    }
+
+    const values = result.tables[0].rows.map((row: any) => parseDynamicValue(row[0]));
+    const schema: JsonFieldSchema = {
+      tableName,
+      workspace: workspace.alias,
+      fieldName: jsonFieldName,
+      baseType: describeBaseType(values),
+      discriminator,
+      timeRange,
+      sampledRows: values.length,
+      commonStructures: inferJsonStructures(values, discriminator),
+      discoveredAt: new Date().toISOString(),
+      cached: false,
+    };
+
+    console.error(`✓ Found ${schema.commonStructures.length} structures in ${tableName}.${jsonFieldName}\n`);
     return schema;
   }
 
   /**
-   * Refresh schema (force re-discovery)
+   * Refresh schema (force re-discovery). The schema being replaced is kept as
+   * a history snapshot for compareSchema.
    */
-  async refreshSchema(source: string): Promise<{ success: boolean; source: string; refreshedAt: string }> {
-    // Determine if it's a table or API endpoint
-    const isAPI = source.startsWith('/');
-    const cacheKey = isAPI ? `api:${source}` : `table:${source}`;
+  async refreshSchema(
+    source: string,
+    workspace?: string,
+    apiVersion?: GraphApiVersion,
+    options: OperationOptions = {}
+  ): Promise<{ success: boolean; source: string; refreshedAt: string }> {
+    const cacheKey = this.getCacheKey(source, workspace, apiVersion);
 
-    // Remove from caches
-    this.schemaCache.delete(cacheKey);
-    await this.deleteSchemaFromDisk(cacheKey);
+    const previous = await this.cache.get(cacheKey);
+    if (previous) {
+      await this.cache.snapshot(previous);
+    }
 
-    // Re-discover
-    if (isAPI) {
-      await this.getGraphAPISchema(source);
+    // Re-discover over the cached entry, so it survives a failed discovery and
+    // change listeners see whether the content changed
+    if (cacheKey.startsWith('api:')) {
+      const schema = await this.discoverGraphAPISchema(source, DEFAULT_GRAPH_SAMPLE_SIZE, apiVersion ?? 'v1.0', options);
+      await this.cache.set(cacheKey, 'graph', schema);
     } else {
-      await this.getTableSchema(source);
+      const resolved = this.workspaces.resolve(workspace);
+      await this.cache.set(cacheKey, 'kql', await this.discoverTableSchema(source, resolved, options), resolved);
     }
 
     return {
@@ -252,43 +524,520 @@ export class SchemaDiscovery {
   }
 
   /**
-   * Load schema from disk cache
+   * Diff two versions of a table or API schema. Versions are "cached", "live"
+   * (discovered now, without touching the cache), "previous" (the snapshot
+   * before the latest one) or a snapshot id.
+   */
+  async compareSchema(params: CompareSchemaParams, options: OperationOptions = {}): Promise<SchemaComparison> {
+    const { source, workspace, apiVersion = 'v1.0', from = 'cached', to = 'live' } = params;
+    const cacheKey = this.getCacheKey(source, workspace, apiVersion);
+    const snapshots = await this.cache.listSnapshots(cacheKey);
+
+    const before = await this.loadSchemaVersion(cacheKey, source, workspace, apiVersion, from, snapshots, options);
+    const after = await this.loadSchemaVersion(cacheKey, source, workspace, apiVersion, to, snapshots, options);
+
+    const comparison: SchemaComparison = {
+      source,
+      cacheKey,
+      from: before.version,
+      to: after.version,
+      identical: before.version.contentHash === after.version.contentHash,
+      snapshots,
+    };
+
+    if (cacheKey.startsWith('api:')) {
+      comparison.properties = diffProperties(
+        (before.schema as GraphAPISchema).properties,
+        (after.schema as GraphAPISchema).properties
+      );
+    } else {
+      comparison.columns = diffColumns(
+        (before.schema as TableSchema).columns,
+        (after.schema as TableSchema).columns
+      );
+    }
+
+    return comparison;
+  }
+
+  /**
+   * Compare the sampled shapes of an endpoint in Graph v1.0 and beta
+   */
+  async compareGraphVersions(
+    endpoint: string,
+    sampleSize: number = DEFAULT_GRAPH_SAMPLE_SIZE,
+    options: OperationOptions = {}
+  ): Promise<GraphVersionComparison> {
+    const { abortSignal, onProgress } = options;
+    const sample = async (apiVersion: GraphApiVersion, step: number): Promise<GraphVersionShape> => {
+      try {
+        const schema = await this.getGraphAPISchema(endpoint, sampleSize, apiVersion, { abortSignal });
+        return { available: true, properties: schema.properties };
+      } catch (error) {
+        abortSignal?.throwIfAborted();
+        return { available: false, error: error instanceof Error ? error.message : String(error), properties: {} };
+      } finally {
+        onProgress?.(step, 2, `Sampled ${endpoint} in ${apiVersion}`);
+      }
+    };
+
+    return diffGraphVersions(endpoint, 'sampled', await sample('v1.0', 1), await sample('beta', 2));
+  }
+
+  /**
+   * List the cached schemas (expired or not) without discovering anything
    */
-  private async loadSchemaFromDisk(cacheKey: string): Promise<TableSchema | GraphAPISchema | null> {
-    try {
-      const filename = cacheKey.replace(/[:/]/g, '_') + '.json';
-      const filepath = path.join(this.config.schemaCacheDir, filename);
-      const data = await fs.readFile(filepath, 'utf-8');
-      return JSON.parse(data);
-    } catch (error) {
-      return null;
+  async listCachedSchemas(): Promise<CacheEntry[]> {
+    return this.cache.list();
+  }
+
+  /**
+   * Delete the whole schema cache, history included. Returns the number of schemas removed.
+   */
+  async clearCache(): Promise<number> {
+    return this.cache.clear();
+  }
+
+  /**
+   * Listen for cached schemas that are added or change content, whether by
+   * refreshSchema, a first discovery or a background refresh. Returns a
+   * function that removes the listener.
+   */
+  onSchemaChange(listener: CacheChangeListener): () => void {
+    return this.cache.onChange(listener);
+  }
+
+  private getCacheKey(source: string, workspace?: string, apiVersion: GraphApiVersion = 'v1.0'): string {
+    // Determine if it's a table or API endpoint
+    return source.startsWith('/')
+      ? `api:${apiVersion}:${source}`
+      : `table:${this.workspaces.resolve(workspace).alias}:${source}`;
+  }
+
+  private async loadSchemaVersion(
+    cacheKey: string,
+    source: string,
+    workspace: string | undefined,
+    apiVersion: GraphApiVersion,
+    ref: string,
+    snapshots: SnapshotInfo[],
+    options: OperationOptions
+  ): Promise<{ schema: CachedSchema; version: SchemaVersion }> {
+    if (ref === 'live') {
+      const schema = cacheKey.startsWith('api:')
+        ? await this.discoverGraphAPISchema(source, DEFAULT_GRAPH_SAMPLE_SIZE, apiVersion, options)
+        : await this.discoverTableSchema(source, this.workspaces.resolve(workspace), options);
+      return {
+        schema,
+        version: { ref, capturedAt: schema.discoveredAt, contentHash: hashSchema(schema) },
+      };
+    }
+
+    let entry;
+    if (ref === 'cached') {
+      entry = await this.cache.get(cacheKey);
+    } else if (ref === 'previous') {
+      const previous = snapshots[snapshots.length - 2];
+      entry = previous ? await this.cache.getSnapshot(cacheKey, previous.id) : null;
+    } else {
+      entry = await this.cache.getSnapshot(cacheKey, ref);
     }
+
+    if (!entry) {
+      const available = snapshots.map(snapshot => snapshot.id).join(', ') || 'none';
+      throw new Error(`No "${ref}" schema version for ${cacheKey}. Available snapshots: ${available}`);
+    }
+
+    return {
+      schema: entry.schema as CachedSchema,
+      version: { ref, capturedAt: entry.cachedAt, contentHash: entry.contentHash },
+    };
   }
 
   /**
-   * Save schema to disk cache
+   * Serve a schema from cache, discovering it on a miss. Expired entries are
+   * still served (stale-while-revalidate) while a background refresh runs;
+   * the refresh outlives the request, so it does not get the request's options.
    */
-  private async saveSchemaToDisk(cacheKey: string, schema: TableSchema | GraphAPISchema): Promise<void> {
-    try {
-      await fs.mkdir(this.config.schemaCacheDir, { recursive: true });
-      const filename = cacheKey.replace(/[:/]/g, '_') + '.json';
-      const filepath = path.join(this.config.schemaCacheDir, filename);
-      await fs.writeFile(filepath, JSON.stringify(schema, null, 2), 'utf-8');
-    } catch (error) {
-      console.error('Warning: Failed to cache schema to disk:', error);
+  private async getOrDiscover<T extends CachedSchema>(
+    cacheKey: string,
+    sourceType: CacheSourceType,
+    workspace: ResolvedWorkspace | undefined,
+    discover: (options: OperationOptions) => Promise<T>,
+    options: OperationOptions
+  ): Promise<{ schema: T; cached: boolean }> {
+    const entry = await this.cache.get(cacheKey);
+    if (entry) {
+      if (this.cache.isExpired(entry)) {
+        this.revalidate(cacheKey, sourceType, workspace, () => discover({}));
+      }
+      return { schema: entry.schema as T, cached: true };
     }
+
+    const schema = await discover(options);
+    await this.cache.set(cacheKey, sourceType, schema, workspace);
+    return { schema, cached: false };
   }
 
   /**
-   * Delete schema from disk cache
+   * Re-discover an expired schema in the background (at most once at a time per key)
    */
-  private async deleteSchemaFromDisk(cacheKey: string): Promise<void> {
-    try {
-      const filename = cacheKey.replace(/[:/]/g, '_') + '.json';
-      const filepath = path.join(this.config.schemaCacheDir, filename);
-      await fs.unlink(filepath);
-    } catch (error) {
-      // Ignore errors
+  private revalidate<T extends CachedSchema>(
+    cacheKey: string,
+    sourceType: CacheSourceType,
+    workspace: ResolvedWorkspace | undefined,
+    discover: () => Promise<T>
+  ): void {
+    if (this.revalidating.has(cacheKey)) return;
+
+    console.error(`Cached schema ${cacheKey} expired, refreshing in background`);
+    const task = discover()
+      .then(schema => this.cache.set(cacheKey, sourceType, schema, workspace))
+      .then(() => undefined)
+      .catch(error => {
+        console.error(`Warning: Background refresh of ${cacheKey} failed:`, error);
+      })
+      .finally(() => {
+        this.revalidating.delete(cacheKey);
+      });
+
+    this.revalidating.set(cacheKey, task);
+  }
+}
+
+interface ShapeAccumulator {
+  present: number;
+  nulls: number;
+  types: Set<string>;
+  formats: Set<string | undefined>;
+  objects: number;
+  properties: Map<string, ShapeAccumulator>;
+  items?: ShapeAccumulator;
+}
+
+interface FieldAccumulator {
+  types: Set<string>;
+  count: number;
+  values: Map<string, { value: unknown; count: number }>;
+  // Object values seen, and the fields found in them
+  objects: number;
+  properties: Map<string, FieldAccumulator>;
+}
+
+/**
+ * Analyses with the default sampling keep the plain key, which type generation
+ * looks up; other discriminators, time ranges and sample sizes are cached apart
+ */
+function getJsonFieldCacheKey(
+  alias: string,
+  params: Pick<JsonFieldSchemaParams, 'tableName' | 'jsonFieldName' | 'timeRange' | 'sampleSize' | 'discriminator'>
+): string {
+  const key = `json:${alias}:${params.tableName}.${params.jsonFieldName}`;
+  const timeRange = params.timeRange ?? DEFAULT_JSON_TIME_RANGE;
+  const sampleSize = params.sampleSize ?? DEFAULT_JSON_SAMPLE_SIZE;
+  const discriminator = params.discriminator ?? DEFAULT_JSON_DISCRIMINATOR;
+
+  if (timeRange === DEFAULT_JSON_TIME_RANGE && sampleSize === DEFAULT_JSON_SAMPLE_SIZE && discriminator === DEFAULT_JSON_DISCRIMINATOR) {
+    return key;
+  }
+  return `${key}:${discriminator}:${timeRange}:${sampleSize}`;
+}
+
+/**
+ * Convert a KQL timespan literal (e.g. "30d", "12h", "15m") to an ISO 8601 duration
+ */
+function toIsoDuration(timeRange: string): string {
+  const match = /^(\d+)([dhm])$/.exec(timeRange.trim());
+  if (!match) {
+    throw new Error(`Unsupported time range "${timeRange}" (expected e.g. 30d, 12h or 15m)`);
+  }
+  const [, amount, unit] = match;
+  return unit === 'd' ? `P${amount}D` : `PT${amount}${unit.toUpperCase()}`;
+}
+
+/**
+ * Convert a tool timespan to the SDK's time interval. Durations may be ISO 8601
+ * or KQL-style (e.g. "30d").
+ */
+function toQueryTimeInterval(timespan: QueryTimespan): QueryTimeInterval {
+  const duration = timespan.duration
+    ? (/^P/i.test(timespan.duration) ? timespan.duration.toUpperCase() : toIsoDuration(timespan.duration))
+    : undefined;
+  const start = timespan.start ? parseTimestamp(timespan.start, 'start') : undefined;
+  const end = timespan.end ? parseTimestamp(timespan.end, 'end') : undefined;
+
+  if (start && end) {
+    if (duration) {
+      throw new Error('A timespan takes at most two of duration, start and end');
     }
+    if (start >= end) {
+      throw new Error('Timespan start must be before its end');
+    }
+    return { startTime: start, endTime: end };
+  }
+  if (start) {
+    return duration ? { startTime: start, duration } : { startTime: start, endTime: new Date() };
+  }
+  if (end) {
+    if (!duration) {
+      throw new Error('A timespan end needs a start or a duration');
+    }
+    return { duration, endTime: end };
+  }
+  if (!duration) {
+    throw new Error('A timespan needs a duration, a start or both start and end');
+  }
+  return { duration };
+}
+
+function parseTimestamp(value: string, name: string): Date {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Timespan ${name} "${value}" is not a valid ISO 8601 date`);
   }
+  return date;
+}
+
+/**
+ * Cap a result table at maxRows, optionally keying each row by column name
+ */
+function toQueryResultTable(table: LogsTable, maxRows: number, rowFormat: RowFormat, cappedAt?: number): QueryResultTable {
+  const columns = (table.columnDescriptors || []).map(col => ({
+    name: col.name || 'unknown',
+    type: col.type || 'unknown',
+  }));
+  const rows = (table.rows || []).slice(0, maxRows);
+
+  return {
+    name: table.name,
+    columns,
+    rows: rowFormat === 'objects'
+      ? rows.map(row => Object.fromEntries(columns.map((col, i) => [col.name, row[i]])))
+      : rows,
+    rowCount: rows.length,
+    truncated: (table.rows?.length || 0) > maxRows || (cappedAt !== undefined && rows.length >= cappedAt),
+  };
+}
+
+/**
+ * Dynamic columns are normally parsed by the SDK, but may arrive as JSON strings
+ */
+function parseDynamicValue(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Recognize well-known string formats (GUID, ISO datetime, email, IP address)
+ */
+function detectStringFormat(value: string): string | undefined {
+  if (/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value)) return 'GUID';
+  if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/.test(value)) return 'datetime';
+  if (/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)) return 'email';
+  if (/^(\d{1,3}\.){3}\d{1,3}$/.test(value) || /^[0-9a-f]*:[0-9a-f:]+$/i.test(value)) return 'IP address';
+  return undefined;
+}
+
+function describeValueType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') {
+    const format = detectStringFormat(value);
+    return format ? `string (${format})` : 'string';
+  }
+  return typeof value;
+}
+
+function describeBaseType(values: unknown[]): string {
+  const kinds = new Set(values.map(value => {
+    if (Array.isArray(value)) {
+      return value.every(item => item !== null && typeof item === 'object' && !Array.isArray(item))
+        ? 'array of objects'
+        : 'array';
+    }
+    return describeValueType(value);
+  }));
+  if (kinds.size === 0) return 'dynamic (no data)';
+  if (kinds.size === 1) return `dynamic (${[...kinds][0]})`;
+  return `dynamic (mixed: ${[...kinds].join(', ')})`;
+}
+
+/**
+ * Group case-insensitively equal strings and return the groups that have more than one spelling
+ */
+function findCaseVariations(values: string[]): string[][] {
+  const groups = new Map<string, Set<string>>();
+  for (const value of values) {
+    const key = value.toLowerCase();
+    if (!groups.has(key)) groups.set(key, new Set());
+    groups.get(key)!.add(value);
+  }
+  return [...groups.values()].filter(group => group.size > 1).map(group => [...group]);
+}
+
+/**
+ * Group sampled JSON objects by a discriminator field and summarize the fields of each group
+ */
+function inferJsonStructures(values: unknown[], discriminator: string): JsonStructure[] {
+  const groups = new Map<string, { frequency: number; fields: Map<string, FieldAccumulator> }>();
+
+  const record = (entityType: string, item: Record<string, unknown>) => {
+    if (!groups.has(entityType)) groups.set(entityType, { frequency: 0, fields: new Map() });
+    const group = groups.get(entityType)!;
+    group.frequency++;
+    accumulateFields(group.fields, item);
+  };
+
+  for (const value of values) {
+    const items = Array.isArray(value) ? value : [value];
+    for (const item of items) {
+      if (isJsonObject(item)) {
+        const entityType = item[discriminator] !== undefined && item[discriminator] !== null
+          ? String(item[discriminator])
+          : '(none)';
+        record(entityType, item);
+      } else {
+        record('(scalar)', { value: item });
+      }
+    }
+  }
+
+  return [...groups.entries()]
+    .map(([entityType, group]) => {
+      const structure: JsonStructure = { entityType, frequency: group.frequency, fields: finalizeFields(group.fields) };
+      const fieldNameCaseVariations = findCaseVariations([...group.fields.keys()]);
+      if (fieldNameCaseVariations.length > 0) {
+        structure.fieldNameCaseVariations = fieldNameCaseVariations;
+      }
+      return structure;
+    })
+    .sort((a, b) => b.frequency - a.frequency);
+}
+
+function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Record the fields of one object, recursing into fields whose values are objects
+ */
+function accumulateFields(fields: Map<string, FieldAccumulator>, item: Record<string, unknown>): void {
+  for (const [key, value] of Object.entries(item)) {
+    if (!fields.has(key)) {
+      fields.set(key, { types: new Set(), count: 0, values: new Map(), objects: 0, properties: new Map() });
+    }
+    const field = fields.get(key)!;
+    field.types.add(describeValueType(value));
+    field.count++;
+
+    if (isJsonObject(value)) {
+      field.objects++;
+      accumulateFields(field.properties, value);
+      continue;
+    }
+
+    // Only scalar values are useful as examples and enumerations
+    if (value === null || typeof value === 'object') continue;
+    const valueKey = JSON.stringify(value);
+    const existing = field.values.get(valueKey);
+    if (existing) {
+      existing.count++;
+    } else {
+      field.values.set(valueKey, { value, count: 1 });
+    }
+  }
+}
+
+function finalizeFields(fields: Map<string, FieldAccumulator>): Record<string, JsonFieldInfo> {
+  const result: Record<string, JsonFieldInfo> = {};
+  for (const [name, field] of fields) {
+    const distinct = [...field.values.values()].sort((a, b) => b.count - a.count);
+    const info: JsonFieldInfo = {
+      type: [...field.types].join(' | '),
+      frequency: field.count,
+      exampleValues: distinct.slice(0, MAX_EXAMPLE_VALUES).map(entry => entry.value),
+    };
+
+    if (distinct.length === 1 && field.count > 1) {
+      info.constantValue = distinct[0].value;
+    } else if (distinct.length > 1 && distinct.length <= MAX_DISTINCT_VALUES && distinct.length < field.count) {
+      info.distinctValues = distinct.map(entry => entry.value);
+      info.valueCounts = Object.fromEntries(distinct.map(entry => [String(entry.value), entry.count]));
+    }
+
+    const caseVariations = findCaseVariations(
+      distinct.filter(entry => typeof entry.value === 'string').map(entry => entry.value as string)
+    );
+    if (caseVariations.length > 0) {
+      info.caseVariations = caseVariations;
+    }
+
+    if (field.objects > 0) {
+      info.properties = finalizeFields(field.properties);
+    }
+
+    result[name] = info;
+  }
+  return result;
+}
+
+function newShapeAccumulator(): ShapeAccumulator {
+  return { present: 0, nulls: 0, types: new Set(), formats: new Set(), objects: 0, properties: new Map() };
+}
+
+/**
+ * Record one value of a property, recursing into object properties and array elements
+ */
+function accumulateShape(shape: ShapeAccumulator, value: unknown): void {
+  shape.present++;
+  if (value === null || value === undefined) {
+    shape.nulls++;
+  } else if (Array.isArray(value)) {
+    shape.types.add('array');
+    shape.items ??= newShapeAccumulator();
+    for (const item of value) {
+      accumulateShape(shape.items, item);
+    }
+  } else if (typeof value === 'object') {
+    shape.types.add('object');
+    shape.objects++;
+    for (const [key, child] of Object.entries(value)) {
+      if (!shape.properties.has(key)) shape.properties.set(key, newShapeAccumulator());
+      accumulateShape(shape.properties.get(key)!, child);
+    }
+  } else {
+    shape.types.add(typeof value);
+    if (typeof value === 'string') shape.formats.add(detectStringFormat(value));
+  }
+}
+
+/**
+ * A property is required when it is present and non-null in every sampled parent object
+ */
+function finalizeProperties(parent: ShapeAccumulator): Record<string, GraphProperty> {
+  const properties: Record<string, GraphProperty> = {};
+  for (const [key, shape] of parent.properties) {
+    properties[key] = finalizeShape(shape, shape.present === parent.objects);
+  }
+  return properties;
+}
+
+function finalizeShape(shape: ShapeAccumulator, alwaysPresent: boolean): GraphProperty {
+  const property: GraphProperty = {
+    type: shape.types.size === 0 ? 'null' : [...shape.types].sort().join(' | '),
+    required: alwaysPresent && shape.nulls === 0,
+    nullable: shape.nulls > 0,
+  };
+
+  // Only report a format shared by every string value
+  const [format] = shape.formats;
+  if (shape.formats.size === 1 && format) property.format = format;
+
+  if (shape.objects > 0) property.properties = finalizeProperties(shape);
+  if (shape.items && shape.items.present > 0) property.items = finalizeShape(shape.items, true);
+  return property;
 }
@@ -0,0 +1,285 @@
+import type { CodeGeneration } from './CodeGeneration.js';
+import type { GraphApiVersion } from './GraphMetadata.js';
+import type { KqlValidator } from './KqlValidator.js';
+import type { OperationOptions } from './Operation.js';
+import type { SchemaDiscovery } from './SchemaDiscovery.js';
+
+export interface SchemaPromptMessage {
+  [key: string]: unknown;
+  role: 'user';
+  content: { type: 'text'; text: string };
+}
+
+export interface SchemaPrompt {
+  [key: string]: unknown;
+  description: string;
+  messages: SchemaPromptMessage[];
+}
+
+export interface InvestigateTableArgs {
+  table: string;
+  workspace?: string;
+  focus?: string;
+}
+
+export interface DetectionQueryArgs {
+  table: string;
+  behavior: string;
+  workspace?: string;
+}
+
+export interface ExplainTableArgs {
+  /** Table name, or a Graph endpoint starting with / */
+  source: string;
+  workspace?: string;
+  apiVersion?: GraphApiVersion;
+}
+
+export interface MigrateQueryArgs {
+  query: string;
+  table: string;
+  workspace?: string;
+  /** Schema version the query was written against: "previous" (default) or a snapshot id */
+  from?: string;
+}
+
+// Rows sampled from the last day for table prompts
+const SAMPLE_ROWS = 3;
+const MAX_EXAMPLE_QUERIES = 3;
+// Long values (JSON columns, raw events) are cut to keep prompts small
+const MAX_VALUE_LENGTH = 200;
+// Nesting shown for Graph properties
+const MAX_PROPERTY_DEPTH = 3;
+
+/**
+ * Builds MCP prompts with the current schema, sample rows and example queries
+ * of a table or Graph endpoint embedded, so the model needs no tool calls to
+ * get started. Context that cannot be fetched is noted in the prompt instead
+ * of failing it.
+ */
+export class SchemaPrompts {
+  private schemaDiscovery: SchemaDiscovery;
+  private codeGeneration: CodeGeneration;
+  private kqlValidator: KqlValidator;
+
+  constructor(schemaDiscovery: SchemaDiscovery, codeGeneration: CodeGeneration, kqlValidator: KqlValidator) {
+    this.schemaDiscovery = schemaDiscovery;
+    this.codeGeneration = codeGeneration;
+    this.kqlValidator = kqlValidator;
+  }
+
+  async investigateTable(args: InvestigateTableArgs, options: OperationOptions = {}): Promise<SchemaPrompt> {
+    const { table, workspace, focus } = args;
+    const context = await this.tableContext(table, workspace, options);
+
+    return userPrompt(`Investigate the ${table} table`, [
+      `Help me investigate the Log Analytics table \`${table}\`.`,
+      context,
+      focus ? `Focus of the investigation: ${focus}` : 'Start with an overview of what the table records and how much data it holds.',
+      'Suggest a sequence of KQL queries, from broad to specific, that explain what is happening in this data. ' +
+        'Use only the columns listed above, filter on TimeGenerated first, and say what each query should reveal.',
+    ]);
+  }
+
+  async writeDetectionQuery(args: DetectionQueryArgs, options: OperationOptions = {}): Promise<SchemaPrompt> {
+    const { table, behavior, workspace } = args;
+    const context = await this.tableContext(table, workspace, options);
+
+    return userPrompt(`Write a detection query on ${table}`, [
+      `Write a KQL detection query against the Log Analytics table \`${table}\` that detects: ${behavior}`,
+      context,
+      'Requirements:\n' +
+        '- Use only the columns listed above, with their exact names and types\n' +
+        '- Filter on TimeGenerated first, with a lookback suitable for a scheduled rule\n' +
+        '- Project the entities and fields an analyst needs to triage an alert\n' +
+        '- Explain the logic and the false positives to expect',
+    ]);
+  }
+
+  async explainTable(args: ExplainTableArgs, options: OperationOptions = {}): Promise<SchemaPrompt> {
+    const { source, workspace, apiVersion = 'v1.0' } = args;
+
+    if (source.startsWith('/')) {
+      const context = await this.endpointContext(source, apiVersion, options);
+      return userPrompt(`Explain the Graph endpoint ${source}`, [
+        `Explain the Microsoft Graph ${apiVersion} endpoint \`${source}\`.`,
+        context,
+        'Describe what the resource represents, what each property means, which properties are most useful ' +
+          'for reporting or security analysis, and which are often empty.',
+      ]);
+    }
+
+    const context = await this.tableContext(source, workspace, options);
+    return userPrompt(`Explain the ${source} table`, [
+      `Explain the Log Analytics table \`${source}\`.`,
+      context,
+      'Describe what the table records and where the data comes from, what each column means, which columns ' +
+        'identify entities (users, hosts, IPs), and which are most useful for investigations.',
+    ]);
+  }
+
+  async migrateQueryToNewSchema(args: MigrateQueryArgs, options: OperationOptions = {}): Promise<SchemaPrompt> {
+    const { query, table, workspace, from = 'previous' } = args;
+    const context = await this.tableContext(table, workspace, options, false);
+
+    let changes: string;
+    try {
+      const comparison = await this.schemaDiscovery.compareSchema({ source: table, workspace, from, to: 'cached' }, options);
+      const columns = comparison.columns!;
+      changes = comparison.identical
+        ? `The schema has not changed since ${comparison.from.capturedAt}.`
+        : [
+          `Changes since ${comparison.from.capturedAt}:`,
+          ...columns.added.map(c => `- Added: ${c.name} (${c.type})`),
+          ...columns.removed.map(c => `- Removed: ${c.name} (${c.type})`),
+          ...columns.retyped.map(c => `- Retyped: ${c.name} from ${c.from} to ${c.to}`),
+          ...columns.reordered.map(c => `- Moved: ${c.name} from position ${c.fromOrdinal} to ${c.toOrdinal}`),
+        ].join('\n');
+    } catch (error) {
+      options.abortSignal?.throwIfAborted();
+      changes = `_Schema changes unavailable: ${errorMessage(error)}_`;
+    }
+
+    let issues: string;
+    try {
+      const validation = await this.kqlValidator.validate(query, { workspace, abortSignal: options.abortSignal });
+      issues = validation.issues.length === 0
+        ? 'Local validation found no issues against the current schema.'
+        : [
+          'Local validation against the current schema found:',
+          ...validation.issues.map(issue =>
+            `- ${issue.severity} (line ${issue.line}, column ${issue.column}): ${issue.message}` +
+            (issue.suggestions?.length ? ` Did you mean ${issue.suggestions.join(', ')}?` : '')
+          ),
+        ].join('\n');
+    } catch (error) {
+      options.abortSignal?.throwIfAborted();
+      issues = `_Local validation unavailable: ${errorMessage(error)}_`;
+    }
+
+    return userPrompt(`Migrate a query on ${table} to its current schema`, [
+      `This KQL query was written against an earlier schema of the Log Analytics table \`${table}\`:`,
+      fence('kql', query),
+      `## Schema changes\n\n${changes}`,
+      `## Validation\n\n${issues}`,
+      context,
+      'Rewrite the query so it works against the current schema and returns the same results. Map removed or ' +
+        'renamed columns to their replacements, convert retyped columns where needed, and list every change you made.',
+    ]);
+  }
+
+  /**
+   * Columns, sample rows and example queries of a table, as markdown
+   */
+  private async tableContext(table: string, workspace: string | undefined, options: OperationOptions, includeSamples = true): Promise<string> {
+    const schema = await this.schemaDiscovery.getTableSchema(table, workspace, options);
+    const sections = [
+      `## Columns of ${table} (workspace: ${schema.workspace})\n\n` +
+        '| Column | Type |\n|---|---|\n' +
+        schema.columns.map(column => `| ${column.name} | ${column.type} |`).join('\n'),
+    ];
+
+    if (includeSamples) {
+      sections.push(await this.sampleRows(table, workspace, options));
+    }
+    sections.push(await this.exampleQueries(table, workspace, options));
+    return sections.join('\n\n');
+  }
+
+  private async sampleRows(table: string, workspace: string | undefined, options: OperationOptions): Promise<string> {
+    const heading = `## Sample rows (up to ${SAMPLE_ROWS} from the last day)`;
+    try {
+      const result = await this.schemaDiscovery.testQuery({
+        query: table,
+        workspace,
+        maxRows: SAMPLE_ROWS,
+        timespan: { duration: 'P1D' },
+        rowFormat: 'objects',
+      }, options);
+      if (result.rowCount === 0) {
+        return `${heading}\n\n_No rows in the last day._`;
+      }
+      return `${heading}\n\n${fence('json', JSON.stringify(result.rows, truncateValue, 2))}`;
+    } catch (error) {
+      options.abortSignal?.throwIfAborted();
+      return `${heading}\n\n_Sample rows unavailable: ${errorMessage(error)}_`;
+    }
+  }
+
+  /**
+   * Queries on the table found in local files, skipping those that reference missing columns
+   */
+  private async exampleQueries(table: string, workspace: string | undefined, options: OperationOptions): Promise<string> {
+    const heading = '## Example queries';
+    try {
+      const result = await this.codeGeneration.findWorkingQueryExamples({ tableName: table, workspace }, options);
+      const examples = result.examples.filter(example => example.validation.status !== 'invalid').slice(0, MAX_EXAMPLE_QUERIES);
+      if (examples.length === 0) {
+        return `${heading}\n\n_No working example queries found in the query search paths._`;
+      }
+      return `${heading}\n\n` + examples
+        .map(example => `From ${example.file}:${example.startLine}\n\n${fence('kql', example.query)}`)
+        .join('\n\n');
+    } catch (error) {
+      options.abortSignal?.throwIfAborted();
+      return `${heading}\n\n_Example queries unavailable: ${errorMessage(error)}_`;
+    }
+  }
+
+  private async endpointContext(endpoint: string, apiVersion: GraphApiVersion, options: OperationOptions): Promise<string> {
+    const schema = await this.schemaDiscovery.getGraphAPISchema(endpoint, undefined, apiVersion, options);
+    return `## Properties of ${endpoint} (${apiVersion}, sampled from ${schema.sampledRecords} records)\n\n` +
+      describeProperties(schema.properties, '', 0).join('\n');
+  }
+}
+
+function userPrompt(description: string, sections: string[]): SchemaPrompt {
+  return {
+    description,
+    messages: [{ role: 'user', content: { type: 'text', text: sections.join('\n\n') } }],
+  };
+}
+
+function fence(language: string, code: string): string {
+  return '```' + language + '\n' + code.trim() + '\n```';
+}
+
+function truncateValue(_key: string, value: unknown): unknown {
+  return typeof value === 'string' && value.length > MAX_VALUE_LENGTH
+    ? `${value.slice(0, MAX_VALUE_LENGTH)}… (${value.length} characters)`
+    : value;
+}
+
+interface PropertyNode {
+  type: string;
+  required: boolean;
+  nullable: boolean;
+  format?: string;
+  properties?: Record<string, PropertyNode>;
+  items?: PropertyNode;
+}
+
+/**
+ * One line per property, nested properties indented under their parent
+ */
+function describeProperties(properties: Record<string, PropertyNode>, indent: string, depth: number): string[] {
+  return Object.entries(properties).flatMap(([name, property]) => {
+    const element = property.items;
+    const type = element ? `${element.type}[]` : property.type;
+    const notes = [
+      property.required ? 'always present' : 'optional',
+      property.nullable ? 'nullable' : undefined,
+      property.format ?? element?.format,
+    ].filter(Boolean).join(', ');
+
+    const children = property.properties ?? element?.properties;
+    return [
+      `${indent}- ${name}: ${type} (${notes})`,
+      ...(children && depth + 1 < MAX_PROPERTY_DEPTH ? describeProperties(children, indent + '  ', depth + 1) : []),
+    ];
+  });
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,185 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { GRAPH_API_VERSIONS } from './GraphMetadata.js';
+import type { GraphApiVersion } from './GraphMetadata.js';
+import type { OperationOptions } from './Operation.js';
+import type { CacheEntry } from './SchemaCache.js';
+import type { SchemaDiscovery } from './SchemaDiscovery.js';
+
+export const KQL_SCHEMA_TEMPLATE = 'schema://kql/{workspace}/{table}';
+export const GRAPH_SCHEMA_TEMPLATE = 'schema://graph/{apiVersion}/{+endpoint}';
+
+const MIME_TYPE = 'application/json';
+
+// Resources per resources/list page
+const PAGE_SIZE = 50;
+
+export type SchemaResourceRef =
+  | { kind: 'kql'; workspace: string; table: string }
+  | { kind: 'graph'; apiVersion: GraphApiVersion; endpoint: string };
+
+export interface SchemaResource {
+  [key: string]: unknown;
+  uri: string;
+  name: string;
+  title: string;
+  description: string;
+  mimeType: string;
+  annotations: { lastModified: string };
+}
+
+export interface SchemaResourcePage {
+  [key: string]: unknown;
+  resources: SchemaResource[];
+  nextCursor?: string;
+}
+
+/**
+ * How resource changes reach the client
+ */
+export interface SchemaResourceNotifier {
+  resourceUpdated(uri: string): void;
+  resourceListChanged(): void;
+}
+
+/**
+ * Publishes the cached table and Graph schemas as MCP resources. Reading a
+ * resource that is not cached yet discovers it; subscribers hear about
+ * schemas whose content changes, and the client about newly cached ones.
+ */
+export class SchemaResources {
+  private discovery: SchemaDiscovery;
+  private subscriptions: Set<string> = new Set();
+  private stopWatching: () => void;
+
+  constructor(discovery: SchemaDiscovery, notifier: SchemaResourceNotifier) {
+    this.discovery = discovery;
+
+    this.stopWatching = discovery.onSchemaChange((entry, change) => {
+      const uri = schemaResourceUri(entry);
+      if (!uri) {
+        return;
+      }
+      if (change === 'added') {
+        notifier.resourceListChanged();
+      }
+      if (this.subscriptions.has(uri)) {
+        notifier.resourceUpdated(uri);
+      }
+    });
+  }
+
+  /**
+   * List a page of cached schemas, ordered by cache key
+   */
+  async list(cursor?: string): Promise<SchemaResourcePage> {
+    const offset = cursor === undefined ? 0 : parseCursor(cursor);
+    const resources = (await this.discovery.listCachedSchemas()).flatMap(entry => {
+      const resource = toResource(entry);
+      return resource ? [resource] : [];
+    });
+
+    const end = offset + PAGE_SIZE;
+    return {
+      resources: resources.slice(offset, end),
+      ...(end < resources.length ? { nextCursor: Buffer.from(String(end)).toString('base64url') } : {}),
+    };
+  }
+
+  /**
+   * Read a schema as JSON, from the cache or discovered on demand
+   */
+  async read(uri: string, options: OperationOptions = {}): Promise<{ contents: Array<{ uri: string; mimeType: string; text: string }> }> {
+    const ref = parseSchemaResourceUri(uri);
+    const schema = ref.kind === 'kql'
+      ? await this.discovery.getTableSchema(ref.table, ref.workspace, options)
+      : await this.discovery.getGraphAPISchema(ref.endpoint, undefined, ref.apiVersion, options);
+
+    return {
+      contents: [{ uri: formatSchemaResourceUri(ref), mimeType: MIME_TYPE, text: JSON.stringify(schema, null, 2) }],
+    };
+  }
+
+  subscribe(uri: string): void {
+    this.subscriptions.add(formatSchemaResourceUri(parseSchemaResourceUri(uri)));
+  }
+
+  unsubscribe(uri: string): void {
+    this.subscriptions.delete(formatSchemaResourceUri(parseSchemaResourceUri(uri)));
+  }
+
+  /**
+   * Stop notifying, once the session the resources were published to has closed
+   */
+  close(): void {
+    this.subscriptions.clear();
+    this.stopWatching();
+  }
+}
+
+/**
+ * Parse a schema:// resource URI, throwing an InvalidParams error for anything else
+ */
+export function parseSchemaResourceUri(uri: string): SchemaResourceRef {
+  const kql = /^schema:\/\/kql\/([^/]+)\/([^/]+)$/.exec(uri);
+  if (kql) {
+    return { kind: 'kql', workspace: decodeURIComponent(kql[1]), table: decodeURIComponent(kql[2]) };
+  }
+
+  const graph = /^schema:\/\/graph\/([^/]+)(\/.+)$/.exec(uri);
+  if (graph && (GRAPH_API_VERSIONS as readonly string[]).includes(graph[1])) {
+    return { kind: 'graph', apiVersion: graph[1] as GraphApiVersion, endpoint: decodeURI(graph[2]) };
+  }
+
+  throw new McpError(ErrorCode.InvalidParams, `Not a schema resource: ${uri}. Expected ${KQL_SCHEMA_TEMPLATE} or ${GRAPH_SCHEMA_TEMPLATE}`);
+}
+
+export function formatSchemaResourceUri(ref: SchemaResourceRef): string {
+  return ref.kind === 'kql'
+    ? `schema://kql/${encodeURIComponent(ref.workspace)}/${encodeURIComponent(ref.table)}`
+    : `schema://graph/${ref.apiVersion}${encodeURI(ref.endpoint)}`;
+}
+
+/**
+ * The resource URI of a cached table or Graph schema; JSON field schemas are not published
+ */
+export function schemaResourceUri(entry: CacheEntry): string | undefined {
+  const ref = toResourceRef(entry.key);
+  return ref ? formatSchemaResourceUri(ref) : undefined;
+}
+
+function toResourceRef(key: string): SchemaResourceRef | undefined {
+  const table = /^table:([^:]+):(.+)$/.exec(key);
+  if (table) {
+    return { kind: 'kql', workspace: table[1], table: table[2] };
+  }
+  const api = /^api:([^:]+):(\/.*)$/.exec(key);
+  if (api && (GRAPH_API_VERSIONS as readonly string[]).includes(api[1])) {
+    return { kind: 'graph', apiVersion: api[1] as GraphApiVersion, endpoint: api[2] };
+  }
+  return undefined;
+}
+
+function toResource(entry: CacheEntry): SchemaResource | undefined {
+  const ref = toResourceRef(entry.key);
+  if (!ref) {
+    return undefined;
+  }
+  return {
+    uri: formatSchemaResourceUri(ref),
+    name: ref.kind === 'kql' ? ref.table : ref.endpoint,
+    title: ref.kind === 'kql' ? `${ref.table} (${ref.workspace})` : `${ref.endpoint} (${ref.apiVersion})`,
+    description: ref.kind === 'kql'
+      ? `Schema of the ${ref.table} table in the ${ref.workspace} workspace`
+      : `Schema of the Microsoft Graph ${ref.apiVersion} endpoint ${ref.endpoint}`,
+    mimeType: MIME_TYPE,
+    annotations: { lastModified: entry.cachedAt },
+  };
+}
+
+function parseCursor(cursor: string): number {
+  const offset = Number(Buffer.from(cursor, 'base64url').toString('utf-8'));
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid cursor: ${cursor}`);
+  }
+  return offset;
+}
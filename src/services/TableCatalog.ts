@@ -0,0 +1,258 @@
+import type { LogsQueryResult } from '@azure/monitor-query';
+import type { AzureBackend } from '../backend/AzureBackend.js';
+import type { OperationOptions } from './Operation.js';
+import { globMatches } from './QueryPolicy.js';
+import type { ResolvedWorkspace } from './WorkspaceRegistry.js';
+
+export const TABLE_CATEGORIES = ['custom', 'sentinel', 'azure-diagnostics', 'other'] as const;
+
+export type TableCategory = typeof TABLE_CATEGORIES[number];
+
+/** Longest Usage window a table listing may read */
+export const MAX_LOOKBACK_DAYS = 90;
+
+export interface TableInfo {
+  [key: string]: unknown;
+  name: string;
+  category: TableCategory;
+  /** Hour of the latest ingestion within the lookback window, from the Usage table */
+  lastIngestion?: string;
+  billableMB: number;
+  totalMB: number;
+  /** Rows ingested within the lookback window */
+  rowEstimate?: number;
+  solutions: string[];
+  /** Categories such as "Security" or "Azure Resources", from the management plane */
+  categories?: string[];
+  /** Table plan (Analytics, Basic, Auxiliary), from the management plane */
+  plan?: string;
+  retentionInDays?: number;
+}
+
+export interface ListTablesParams {
+  workspace?: string;
+  /** Table name pattern; * matches anything */
+  pattern?: string;
+  category?: TableCategory;
+  /** ISO 8601 timestamp or KQL timespan (e.g. "7d"); only tables with ingestion since then */
+  hasDataSince?: string;
+  lookbackDays?: number;
+  includeRowEstimates?: boolean;
+}
+
+export interface TableList {
+  [key: string]: unknown;
+  workspace: string;
+  lookbackDays: number;
+  /** Where the table list came from: the Usage table, and the management-plane Tables API when available */
+  sources: Array<'usage' | 'management'>;
+  tables: TableInfo[];
+  count: number;
+  warnings: string[];
+}
+
+const MANAGEMENT_API_VERSION = '2022-10-01';
+
+// Tables Sentinel writes to whatever the solution recorded in Usage
+const SENTINEL_TABLES = new Set([
+  'securityalert', 'securityincident', 'securityevent', 'commonsecuritylog',
+  'threatintelligenceindicator', 'watchlist', 'sentinelhealth', 'sentinelaudit',
+]);
+const SENTINEL_SOLUTIONS = new Set(['securityinsights', 'security', 'securitycenterfree']);
+const DIAGNOSTICS_TABLES = new Set(['azurediagnostics', 'azuremetrics', 'azureactivity']);
+
+/**
+ * Lists the tables of a workspace from the Usage table, which is cheap to
+ * query and keeps tables without recent rows, enriched with the table
+ * metadata of the management plane when the workspace has a resourceId.
+ * Row estimates scan the listed tables, so they are only counted on request.
+ */
+export class TableCatalog {
+  private backend: AzureBackend;
+
+  constructor(backend: AzureBackend) {
+    this.backend = backend;
+  }
+
+  async list(workspace: ResolvedWorkspace, params: ListTablesParams = {}, options: OperationOptions = {}): Promise<TableList> {
+    const { pattern, category, hasDataSince, lookbackDays = 30, includeRowEstimates = false } = params;
+    const { abortSignal, onProgress } = options;
+    const warnings: string[] = [];
+    const sources: TableList['sources'] = ['usage'];
+    const tables = new Map<string, TableInfo>();
+    const steps = includeRowEstimates ? 3 : 2;
+
+    const usage = await this.backend.queryWorkspace(
+      workspace.workspaceId,
+      `Usage
+| where TimeGenerated > ago(${lookbackDays}d)
+| summarize LastIngestion = max(TimeGenerated), BillableMB = sumif(Quantity, IsBillable == true), TotalMB = sum(Quantity), Solutions = make_set(Solution) by DataType`,
+      { duration: `P${lookbackDays}D` },
+      { abortSignal }
+    );
+    for (const row of successfulRows(usage, 'Failed to read the Usage table')) {
+      const name = String(row[0]);
+      tables.set(name.toLowerCase(), {
+        name,
+        category: 'other',
+        lastIngestion: toIsoString(row[1]),
+        billableMB: roundMB(row[2]),
+        totalMB: roundMB(row[3]),
+        solutions: parseSolutions(row[4]),
+      });
+    }
+    onProgress?.(1, steps, `Read ingestion for ${tables.size} tables from Usage`);
+
+    if (workspace.resourceId) {
+      try {
+        const response = await this.backend.fetchManagement(
+          `https://management.azure.com${workspace.resourceId}/tables?api-version=${MANAGEMENT_API_VERSION}`,
+          { abortSignal }
+        );
+        if (!response.ok) {
+          throw new Error(`${response.status} ${response.statusText}`);
+        }
+        for (const table of response.body?.value || []) {
+          mergeMetadata(tables, table);
+        }
+        sources.push('management');
+      } catch (error) {
+        abortSignal?.throwIfAborted();
+        warnings.push(`Table metadata unavailable from the management plane: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    onProgress?.(2, steps, `Listed ${tables.size} tables`);
+
+    const since = hasDataSince ? parseSince(hasDataSince) : undefined;
+    const matching = [...tables.values()]
+      .map(table => ({ ...table, category: categorize(table) }))
+      .filter(table => !pattern || globMatches(pattern, table.name))
+      .filter(table => !category || table.category === category)
+      .filter(table => !since || (table.lastIngestion !== undefined && new Date(table.lastIngestion) >= since))
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    // Only the returned tables that ingested anything in the window are counted
+    const withData = matching.filter(table => table.lastIngestion);
+    if (includeRowEstimates) {
+      for (const table of matching) {
+        table.rowEstimate = 0;
+      }
+    }
+    if (includeRowEstimates && withData.length > 0) {
+      try {
+        const counts = await this.backend.queryWorkspace(
+          workspace.workspaceId,
+          `union withsource = TableName isfuzzy = true ${withData.map(table => `['${table.name}']`).join(', ')}
+| where TimeGenerated > ago(${lookbackDays}d)
+| summarize RowEstimate = count() by TableName`,
+          { duration: `P${lookbackDays}D` },
+          { abortSignal }
+        );
+        const estimates = new Map(successfulRows(counts, 'Failed to count rows').map(row => [String(row[0]), Number(row[1])]));
+        for (const table of withData) {
+          table.rowEstimate = estimates.get(table.name) ?? 0;
+        }
+      } catch (error) {
+        abortSignal?.throwIfAborted();
+        warnings.push(`Row estimates unavailable: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      onProgress?.(3, steps, `Estimated rows for ${withData.length} tables`);
+    }
+
+    return {
+      workspace: workspace.alias,
+      lookbackDays,
+      sources,
+      tables: matching,
+      count: matching.length,
+      warnings,
+    };
+  }
+}
+
+function successfulRows(result: LogsQueryResult, message: string): unknown[][] {
+  if (result.status !== 'Success' || !result.tables || result.tables.length === 0) {
+    throw new Error(message);
+  }
+  return result.tables[0].rows;
+}
+
+/**
+ * Add a table from the management-plane Tables API, or fill in the plan and
+ * retention of one already seen in Usage
+ */
+function mergeMetadata(tables: Map<string, TableInfo>, table: any): void {
+  const name: string | undefined = table?.name;
+  if (!name) {
+    return;
+  }
+  const properties = table.properties || {};
+  const existing = tables.get(name.toLowerCase()) || { name, category: 'other', billableMB: 0, totalMB: 0, solutions: [] };
+  const solutions: string[] = Array.isArray(properties.schema?.solutions) ? properties.schema.solutions : [];
+  const categories: string[] = Array.isArray(properties.schema?.categories) ? properties.schema.categories : [];
+
+  tables.set(name.toLowerCase(), {
+    ...existing,
+    solutions: [...new Set([...existing.solutions, ...solutions])].sort(),
+    categories,
+    plan: properties.plan,
+    retentionInDays: properties.retentionInDays,
+  });
+}
+
+function categorize(table: TableInfo): TableCategory {
+  const name = table.name.toLowerCase();
+  if (name.endsWith('_cl')) {
+    return 'custom';
+  }
+  if (SENTINEL_TABLES.has(name) || table.solutions.some(solution => SENTINEL_SOLUTIONS.has(solution.toLowerCase()))) {
+    return 'sentinel';
+  }
+  if (DIAGNOSTICS_TABLES.has(name) || table.categories?.some(category => category.toLowerCase() === 'azure resources')) {
+    return 'azure-diagnostics';
+  }
+  return 'other';
+}
+
+/**
+ * Solutions arrive as a dynamic array, or as its JSON text from recordings
+ */
+function parseSolutions(value: unknown): string[] {
+  let solutions = value;
+  if (typeof value === 'string') {
+    try {
+      solutions = JSON.parse(value);
+    } catch {
+      solutions = [value];
+    }
+  }
+  return Array.isArray(solutions) ? solutions.filter(Boolean).map(String).sort() : [];
+}
+
+function toIsoString(value: unknown): string | undefined {
+  if (value === null || value === undefined || value === '') {
+    return undefined;
+  }
+  const date = value instanceof Date ? value : new Date(String(value));
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function roundMB(value: unknown): number {
+  return Math.round(Number(value || 0) * 1000) / 1000;
+}
+
+/**
+ * A point in time from an ISO 8601 timestamp or a KQL timespan back from now
+ */
+function parseSince(value: string): Date {
+  const relative = /^(\d+)([dhm])$/.exec(value.trim());
+  if (relative) {
+    const unitMs = { d: 86400000, h: 3600000, m: 60000 }[relative[2] as 'd' | 'h' | 'm'];
+    return new Date(Date.now() - Number(relative[1]) * unitMs);
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`hasDataSince must be an ISO 8601 timestamp or a timespan such as 7d, got "${value}"`);
+  }
+  return date;
+}
@@ -0,0 +1,424 @@
+import type { SchemaDiscovery } from './SchemaDiscovery.js';
+import { normalizeKqlType } from './KqlTypes.js';
+import type { OperationOptions } from './Operation.js';
+
+export type PropertyNaming = 'original' | 'camel' | 'pascal';
+
+export interface TypeScriptTypesParams {
+  tableName: string;
+  workspace?: string;
+  typeName?: string;
+  naming?: PropertyNaming;
+  nullable?: boolean;
+  dates?: 'date' | 'string';
+  longs?: 'number' | 'bigint';
+  dynamic?: 'inferred' | 'unknown';
+  includeZod?: boolean;
+}
+
+export interface GeneratedProperty {
+  [key: string]: unknown;
+  column: string;
+  property: string;
+  kqlType: string;
+  tsType: string;
+}
+
+export interface TypeScriptTypesResult {
+  [key: string]: unknown;
+  tableName: string;
+  workspace: string;
+  typeName: string;
+  properties: GeneratedProperty[];
+  inferredDynamicColumns: string[];
+  code: string;
+}
+
+type TypeNode =
+  | { kind: 'primitive'; name: 'string' | 'number' | 'bigint' | 'boolean' | 'Date' | 'null' | 'unknown' }
+  | { kind: 'literal'; value: string }
+  | { kind: 'record' }
+  | { kind: 'array'; element: TypeNode }
+  | { kind: 'union'; members: TypeNode[] }
+  | { kind: 'object'; fields: Array<{ name: string; type: TypeNode; optional: boolean }> };
+
+type Converter = 'asString' | 'asNumber' | 'asBigInt' | 'asBoolean' | 'asDate' | 'asIsoString' | 'asDynamic';
+
+interface ColumnPlan {
+  column: string;
+  property: string;
+  kqlType: string;
+  type: TypeNode;
+  converter?: Converter;
+  alias?: string;
+}
+
+type JsonFieldSchema = NonNullable<Awaited<ReturnType<SchemaDiscovery['getCachedJsonFieldSchema']>>>;
+
+// Runtime helpers emitted into the generated code, only when a column needs them
+const CONVERTERS: Record<Converter, string> = {
+  asString: `function asString(value: unknown): string | null {
+  return value === null || value === undefined ? null : String(value);
+}`,
+  asNumber: `function asNumber(value: unknown): number | null {
+  return value === null || value === undefined || value === '' ? null : Number(value);
+}`,
+  asBigInt: `function asBigInt(value: unknown): bigint | null {
+  if (value === null || value === undefined || value === '') return null;
+  return typeof value === 'bigint' ? value : BigInt(typeof value === 'number' ? Math.trunc(value) : String(value));
+}`,
+  asBoolean: `function asBoolean(value: unknown): boolean | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'string') return value.toLowerCase() === 'true';
+  return Boolean(value);
+}`,
+  asDate: `function asDate(value: unknown): Date | null {
+  if (value === null || value === undefined || value === '') return null;
+  return value instanceof Date ? value : new Date(String(value));
+}`,
+  asIsoString: `function asIsoString(value: unknown): string | null {
+  if (value === null || value === undefined || value === '') return null;
+  return value instanceof Date ? value.toISOString() : String(value);
+}`,
+  asDynamic: `function asDynamic(value: unknown): unknown {
+  if (typeof value !== 'string') return value ?? null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}`,
+};
+
+export class TypeGeneration {
+  private schemaDiscovery: SchemaDiscovery;
+
+  constructor(schemaDiscovery: SchemaDiscovery) {
+    this.schemaDiscovery = schemaDiscovery;
+  }
+
+  /**
+   * Generate a TypeScript interface, zod schema and columnDescriptors-based
+   * row mapper for a table. Dynamic columns get a nested type when
+   * analyze_json_field_schema has a cached analysis for them.
+   */
+  async generateTypeScriptTypes(params: TypeScriptTypesParams, options: OperationOptions = {}): Promise<TypeScriptTypesResult> {
+    const {
+      tableName,
+      workspace,
+      naming = 'camel',
+      nullable = true,
+      dates = 'date',
+      longs = 'number',
+      dynamic = 'inferred',
+      includeZod = true,
+    } = params;
+    const typeName = params.typeName || `${toIdentifier(tableName, 'pascal')}Row`;
+
+    const schema = await this.schemaDiscovery.getTableSchema(tableName, workspace, options);
+    const columns = [...schema.columns].sort((a, b) => a.ordinal - b.ordinal);
+
+    const usedNames = new Set<string>();
+    const plans: ColumnPlan[] = [];
+    const inferredDynamicColumns: string[] = [];
+
+    for (const column of columns) {
+      const kqlType = normalizeKqlType(column.type);
+      const plan: ColumnPlan = {
+        column: column.name,
+        property: uniqueName(toIdentifier(column.name, naming), usedNames),
+        kqlType,
+        ...mapKqlType(kqlType, dates, longs),
+      };
+
+      if (kqlType === 'dynamic' && dynamic === 'inferred') {
+        const analysis = await this.schemaDiscovery.getCachedJsonFieldSchema(tableName, column.name, workspace);
+        const nested = analysis ? inferDynamicType(analysis) : null;
+        if (nested) {
+          plan.type = nested;
+          plan.alias = `${typeName}${toIdentifier(column.name, 'pascal')}`;
+          inferredDynamicColumns.push(column.name);
+        }
+      }
+
+      plans.push(plan);
+    }
+
+    const code = renderModule(tableName, schema.workspace, typeName, plans, { nullable, includeZod });
+
+    return {
+      tableName,
+      workspace: schema.workspace,
+      typeName,
+      properties: plans.map(plan => ({
+        column: plan.column,
+        property: plan.property,
+        kqlType: plan.kqlType,
+        tsType: withNull(plan.alias || renderType(plan.type, ''), nullable),
+      })),
+      inferredDynamicColumns,
+      code,
+    };
+  }
+}
+
+/**
+ * Map a KQL scalar type to a TypeScript type and the converter that produces it
+ */
+function mapKqlType(
+  kqlType: string,
+  dates: 'date' | 'string',
+  longs: 'number' | 'bigint'
+): { type: TypeNode; converter?: Converter } {
+  switch (kqlType) {
+    case 'string':
+    case 'guid':
+    case 'timespan':
+      return { type: { kind: 'primitive', name: 'string' }, converter: 'asString' };
+    case 'int':
+    case 'real':
+    case 'decimal':
+      return { type: { kind: 'primitive', name: 'number' }, converter: 'asNumber' };
+    case 'long':
+      return longs === 'bigint'
+        ? { type: { kind: 'primitive', name: 'bigint' }, converter: 'asBigInt' }
+        : { type: { kind: 'primitive', name: 'number' }, converter: 'asNumber' };
+    case 'bool':
+      return { type: { kind: 'primitive', name: 'boolean' }, converter: 'asBoolean' };
+    case 'datetime':
+      return dates === 'date'
+        ? { type: { kind: 'primitive', name: 'Date' }, converter: 'asDate' }
+        : { type: { kind: 'primitive', name: 'string' }, converter: 'asIsoString' };
+    case 'dynamic':
+      return { type: { kind: 'primitive', name: 'unknown' }, converter: 'asDynamic' };
+    default:
+      return { type: { kind: 'primitive', name: 'unknown' } };
+  }
+}
+
+/**
+ * Build a nested type from a cached JSON field analysis. Field names keep
+ * their original spelling because the mapper passes dynamic values through.
+ */
+function inferDynamicType(analysis: JsonFieldSchema): TypeNode | null {
+  const members: TypeNode[] = [];
+
+  for (const structure of analysis.commonStructures) {
+    if (structure.entityType === '(scalar)') {
+      const value = structure.fields.value;
+      if (value) members.push(fromObservedType(value.type));
+      continue;
+    }
+
+    const fields = Object.entries(structure.fields).map(([name, field]) => ({
+      name,
+      type: name === analysis.discriminator && structure.entityType !== '(none)'
+        ? { kind: 'literal', value: structure.entityType } as TypeNode
+        : fromObservedType(field.type),
+      optional: field.frequency < structure.frequency,
+    }));
+    members.push({ kind: 'object', fields });
+  }
+
+  if (members.length === 0) return null;
+
+  const element = union(members);
+  if (analysis.baseType.startsWith('dynamic (array')) {
+    return { kind: 'array', element };
+  }
+  if (analysis.baseType.startsWith('dynamic (mixed') && analysis.baseType.includes('array')) {
+    return union([element, { kind: 'array', element }]);
+  }
+  return element;
+}
+
+/**
+ * Convert an observed value type from the JSON field analysis (e.g. "string (GUID) | null")
+ */
+function fromObservedType(observed: string): TypeNode {
+  return union(observed.split(' | ').map((part): TypeNode => {
+    if (part.startsWith('string')) return { kind: 'primitive', name: 'string' };
+    if (part === 'number') return { kind: 'primitive', name: 'number' };
+    if (part === 'boolean') return { kind: 'primitive', name: 'boolean' };
+    if (part === 'null') return { kind: 'primitive', name: 'null' };
+    if (part === 'array') return { kind: 'array', element: { kind: 'primitive', name: 'unknown' } };
+    if (part === 'object') return { kind: 'record' };
+    return { kind: 'primitive', name: 'unknown' };
+  }));
+}
+
+function union(members: TypeNode[]): TypeNode {
+  const unique = new Map<string, TypeNode>();
+  for (const member of members) {
+    const flattened = member.kind === 'union' ? member.members : [member];
+    for (const node of flattened) unique.set(renderType(node, ''), node);
+  }
+  const nodes = [...unique.values()];
+  return nodes.length === 1 ? nodes[0] : { kind: 'union', members: nodes };
+}
+
+function renderType(node: TypeNode, indent: string): string {
+  switch (node.kind) {
+    case 'primitive':
+      return node.name;
+    case 'literal':
+      return quote(node.value);
+    case 'record':
+      return 'Record<string, unknown>';
+    case 'array': {
+      const element = renderType(node.element, indent);
+      return node.element.kind === 'union' ? `Array<${element}>` : `${element}[]`;
+    }
+    case 'union':
+      return node.members.map(member => renderType(member, indent)).join(' | ');
+    case 'object': {
+      if (node.fields.length === 0) return 'Record<string, unknown>';
+      const inner = `${indent}  `;
+      const fields = node.fields.map(field =>
+        `${inner}${propertyKey(field.name)}${field.optional ? '?' : ''}: ${renderType(field.type, inner)};`
+      );
+      return `{\n${fields.join('\n')}\n${indent}}`;
+    }
+  }
+}
+
+function renderZod(node: TypeNode, indent: string): string {
+  switch (node.kind) {
+    case 'primitive':
+      return node.name === 'Date' ? 'z.date()' : `z.${node.name}()`;
+    case 'literal':
+      return `z.literal(${quote(node.value)})`;
+    case 'record':
+      return 'z.record(z.unknown())';
+    case 'array':
+      return `z.array(${renderZod(node.element, indent)})`;
+    case 'union':
+      return `z.union([${node.members.map(member => renderZod(member, indent)).join(', ')}])`;
+    case 'object': {
+      if (node.fields.length === 0) return 'z.record(z.unknown())';
+      const inner = `${indent}  `;
+      const fields = node.fields.map(field =>
+        `${inner}${propertyKey(field.name)}: ${renderZod(field.type, inner)}${field.optional ? '.optional()' : ''},`
+      );
+      // Inferred from a sample, so tolerate fields that were not seen
+      return `z.object({\n${fields.join('\n')}\n${indent}}).passthrough()`;
+    }
+  }
+}
+
+function renderModule(
+  tableName: string,
+  workspace: string,
+  typeName: string,
+  plans: ColumnPlan[],
+  options: { nullable: boolean; includeZod: boolean }
+): string {
+  const { nullable, includeZod } = options;
+  const schemaName = `${typeName}Schema`;
+  const sections: string[] = [];
+
+  const imports = [];
+  if (includeZod) imports.push(`import { z } from 'zod';`);
+  imports.push(`import type { LogsColumn } from '@azure/monitor-query';`);
+  sections.push(`// Types for ${tableName} (workspace: ${workspace}, ${plans.length} columns)\n${imports.join('\n')}`);
+
+  for (const plan of plans.filter(plan => plan.alias)) {
+    sections.push(`/** Inferred from sampled values of ${plan.column} */\nexport type ${plan.alias} = ${renderType(plan.type, '')};`);
+  }
+
+  const members = plans.map(plan =>
+    `  /** ${plan.column} (${plan.kqlType}) */\n  ${propertyKey(plan.property)}: ${withNull(plan.alias || renderType(plan.type, '  '), nullable)};`
+  );
+  sections.push(`export interface ${typeName} {\n${members.join('\n')}\n}`);
+
+  if (includeZod) {
+    for (const plan of plans.filter(plan => plan.alias)) {
+      sections.push(`export const ${plan.alias}Schema = ${renderZod(plan.type, '')};`);
+    }
+    const fields = plans.map(plan => {
+      const zod = plan.alias ? `${plan.alias}Schema` : renderZod(plan.type, '  ');
+      return `  ${propertyKey(plan.property)}: ${zod}${nullable && !isUnknown(plan) ? '.nullable()' : ''},`;
+    });
+    sections.push(`export const ${schemaName} = z.object({\n${fields.join('\n')}\n});`);
+  }
+
+  const converters = new Set(plans.map(plan => plan.converter).filter((c): c is Converter => c !== undefined));
+  for (const converter of Object.keys(CONVERTERS) as Converter[]) {
+    if (converters.has(converter)) sections.push(CONVERTERS[converter]);
+  }
+
+  const assignments = plans.map(plan => {
+    const read = `get(row, ${quote(plan.column)})`;
+    return `    ${propertyKey(plan.property)}: ${plan.converter ? `${plan.converter}(${read})` : read},`;
+  });
+  const body = includeZod
+    ? `  return row => ${schemaName}.parse({\n${assignments.join('\n')}\n  }) as ${typeName};`
+    : `  return row => ({\n${assignments.join('\n')}\n  }) as ${typeName};`;
+  sections.push(`/**
+ * Map rows to ${typeName} by column name (from the table's columnDescriptors),
+ * so the mapping does not depend on column order
+ */
+export function create${typeName}Mapper(columns: LogsColumn[]): (row: unknown[]) => ${typeName} {
+  const ordinals = new Map(columns.map((column, index) => [column.name, index]));
+  const get = (row: unknown[], name: string): unknown => {
+    const index = ordinals.get(name);
+    return index === undefined ? null : row[index];
+  };
+${body}
+}
+
+// Usage:
+// const table = result.tables[0];
+// const rows = table.rows.map(create${typeName}Mapper(table.columnDescriptors));`);
+
+  return sections.join('\n\n');
+}
+
+function withNull(type: string, nullable: boolean): string {
+  if (!nullable || type === 'unknown') return type;
+  return type.includes('\n') || type.includes(' | ') ? `(${type}) | null` : `${type} | null`;
+}
+
+/**
+ * Convert a column or table name to a property or type name in the requested style
+ */
+function toIdentifier(name: string, naming: PropertyNaming): string {
+  if (naming === 'original') return name;
+
+  const words = name.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  if (words.length === 0) return '_';
+
+  const joined = words
+    .map((word, index) => {
+      if (naming === 'camel' && index === 0) {
+        // Lower a leading capital run, keeping the start of the next word (OSType -> osType)
+        const run = /^[A-Z]+/.exec(word)?.[0] || '';
+        const keep = run.length > 1 && /[a-z]/.test(word.charAt(run.length)) ? 1 : 0;
+        return run.slice(0, run.length - keep).toLowerCase() + word.slice(run.length - keep);
+      }
+      return word[0].toUpperCase() + word.slice(1);
+    })
+    .join('');
+  return /^\d/.test(joined) ? `_${joined}` : joined;
+}
+
+function uniqueName(name: string, used: Set<string>): string {
+  let candidate = name;
+  for (let suffix = 2; used.has(candidate); suffix++) {
+    candidate = `${name}${suffix}`;
+  }
+  used.add(candidate);
+  return candidate;
+}
+
+function isUnknown(plan: ColumnPlan): boolean {
+  return !plan.alias && plan.type.kind === 'primitive' && plan.type.name === 'unknown';
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function propertyKey(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : quote(name);
+}
@@ -0,0 +1,58 @@
+import type { Config, WorkspaceConfig } from '../config.js';
+
+export interface ResolvedWorkspace {
+  [key: string]: unknown;
+  alias: string;
+  workspaceId: string;
+  resourceId?: string;
+  description?: string;
+  isDefault: boolean;
+  registered: boolean;
+}
+
+const GUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Named Log Analytics workspaces, resolvable by alias or workspace ID
+ */
+export class WorkspaceRegistry {
+  private workspaces: WorkspaceConfig[];
+
+  constructor(config: Config) {
+    this.workspaces = config.workspaces;
+  }
+
+  /**
+   * List all registered workspaces
+   */
+  list(): ResolvedWorkspace[] {
+    return this.workspaces.map(w => ({ ...w, registered: true }));
+  }
+
+  /**
+   * Resolve an alias or workspace ID (case-insensitive) to a workspace.
+   * Omitting it selects the default workspace; unregistered GUIDs are allowed.
+   */
+  resolve(workspace?: string): ResolvedWorkspace {
+    if (!workspace) {
+      const defaultWorkspace = this.workspaces.find(w => w.isDefault) || this.workspaces[0];
+      return { ...defaultWorkspace, registered: true };
+    }
+
+    const needle = workspace.trim().toLowerCase();
+    const match = this.workspaces.find(
+      w => w.alias.toLowerCase() === needle || w.workspaceId.toLowerCase() === needle
+    );
+    if (match) {
+      return { ...match, registered: true };
+    }
+
+    if (GUID_PATTERN.test(needle)) {
+      return { alias: workspace, workspaceId: workspace, isDefault: false, registered: false };
+    }
+
+    throw new Error(
+      `Unknown workspace "${workspace}". Known workspaces: ${this.workspaces.map(w => w.alias).join(', ')}`
+    );
+  }
+}
@@ -0,0 +1,216 @@
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import { createServer } from 'http';
+import type { IncomingMessage, Server, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { HttpConfig } from '../config.js';
+
+export const MCP_PATH = '/mcp';
+export const HEALTH_PATH = '/health';
+
+// Largest JSON-RPC request body accepted when opening a session
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+interface Session {
+  server: McpServer;
+  transport: StreamableHTTPServerTransport;
+  lastSeen: number;
+}
+
+/**
+ * Serves MCP over Streamable HTTP, one McpServer per session. Every request
+ * to the MCP endpoint must carry one of the configured bearer tokens or API
+ * keys; the health endpoint is open so load balancers can probe it.
+ */
+export class HttpServer {
+  private config: HttpConfig;
+  private createMcpServer: () => McpServer;
+  private sessions: Map<string, Session> = new Map();
+  private httpServer: Server;
+  private idleSweep?: NodeJS.Timeout;
+  private startedAt = Date.now();
+
+  constructor(config: HttpConfig, createMcpServer: () => McpServer) {
+    this.config = config;
+    this.createMcpServer = createMcpServer;
+    this.httpServer = createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        console.error('HTTP request failed:', error);
+        if (!res.headersSent) {
+          sendJsonRpcError(res, 500, -32603, 'Internal server error');
+        }
+      });
+    });
+  }
+
+  /**
+   * Start listening; resolves with the bound address (the port is assigned when configured as 0)
+   */
+  async listen(): Promise<{ host: string; port: number }> {
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer.once('error', reject);
+      this.httpServer.listen(this.config.port, this.config.host, () => {
+        this.httpServer.off('error', reject);
+        resolve();
+      });
+    });
+
+    // Sessions whose client went away without a DELETE are closed once idle
+    this.idleSweep = setInterval(() => this.closeIdleSessions(), Math.min(this.config.sessionIdleTimeout, 60) * 1000);
+    this.idleSweep.unref();
+
+    const address = this.httpServer.address() as AddressInfo;
+    return { host: this.config.host, port: address.port };
+  }
+
+  /**
+   * Close every session and stop accepting connections
+   */
+  async close(): Promise<void> {
+    clearInterval(this.idleSweep);
+    await Promise.all([...this.sessions.values()].map(session => session.transport.close()));
+    this.sessions.clear();
+    this.httpServer.closeAllConnections();
+    await new Promise<void>(resolve => this.httpServer.close(() => resolve()));
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+
+    if (pathname === HEALTH_PATH && req.method === 'GET') {
+      sendJson(res, 200, {
+        status: 'ok',
+        sessions: this.sessions.size,
+        uptimeSeconds: Math.round((Date.now() - this.startedAt) / 1000),
+      });
+      return;
+    }
+
+    if (pathname !== MCP_PATH) {
+      sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    if (!this.isAuthorized(req)) {
+      if (this.config.auth === 'bearer') {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+      }
+      sendJsonRpcError(res, 401, -32001, this.config.auth === 'bearer'
+        ? 'Unauthorized: send an Authorization: Bearer <token> header'
+        : 'Unauthorized: send an X-API-Key header');
+      return;
+    }
+
+    const sessionId = req.headers['mcp-session-id'];
+    if (typeof sessionId === 'string') {
+      const session = this.sessions.get(sessionId);
+      if (!session) {
+        sendJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      session.lastSeen = Date.now();
+      await session.transport.handleRequest(req, res);
+      return;
+    }
+
+    if (req.method !== 'POST') {
+      sendJsonRpcError(res, 400, -32000, 'Bad request: no Mcp-Session-Id header');
+      return;
+    }
+
+    let body: unknown;
+    try {
+      body = await readJsonBody(req);
+    } catch (error) {
+      sendJsonRpcError(res, 400, -32700, `Parse error: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+    if (!isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, 'Bad request: send an initialize request to open a session');
+      return;
+    }
+
+    await this.openSession(req, res, body);
+  }
+
+  private async openSession(req: IncomingMessage, res: ServerResponse, body: unknown): Promise<void> {
+    const server = this.createMcpServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: sessionId => {
+        this.sessions.set(sessionId, { server, transport, lastSeen: Date.now() });
+        console.error(`MCP session ${sessionId} opened (${this.sessions.size} active)`);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId && this.sessions.delete(transport.sessionId)) {
+        console.error(`MCP session ${transport.sessionId} closed (${this.sessions.size} active)`);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+    if (!transport.sessionId) {
+      // The initialize request was rejected; nothing will use this server again
+      await server.close();
+    }
+  }
+
+  private closeIdleSessions(): void {
+    const cutoff = Date.now() - this.config.sessionIdleTimeout * 1000;
+    for (const [sessionId, session] of this.sessions) {
+      if (session.lastSeen < cutoff) {
+        console.error(`Closing idle MCP session ${sessionId}`);
+        session.transport.close().catch(error => console.error(`Failed to close session ${sessionId}:`, error));
+      }
+    }
+  }
+
+  private isAuthorized(req: IncomingMessage): boolean {
+    if (this.config.auth === 'none') {
+      return true;
+    }
+
+    let presented: string | undefined;
+    if (this.config.auth === 'bearer') {
+      const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || '');
+      presented = match?.[1].trim();
+    } else {
+      const header = req.headers['x-api-key'];
+      presented = typeof header === 'string' ? header.trim() : undefined;
+    }
+
+    return presented !== undefined && this.config.tokens.some(token => secretsEqual(presented!, token));
+  }
+}
+
+/**
+ * Compare secrets in constant time; hashing first makes the lengths equal
+ */
+function secretsEqual(a: string, b: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(a), digest(b));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error(`request body is larger than ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code, message }, id: null });
+}
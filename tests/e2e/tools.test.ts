@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeAll, afterAll } from 'vitest';
 import { spawn, ChildProcess } from 'child_process';
 import { join } from 'path';
+import { serverEnv } from '../helpers/server-env.js';
 
 /**
  * End-to-end tests for all MCP tools
@@ -15,6 +16,7 @@ describe('MCP Tools End-to-End', () => {
     serverProcess = spawn('node', [serverPath], {
       stdio: ['pipe', 'pipe', 'pipe'],
       cwd: process.cwd(),
+      env: serverEnv(),
     });
     await new Promise(resolve => setTimeout(resolve, 2000));
   });
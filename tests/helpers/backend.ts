@@ -0,0 +1,33 @@
+import { vi, type Mock } from 'vitest';
+import { LogsQueryResultStatus } from '@azure/monitor-query';
+import type { LogsColumn, LogsQuerySuccessfulResult, LogsTable } from '@azure/monitor-query';
+import type { AzureBackend, GraphResponse } from '../../src/backend/AzureBackend.js';
+
+/** An AzureBackend whose methods are vi.fn() mocks */
+export type MockBackend = { [K in keyof AzureBackend]: Mock<AzureBackend[K]> };
+
+/**
+ * A backend for unit tests. Methods without an implementation return an empty
+ * query result or an empty 200 response.
+ */
+export function createMockBackend(implementations: Partial<AzureBackend> = {}): MockBackend {
+  return {
+    queryWorkspace: vi.fn(implementations.queryWorkspace ?? (async () => queryResult([]))),
+    fetchGraph: vi.fn(implementations.fetchGraph ?? (async () => graphResponse(null))),
+    fetchManagement: vi.fn(implementations.fetchManagement ?? (async () => graphResponse(null))),
+  };
+}
+
+/** A successful query result with a single PrimaryResult table */
+export function queryResult(rows: unknown[][], columnDescriptors: LogsColumn[] = []): LogsQuerySuccessfulResult {
+  return { status: LogsQueryResultStatus.Success, tables: [logsTable('PrimaryResult', rows, columnDescriptors)] };
+}
+
+/** A result table; rows hold whatever the SDK would have parsed, including arrays for dynamic columns */
+export function logsTable(name: string, rows: unknown[][], columnDescriptors: LogsColumn[] = []): LogsTable {
+  return { name, columnDescriptors, rows: rows as LogsTable['rows'] };
+}
+
+export function graphResponse(body: unknown, status = 200, statusText = 'OK'): GraphResponse {
+  return { ok: status >= 200 && status < 300, status, statusText, body };
+}
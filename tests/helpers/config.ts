@@ -0,0 +1,39 @@
+import { mkdirSync, mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { Config } from '../../src/config.js';
+
+export const TEST_WORKSPACE_ID = 'test-workspace-id';
+
+/**
+ * A complete Config for unit tests, with one default workspace, no query policy
+ * rules and a fresh schema cache directory. Overrides replace whole top-level fields.
+ */
+export function createTestConfig(overrides: Partial<Config> = {}): Config {
+  const root = mkdtempSync(join(tmpdir(), 'azure-schema-mcp-test-'));
+  const schemaCacheDir = join(root, 'schemas');
+  mkdirSync(schemaCacheDir);
+
+  const workspaceId = overrides.workspaceId ?? TEST_WORKSPACE_ID;
+
+  return {
+    tenantId: 'test-tenant-id',
+    workspaceId,
+    workspaces: [{ alias: 'default', workspaceId, isDefault: true }],
+    tokenCacheDir: join(root, 'tokens'),
+    schemaCacheDir,
+    schemaCacheTtl: { kql: 3600, graph: 3600 },
+    tokenCachePersistence: false,
+    authStrategy: 'default',
+    backendMode: 'live',
+    fixtureDir: join(root, 'fixtures'),
+    querySearchPaths: [root],
+    graphSampleBudget: { maxRecords: 500, maxPages: 5 },
+    exportDir: join(root, 'exports'),
+    queryPolicy: { deniedOperators: [], deniedTables: [] },
+    toolTimeouts: { default: 120, tools: {} },
+    transport: 'stdio',
+    http: { host: '127.0.0.1', port: 3000, auth: 'bearer', tokens: [], sessionIdleTimeout: 1800 },
+    ...overrides,
+  };
+}
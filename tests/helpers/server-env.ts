@@ -0,0 +1,32 @@
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+/** Recorded fixtures for a synthetic workspace, used in replay mode unless FIXTURE_DIR points elsewhere */
+export const REPLAY_FIXTURE_DIR = join(process.cwd(), 'tests', 'fixtures', 'replay');
+
+// The tenant and workspace the fixtures in REPLAY_FIXTURE_DIR were recorded against
+const REPLAY_TENANT_ID = '00000000-0000-0000-0000-000000000000';
+const REPLAY_WORKSPACE_ID = '11111111-1111-1111-1111-111111111111';
+
+export const isReplay = process.env.AZURE_BACKEND_MODE === 'replay';
+
+/**
+ * Environment for a spawned server. With AZURE_BACKEND_MODE=replay and no
+ * FIXTURE_DIR, the server replays the committed fixtures against the workspace
+ * they were recorded for, with an empty schema cache so every request is replayed.
+ */
+export function serverEnv(): NodeJS.ProcessEnv {
+  if (!isReplay || process.env.FIXTURE_DIR) {
+    return process.env;
+  }
+  return {
+    ...process.env,
+    FIXTURE_DIR: REPLAY_FIXTURE_DIR,
+    AZURE_TENANT_ID: REPLAY_TENANT_ID,
+    AZURE_WORKSPACE_ID: REPLAY_WORKSPACE_ID,
+    AZURE_WORKSPACES: '',
+    AZURE_WORKSPACE_RESOURCE_ID: '',
+    SCHEMA_CACHE_DIR: mkdtempSync(join(tmpdir(), 'azure-schema-mcp-replay-')),
+  };
+}
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeAll, afterAll } from 'vitest';
 import { spawn, ChildProcess } from 'child_process';
 import { join } from 'path';
+import { serverEnv } from '../helpers/server-env.js';
 
 /**
  * Integration tests for the MCP server
@@ -16,6 +17,7 @@ describe('MCP Server Integration', () => {
     serverProcess = spawn('node', [serverPath], {
       stdio: ['pipe', 'pipe', 'pipe'],
       cwd: process.cwd(),
+      env: serverEnv(),
     });
 
     // Wait for server to initialize
@@ -73,27 +75,56 @@ describe('MCP Server Integration', () => {
   };
 
   describe('Tool Registration', () => {
-    it('should list all 10 registered tools', async () => {
+    it('should list all 19 registered tools', async () => {
       const result = await sendRequest('tools/list', {});
       
       expect(result).toBeDefined();
       expect(result.tools).toBeDefined();
-      expect(result.tools.length).toBe(10);
+      expect(result.tools.length).toBe(19);
       
       const toolNames = result.tools.map((t: any) => t.name);
       expect(toolNames).toContain('get_kql_table_schema');
       expect(toolNames).toContain('test_kql_query');
+      expect(toolNames).toContain('validate_kql_query');
       expect(toolNames).toContain('list_tables');
       expect(toolNames).toContain('get_graph_api_schema');
+      expect(toolNames).toContain('get_graph_entity_type');
       expect(toolNames).toContain('refresh_schema');
+      expect(toolNames).toContain('compare_schema');
+      expect(toolNames).toContain('compare_graph_versions');
       expect(toolNames).toContain('generate_sdk_code');
+      expect(toolNames).toContain('generate_typescript_types');
       expect(toolNames).toContain('generate_example_query');
       expect(toolNames).toContain('detect_table_workspace');
       expect(toolNames).toContain('find_working_query_examples');
       expect(toolNames).toContain('generate_graph_sdk_code');
+      expect(toolNames).toContain('list_code_templates');
+      expect(toolNames).toContain('analyze_json_field_schema');
+      expect(toolNames).toContain('list_workspaces');
+      expect(toolNames).toContain('auth_status');
     }, 60000); // Increase timeout for server startup
   });
 
+  describe('Resources and Prompts', () => {
+    it('should list the schema resource templates', async () => {
+      const result = await sendRequest('resources/templates/list', {});
+
+      const templates = result.resourceTemplates.map((t: any) => t.uriTemplate);
+      expect(templates).toContain('schema://kql/{workspace}/{table}');
+      expect(templates).toContain('schema://graph/{apiVersion}/{+endpoint}');
+    });
+
+    it('should list the schema prompts', async () => {
+      const result = await sendRequest('prompts/list', {});
+
+      const promptNames = result.prompts.map((p: any) => p.name);
+      expect(promptNames).toContain('investigate_table');
+      expect(promptNames).toContain('write_detection_query');
+      expect(promptNames).toContain('explain_table');
+      expect(promptNames).toContain('migrate_query_to_new_schema');
+    });
+  });
+
   describe('Code Generation Tools', () => {
     it('should generate SDK code', async () => {
       const result = await sendRequest('tools/call', {
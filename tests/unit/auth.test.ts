@@ -1,4 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { mkdtempSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { AuthManager } from '../../src/auth/AuthManager.js';
 import type { Config } from '../../src/config.js';
 
@@ -10,8 +13,21 @@ describe('AuthManager', () => {
     config = {
       tenantId: 'test-tenant-id',
       workspaceId: 'test-workspace-id',
+      workspaces: [{ alias: 'default', workspaceId: 'test-workspace-id', isDefault: true }],
       tokenCacheDir: './.cache/test',
       schemaCacheDir: './.cache/test/schemas',
+      schemaCacheTtl: { kql: 86400, graph: 604800 },
+      tokenCachePersistence: false,
+      authStrategy: 'default',
+      backendMode: 'live',
+      fixtureDir: './.cache/test/fixtures',
+      querySearchPaths: ['.'],
+      queryPolicy: { deniedOperators: [], deniedTables: [] },
+      toolTimeouts: { default: 120, tools: {} },
+      transport: 'stdio',
+      http: { host: '127.0.0.1', port: 3000, auth: 'bearer', tokens: [], sessionIdleTimeout: 1800 },
+      graphSampleBudget: { maxRecords: 500, maxPages: 5 },
+      exportDir: './.cache/test/exports',
     };
     authManager = new AuthManager(config);
   });
@@ -54,4 +70,71 @@ describe('AuthManager', () => {
       expect(() => new AuthManager(invalidConfig as Config)).not.toThrow();
     });
   });
+
+  describe('Token Store', () => {
+    let getToken: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      const tokenCacheDir = mkdtempSync(join(tmpdir(), 'azure-schema-mcp-'));
+      config = { ...config, tokenCacheDir };
+      authManager = new AuthManager(config);
+
+      let issued = 0;
+      getToken = vi.fn(async (scopes: string[]) => ({
+        token: `${scopes.join(',')}#${++issued}`,
+        expiresOnTimestamp: Date.now() + 60 * 60 * 1000,
+      }));
+      vi.spyOn(authManager as any, 'getCredential').mockResolvedValue({ getToken });
+    });
+
+    it('should keep separate tokens per resource', async () => {
+      const logAnalyticsToken = await authManager.getToken();
+      const graphToken = await authManager.getGraphToken();
+
+      expect(logAnalyticsToken).toContain('api.loganalytics.io');
+      expect(graphToken).toContain('graph.microsoft.com');
+      expect(await authManager.getToken()).toBe(logAnalyticsToken);
+      expect(await authManager.getGraphToken()).toBe(graphToken);
+      expect(getToken).toHaveBeenCalledTimes(2);
+    });
+
+    it('should treat scope order as irrelevant', async () => {
+      const first = await authManager.getToken(['scope-a', 'scope-b']);
+      const second = await authManager.getToken(['scope-b', 'scope-a']);
+
+      expect(second).toBe(first);
+      expect(getToken).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refresh tokens that are about to expire', async () => {
+      getToken.mockResolvedValueOnce({ token: 'short-lived', expiresOnTimestamp: Date.now() + 60 * 1000 });
+
+      expect(await authManager.getToken()).toBe('short-lived');
+      expect(authManager.isTokenExpiringSoon()).toBe(true);
+      expect(await authManager.getToken()).not.toBe('short-lived');
+      expect(authManager.isTokenExpiringSoon()).toBe(false);
+    });
+
+    it('should report token expiry per resource in the auth status', async () => {
+      await authManager.getToken();
+      await authManager.getGraphToken();
+
+      const status = await authManager.getAuthStatus();
+      expect(status.strategy).toBe('default');
+      expect(status.tokens.map(t => t.resource).sort()).toEqual([
+        'https://api.loganalytics.io',
+        'https://graph.microsoft.com',
+      ]);
+      expect(status.tokens.every(t => !t.expiringSoon)).toBe(true);
+    });
+
+    it('should persist every token in a single store file', async () => {
+      await authManager.getToken();
+      await authManager.getGraphToken();
+
+      const store = JSON.parse(readFileSync(join(config.tokenCacheDir, 'azure-tokens.json'), 'utf-8'));
+      expect(store.version).toBe(1);
+      expect(Object.keys(store.tokens)).toHaveLength(2);
+    });
+  });
 });
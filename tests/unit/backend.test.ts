@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FixtureStore } from '../../src/backend/FixtureStore.js';
+import { RecordingBackend } from '../../src/backend/RecordingBackend.js';
+import { ReplayBackend } from '../../src/backend/ReplayBackend.js';
+import { createMockBackend, graphResponse, queryResult, type MockBackend } from '../helpers/backend.js';
+
+describe('Record/Replay Backend', () => {
+  let fixtures: FixtureStore;
+  let live: MockBackend;
+
+  beforeEach(() => {
+    fixtures = new FixtureStore(mkdtempSync(join(tmpdir(), 'azure-schema-mcp-fixtures-')));
+    live = createMockBackend({
+      queryWorkspace: async (_workspaceId, query) => {
+        if (query.includes('NoSuchTable')) {
+          throw Object.assign(new Error("Failed to resolve table 'NoSuchTable'"), { code: 'BadArgumentError' });
+        }
+        return queryResult([[new Date('2025-11-19T10:30:00.000Z'), 'vm01']], [
+          { name: 'TimeGenerated', type: 'datetime' },
+          { name: 'Computer', type: 'string' },
+        ]);
+      },
+      fetchGraph: async () => graphResponse({ value: [{ id: '1' }] }),
+    });
+  });
+
+  it('should replay recorded query results without calling Azure', async () => {
+    const recorder = new RecordingBackend(live, fixtures);
+    await recorder.queryWorkspace('ws', 'Heartbeat | take 1', { duration: 'PT1H' });
+
+    const replay = new ReplayBackend(fixtures);
+    const result: any = await replay.queryWorkspace('ws', 'Heartbeat | take 1', { duration: 'PT1H' });
+
+    expect(result.status).toBe('Success');
+    expect(result.tables[0].rows[0][0]).toBeInstanceOf(Date);
+    expect(result.tables[0].rows[0][1]).toBe('vm01');
+    expect(live.queryWorkspace).toHaveBeenCalledTimes(1);
+  });
+
+  it('should replay recorded Graph responses', async () => {
+    const recorder = new RecordingBackend(live, fixtures);
+    await recorder.fetchGraph('https://graph.microsoft.com/v1.0/users?$top=2');
+
+    const replay = new ReplayBackend(fixtures);
+    const response = await replay.fetchGraph('https://graph.microsoft.com/v1.0/users?$top=2');
+
+    expect(response.ok).toBe(true);
+    expect(response.body.value).toEqual([{ id: '1' }]);
+  });
+
+  it('should replay recorded errors', async () => {
+    const recorder = new RecordingBackend(live, fixtures);
+    await expect(recorder.queryWorkspace('ws', 'NoSuchTable', { duration: 'PT1H' })).rejects.toThrow('NoSuchTable');
+
+    const replay = new ReplayBackend(fixtures);
+    await expect(replay.queryWorkspace('ws', 'NoSuchTable', { duration: 'PT1H' })).rejects.toMatchObject({
+      code: 'BadArgumentError',
+    });
+  });
+
+  it('should not record calls that were cancelled', async () => {
+    const controller = new AbortController();
+    vi.mocked(live.fetchGraph).mockImplementationOnce(async () => {
+      controller.abort();
+      throw new DOMException('This operation was aborted', 'AbortError');
+    });
+
+    const recorder = new RecordingBackend(live, fixtures);
+    await expect(recorder.fetchGraph('https://graph.microsoft.com/v1.0/users', { abortSignal: controller.signal }))
+      .rejects.toThrow('aborted');
+
+    const replay = new ReplayBackend(fixtures);
+    await expect(replay.fetchGraph('https://graph.microsoft.com/v1.0/users')).rejects.toThrow('No recorded fixture');
+  });
+
+  it('should replay timespans that run until now on a later day', async () => {
+    const startTime = new Date('2025-11-01T00:00:00.000Z');
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      vi.setSystemTime(new Date('2025-11-19T10:30:00.000Z'));
+      const recorder = new RecordingBackend(live, fixtures);
+      await recorder.queryWorkspace('ws', 'Heartbeat | take 1', { startTime, endTime: new Date() });
+
+      vi.setSystemTime(new Date('2025-12-24T08:00:00.000Z'));
+      const replay = new ReplayBackend(fixtures);
+      const result: any = await replay.queryWorkspace('ws', 'Heartbeat | take 1', { startTime, endTime: new Date() });
+      expect(result.tables[0].rows[0][1]).toBe('vm01');
+
+      // A fixed end time is still part of the match
+      await expect(replay.queryWorkspace('ws', 'Heartbeat | take 1', { startTime, endTime: new Date('2025-11-19T10:30:00.000Z') }))
+        .rejects.toThrow('No recorded fixture');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should fail clearly when no fixture was recorded', async () => {
+    const replay = new ReplayBackend(fixtures);
+    await expect(replay.queryWorkspace('ws', 'Heartbeat', { duration: 'PT1H' })).rejects.toThrow('No recorded fixture');
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { EXIT_FAILURE, EXIT_OK, EXIT_USAGE, runCli } from '../../src/cli.js';
+import { QueryPolicyError } from '../../src/services/QueryPolicy.js';
+import type { ServerServices } from '../../src/server.js';
+
+describe('CLI', () => {
+  let stdout: string[];
+  let stderr: string[];
+  let services: ServerServices;
+  let load: () => ServerServices;
+
+  const output = { out: (text: string) => stdout.push(text), err: (text: string) => stderr.push(text) };
+  const run = (...argv: string[]) => runCli(argv, output, load);
+
+  beforeEach(() => {
+    stdout = [];
+    stderr = [];
+    services = {
+      schemaDiscovery: {
+        getTableSchema: vi.fn(async (tableName: string) => ({
+          tableName,
+          workspace: 'default',
+          columns: [{ name: 'TimeGenerated', type: 'datetime' }, { name: 'Computer', type: 'string' }],
+          cached: true,
+        })),
+        refreshSchema: vi.fn(async () => ({})),
+        testQuery: vi.fn(async () => ({
+          status: 'Success',
+          timespan: { duration: 'PT1H' },
+          columns: [{ name: 'Computer', type: 'string' }],
+          rows: [['web-1'], ['web-2']],
+          rowCount: 2,
+          truncated: false,
+        })),
+        listCachedSchemas: vi.fn(async () => [
+          { key: 'table:default:Heartbeat', sourceType: 'kql', cachedAt: '2026-01-01T00:00:00.000Z', expiresAt: '2000-01-01T00:00:00.000Z' },
+        ]),
+        clearCache: vi.fn(async () => 3),
+        describeTables: vi.fn(async () => ({ workspace: 'default', lookbackDays: 90, tables: [], count: 0, warnings: [] })),
+      },
+      codeGeneration: {
+        generateSDKCode: vi.fn(async () => 'export async function queryHeartbeat() {}'),
+      },
+      operations: { timeoutFor: vi.fn(() => 120) },
+    } as unknown as ServerServices;
+    load = vi.fn(() => services);
+  });
+
+  it('should print usage without loading any configuration', async () => {
+    expect(await run('--help')).toBe(EXIT_OK);
+    expect(stdout.join('\n')).toContain('graph-schema <endpoint>');
+
+    expect(await run('schema', '--help')).toBe(EXIT_OK);
+    expect(stdout.at(-1)).toContain('Usage: azure-schema-mcp schema <table>');
+    expect(load).not.toHaveBeenCalled();
+  });
+
+  it('should exit with the usage code for unknown commands, options and missing arguments', async () => {
+    expect(await run('frobnicate')).toBe(EXIT_USAGE);
+    expect(await run('schema', '--colour')).toBe(EXIT_USAGE);
+    expect(await run('schema')).toBe(EXIT_USAGE);
+    expect(await run('query', 'Heartbeat', '--format', 'xml')).toBe(EXIT_USAGE);
+    expect(await run('cache', 'purge')).toBe(EXIT_USAGE);
+    expect(await run('tables', '--lookback-days', '1.5')).toBe(EXIT_USAGE);
+    expect(await run('tables', '--lookback-days', '0x10')).toBe(EXIT_USAGE);
+    expect(await run('tables', '--lookback-days', '91')).toBe(EXIT_USAGE);
+
+    expect(stderr[1]).toContain("Unknown option '--colour'");
+    expect(stderr[2]).toContain('Missing <table>');
+    expect(stderr[3]).toContain('--format must be one of: json, records, markdown, csv, jsonl');
+    expect(stderr[5]).toContain('--lookback-days must be a positive integer');
+    expect(stderr[6]).toContain('--lookback-days must be a positive integer');
+    expect(stderr[7]).toContain('--lookback-days must be at most 90');
+    expect(services.schemaDiscovery.testQuery).not.toHaveBeenCalled();
+
+    expect(await run('tables', '--lookback-days', '90')).toBe(EXIT_OK);
+    expect(services.schemaDiscovery.describeTables).toHaveBeenCalledOnce();
+    expect(vi.mocked(services.schemaDiscovery.describeTables).mock.calls[0][0]).toMatchObject({ lookbackDays: 90 });
+  });
+
+  it('should print a table schema as text or JSON', async () => {
+    expect(await run('schema', 'Heartbeat', '-w', 'default', '--refresh')).toBe(EXIT_OK);
+    expect(services.schemaDiscovery.refreshSchema).toHaveBeenCalledWith('Heartbeat', 'default', undefined, expect.anything());
+    expect(stdout.join('\n')).toContain('TimeGenerated  datetime');
+
+    stdout = [];
+    expect(await run('schema', 'Heartbeat', '--json')).toBe(EXIT_OK);
+    expect(JSON.parse(stdout[0])).toMatchObject({ tableName: 'Heartbeat', columns: [{ name: 'TimeGenerated' }, { name: 'Computer' }] });
+  });
+
+  it('should run a query and print it in the requested format', async () => {
+    expect(await run('query', 'Heartbeat | project Computer', '--format', 'csv', '--max-rows', '5', '--timespan', '1d')).toBe(EXIT_OK);
+
+    expect(services.schemaDiscovery.testQuery).toHaveBeenCalledWith(expect.objectContaining({
+      query: 'Heartbeat | project Computer',
+      maxRows: 5,
+      timespan: { duration: '1d', start: undefined, end: undefined },
+    }), { abortSignal: expect.any(AbortSignal) });
+    expect(stdout[0]).toBe('Computer\nweb-1\nweb-2');
+    expect(services.operations.timeoutFor).toHaveBeenCalledWith('test_kql_query');
+  });
+
+  it('should exit with the failure code for partial results, blocked queries and errors', async () => {
+    vi.mocked(services.schemaDiscovery.testQuery).mockResolvedValueOnce({
+      status: 'PartialFailure',
+      timespan: { duration: 'PT1H' },
+      columns: [],
+      rows: [],
+      rowCount: 0,
+      truncated: false,
+      error: { code: 'PartialError', message: 'Query exceeded the memory limit' },
+    } as any);
+    expect(await run('query', 'Heartbeat')).toBe(EXIT_FAILURE);
+    expect(stderr.at(-1)).toContain('Query exceeded the memory limit');
+
+    vi.mocked(services.schemaDiscovery.testQuery).mockRejectedValueOnce(
+      new QueryPolicyError([{ rule: 'deniedOperator', message: 'externaldata is not allowed' }] as any)
+    );
+    expect(await run('query', 'externaldata')).toBe(EXIT_FAILURE);
+    expect(stderr.at(-1)).toContain('- deniedOperator: externaldata is not allowed');
+
+    vi.mocked(services.schemaDiscovery.getTableSchema).mockRejectedValueOnce(new Error('Table Nope not found'));
+    expect(await run('schema', 'Nope')).toBe(EXIT_FAILURE);
+    expect(stderr.at(-1)).toBe('Error: Table Nope not found');
+  });
+
+  it('should generate code for the chosen framework', async () => {
+    expect(await run('codegen', 'Heartbeat', '--framework', 'node')).toBe(EXIT_OK);
+
+    expect(services.codeGeneration.generateSDKCode).toHaveBeenCalledWith(
+      { tableName: 'Heartbeat', workspace: undefined, framework: 'node', authType: 'default-credential' },
+      expect.anything()
+    );
+    expect(stdout[0]).toContain('queryHeartbeat');
+  });
+
+  it('should list and clear the schema cache', async () => {
+    expect(await run('cache', 'list', '--json')).toBe(EXIT_OK);
+    expect(JSON.parse(stdout[0])).toEqual([expect.objectContaining({ key: 'table:default:Heartbeat', expired: true })]);
+
+    expect(await run('cache', 'clear')).toBe(EXIT_OK);
+    expect(stdout[1]).toBe('Removed 3 cached schemas');
+  });
+});
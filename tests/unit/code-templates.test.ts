@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { mkdirSync, mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CodeGeneration } from '../../src/services/CodeGeneration.js';
+import { renderTemplate } from '../../src/services/CodeTemplates.js';
+import { WorkspaceRegistry } from '../../src/services/WorkspaceRegistry.js';
+import type { SchemaDiscovery } from '../../src/services/SchemaDiscovery.js';
+import { createTestConfig } from '../helpers/config.js';
+import { createMockBackend } from '../helpers/backend.js';
+
+describe('Code templates', () => {
+  describe('renderTemplate', () => {
+    const partials: Record<string, string> = {
+      'partials/request': 'const response = await fetch(url);\n\nreturn response.json();\n',
+      'partials/loop': '{{> partials/loop}}',
+    };
+    const render = (body: string, variables: Record<string, string | number | boolean> = {}) =>
+      renderTemplate(body, variables, name => partials[name], 'test');
+
+    it('should insert variables and drop lines that only hold section tags', () => {
+      const body = [
+        '// {{table}}',
+        '{{#beta}}',
+        '// beta',
+        '{{/beta}}',
+        '{{^beta}}',
+        '// stable',
+        '{{/beta}}',
+        'function run({{#paged}}max = {{max}}{{/paged}}) {}',
+      ].join('\n');
+
+      expect(render(body, { table: 'Heartbeat', beta: false, paged: true, max: 50 }))
+        .toBe('// Heartbeat\n// stable\nfunction run(max = 50) {}');
+      expect(render(body, { table: 'Heartbeat', beta: true, paged: false, max: 50 }))
+        .toBe('// Heartbeat\n// beta\nfunction run() {}');
+    });
+
+    it('should indent partials and multi-line values to the line they stand on', () => {
+      const body = 'async function run() {\n  {{> partials/request}}\n}\nconst schema = {{schema}};\n  {{schema}}';
+
+      expect(render(body, { schema: '{\n  "id": "string"\n}' })).toBe([
+        'async function run() {',
+        '  const response = await fetch(url);',
+        '',
+        '  return response.json();',
+        '}',
+        'const schema = {',
+        '  "id": "string"',
+        '};',
+        '  {',
+        '    "id": "string"',
+        '  }',
+      ].join('\n'));
+    });
+
+    it('should leave other braces alone and strip comments', () => {
+      expect(render('{{! description }}\n<div style={{ color: "red" }}>{{name}}</div>{{! inline }}', { name: 'x' }))
+        .toBe('<div style={{ color: "red" }}>x</div>');
+    });
+
+    it('should reject unknown variables, unknown partials, unclosed sections and partial cycles', () => {
+      expect(() => render('{{tabel}}', { table: 'Heartbeat' })).toThrow('Template test uses unknown variable "tabel". Available: table');
+      expect(() => render('{{> partials/missing}}')).toThrow('includes unknown template "partials/missing"');
+      expect(() => render('{{#paged}}open', { paged: true })).toThrow('unmatched {{#paged}}');
+      expect(() => render('{{> partials/loop}}')).toThrow('nests partials more than 10 deep');
+    });
+  });
+
+  describe('CodeGeneration', () => {
+    let templateDir: string;
+    let generator: CodeGeneration;
+
+    const write = (file: string, content: string) => {
+      mkdirSync(join(templateDir, file, '..'), { recursive: true });
+      writeFileSync(join(templateDir, file), content);
+    };
+
+    beforeEach(() => {
+      templateDir = mkdtempSync(join(tmpdir(), 'azure-schema-mcp-templates-'));
+      const config = createTestConfig({
+        workspaces: [{ alias: 'sentinel', workspaceId: 'test-workspace-id', isDefault: true }],
+        codeTemplateDir: templateDir,
+      });
+      const schemaDiscovery = {
+        getTableSchema: vi.fn(async (tableName: string) => ({
+          tableName,
+          columns: [{ name: 'TimeGenerated', type: 'datetime' }, { name: 'Computer', type: 'string' }],
+        })),
+        getGraphAPISchema: vi.fn(async () => ({ properties: { id: { type: 'string' } } })),
+      } as unknown as SchemaDiscovery;
+      generator = new CodeGeneration(config, createMockBackend(), schemaDiscovery, new WorkspaceRegistry(config));
+    });
+
+    it('should render user templates picked by name', async () => {
+      write('kql/export.tmpl', [
+        '{{! Export rows with our logger }}',
+        "import { logger } from '@/lib/logger';",
+        '// {{table}} in {{workspace}} ({{columnCount}} columns: {{columns}})',
+        'export const columns = {{schema}};',
+        '',
+      ].join('\n'));
+
+      const code = await generator.generateSDKCode({ tableName: 'Heartbeat', template: 'export' });
+
+      expect(code).toBe([
+        "import { logger } from '@/lib/logger';",
+        '// Heartbeat in sentinel (2 columns: TimeGenerated, Computer)',
+        'export const columns = [',
+        '  {',
+        '    "name": "TimeGenerated",',
+        '    "type": "datetime"',
+        '  },',
+        '  {',
+        '    "name": "Computer",',
+        '    "type": "string"',
+        '  }',
+        '];',
+      ].join('\n'));
+      await expect(generator.generateSDKCode({ tableName: 'Heartbeat', template: 'graph/node' }))
+        .rejects.toThrow('Unknown kql template "graph/node". Available: kql/export, kql/inline, kql/node, kql/python, kql/react');
+    });
+
+    it('should let user partials replace built-in ones in every template that includes them', async () => {
+      write('partials/msal-credential.ts', "import { msalCredential as credential } from '@contoso/web-auth';\n");
+
+      const tableCode = await generator.generateSDKCode({ tableName: 'Heartbeat', framework: 'react' });
+      const graphCode = await generator.generateGraphSDKCode({ endpoint: '/users', framework: 'react' });
+
+      for (const code of [tableCode, graphCode]) {
+        expect(code).toContain("import { msalCredential as credential } from '@contoso/web-auth';");
+        expect(code).not.toContain('msalInstance');
+      }
+      expect(graphCode).toContain('async function queryusers(maxItems = 1000) {');
+    });
+
+    it('should list built-in and user templates with the variables they can use', async () => {
+      write('kql/react.tmpl', '{{! React with our MSAL setup }}\n// {{table}}');
+      write('graph/beta-only.tmpl', '// {{endpoint}}');
+
+      const list = await generator.listCodeTemplates();
+
+      expect(list.templateDir).toBe(templateDir);
+      expect(list.templates.map(t => t.name)).toEqual([
+        'graph/beta-only', 'graph/inline', 'graph/node', 'graph/python', 'graph/react',
+        'kql/inline', 'kql/node', 'kql/python', 'kql/react',
+        'partials/graph-imports', 'partials/graph-request', 'partials/msal-credential', 'partials/python-credential',
+      ]);
+      expect(list.templates.find(t => t.name === 'kql/react')).toMatchObject({
+        description: 'React with our MSAL setup',
+        source: 'user',
+        overridesBuiltin: true,
+      });
+      expect(list.templates[0]).not.toHaveProperty('body');
+      expect(Object.keys(list.variables.graph)).toContain('paged');
+      expect((await generator.listCodeTemplates('partial')).templates).toHaveLength(4);
+
+      expect(await generator.generateSDKCode({ tableName: 'Heartbeat', framework: 'react' })).toBe('// Heartbeat');
+    });
+  });
+});
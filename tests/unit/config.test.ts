@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { loadConfig } from '../../src/config.js';
+import { DEFAULT_DENIED_OPERATORS, loadConfig } from '../../src/config.js';
 
 describe('Configuration', () => {
   const originalEnv = process.env;
@@ -46,6 +46,218 @@ describe('Configuration', () => {
     expect(config.schemaCacheDir).toBe('./custom/schemas');
   });
 
+  it('should configure schema cache TTLs per source type', () => {
+    process.env.AZURE_TENANT_ID = 'test-tenant';
+    process.env.AZURE_WORKSPACE_ID = 'test-workspace';
+    delete process.env.SCHEMA_CACHE_TTL_KQL;
+    process.env.SCHEMA_CACHE_TTL_GRAPH = '3600';
+    
+    const config = loadConfig();
+    
+    expect(config.schemaCacheTtl).toEqual({ kql: 86400, graph: 3600 });
+
+    process.env.SCHEMA_CACHE_TTL_KQL = 'soon';
+    expect(() => loadConfig()).toThrow('SCHEMA_CACHE_TTL_KQL');
+  });
+
+  it('should configure the Graph sample budget', () => {
+    process.env.AZURE_TENANT_ID = 'test-tenant';
+    process.env.AZURE_WORKSPACE_ID = 'test-workspace';
+    delete process.env.GRAPH_SAMPLE_MAX_RECORDS;
+    process.env.GRAPH_SAMPLE_MAX_PAGES = '2';
+
+    expect(loadConfig().graphSampleBudget).toEqual({ maxRecords: 500, maxPages: 2 });
+
+    process.env.GRAPH_SAMPLE_MAX_PAGES = '0';
+    expect(() => loadConfig()).toThrow('GRAPH_SAMPLE_MAX_PAGES must be a positive integer');
+    delete process.env.GRAPH_SAMPLE_MAX_PAGES;
+  });
+
+  it('should configure the query policy', () => {
+    process.env.AZURE_TENANT_ID = 'test-tenant';
+    process.env.AZURE_WORKSPACE_ID = 'test-workspace';
+    delete process.env.QUERY_POLICY_DENIED_OPERATORS;
+    process.env.QUERY_POLICY_MAX_TIMESPAN = 'p30d';
+    process.env.QUERY_POLICY_ALLOWED_TABLES = 'Heartbeat, Security*';
+    process.env.QUERY_POLICY_MAX_ROWS = '1000';
+
+    expect(loadConfig().queryPolicy).toEqual({
+      maxTimespan: 'P30D',
+      deniedOperators: DEFAULT_DENIED_OPERATORS,
+      allowedTables: ['Heartbeat', 'Security*'],
+      deniedTables: [],
+      maxRows: 1000,
+    });
+
+    process.env.QUERY_POLICY_DENIED_OPERATORS = '';
+    expect(loadConfig().queryPolicy.deniedOperators).toEqual([]);
+
+    process.env.QUERY_POLICY_MAX_TIMESPAN = '30 days';
+    expect(() => loadConfig()).toThrow('QUERY_POLICY_MAX_TIMESPAN must be an ISO 8601 duration');
+  });
+
+  it('should configure tool timeouts per tool', () => {
+    process.env.AZURE_TENANT_ID = 'test-tenant';
+    process.env.AZURE_WORKSPACE_ID = 'test-workspace';
+    process.env.TOOL_TIMEOUT_SECONDS = '60';
+    process.env.TOOL_TIMEOUTS = 'list_tables=30, detect_table_workspace=600';
+
+    expect(loadConfig().toolTimeouts).toEqual({
+      default: 60,
+      tools: { list_tables: 30, detect_table_workspace: 600, find_working_query_examples: 300 },
+    });
+
+    process.env.TOOL_TIMEOUTS = 'list_tables';
+    expect(() => loadConfig()).toThrow('TOOL_TIMEOUTS entries must look like tool_name=seconds');
+  });
+
+  it('should read query search paths as a comma-separated list', () => {
+    process.env.AZURE_TENANT_ID = 'test-tenant';
+    process.env.AZURE_WORKSPACE_ID = 'test-workspace';
+    delete process.env.QUERY_SEARCH_PATHS;
+    
+    expect(loadConfig().querySearchPaths).toEqual([process.cwd()]);
+
+    process.env.QUERY_SEARCH_PATHS = './src, ./detections,';
+    expect(loadConfig().querySearchPaths).toEqual(['./src', './detections']);
+  });
+
+  it('should disable token cache persistence by default', () => {
+    process.env.AZURE_TENANT_ID = 'test-tenant';
+    process.env.AZURE_WORKSPACE_ID = 'test-workspace';
+    delete process.env.TOKEN_CACHE_PERSISTENCE;
+    
+    expect(loadConfig().tokenCachePersistence).toBe(false);
+
+    process.env.TOKEN_CACHE_PERSISTENCE = 'true';
+    expect(loadConfig().tokenCachePersistence).toBe(true);
+  });
+
+  it('should default to the DefaultAzureCredential strategy', () => {
+    process.env.AZURE_TENANT_ID = 'test-tenant';
+    process.env.AZURE_WORKSPACE_ID = 'test-workspace';
+    delete process.env.AZURE_AUTH_STRATEGY;
+    
+    expect(loadConfig().authStrategy).toBe('default');
+  });
+
+  it('should throw error for an unknown auth strategy', () => {
+    process.env.AZURE_TENANT_ID = 'test-tenant';
+    process.env.AZURE_WORKSPACE_ID = 'test-workspace';
+    process.env.AZURE_AUTH_STRATEGY = 'password';
+    
+    expect(() => loadConfig()).toThrow('AZURE_AUTH_STRATEGY');
+  });
+
+  it('should require client credentials for the client-secret strategy', () => {
+    process.env.AZURE_TENANT_ID = 'test-tenant';
+    process.env.AZURE_WORKSPACE_ID = 'test-workspace';
+    process.env.AZURE_AUTH_STRATEGY = 'client-secret';
+    process.env.AZURE_CLIENT_ID = 'test-client';
+    delete process.env.AZURE_CLIENT_SECRET;
+    
+    expect(() => loadConfig()).toThrow('AZURE_CLIENT_SECRET');
+
+    process.env.AZURE_CLIENT_SECRET = 'test-secret';
+    expect(loadConfig().clientSecret).toBe('test-secret');
+  });
+
+  it('should select the backend mode', () => {
+    process.env.AZURE_TENANT_ID = 'test-tenant';
+    process.env.AZURE_WORKSPACE_ID = 'test-workspace';
+    delete process.env.AZURE_BACKEND_MODE;
+    
+    expect(loadConfig().backendMode).toBe('live');
+
+    process.env.AZURE_BACKEND_MODE = 'replay';
+    expect(loadConfig().backendMode).toBe('replay');
+
+    process.env.AZURE_BACKEND_MODE = 'offline';
+    expect(() => loadConfig()).toThrow('AZURE_BACKEND_MODE');
+  });
+
+  it('should configure the HTTP transport and require tokens for it', () => {
+    process.env.AZURE_TENANT_ID = 'test-tenant';
+    process.env.AZURE_WORKSPACE_ID = 'test-workspace';
+    delete process.env.MCP_TRANSPORT;
+    delete process.env.MCP_HTTP_TOKENS;
+
+    expect(loadConfig().transport).toBe('stdio');
+
+    process.env.MCP_TRANSPORT = 'http';
+    expect(() => loadConfig()).toThrow('MCP_HTTP_TOKENS is required');
+
+    process.env.MCP_HTTP_TOKENS = 'token-a, token-b';
+    process.env.MCP_HTTP_PORT = '8080';
+    expect(loadConfig().http).toEqual({
+      host: '127.0.0.1',
+      port: 8080,
+      auth: 'bearer',
+      tokens: ['token-a', 'token-b'],
+      sessionIdleTimeout: 1800,
+    });
+
+    process.env.MCP_HTTP_AUTH = 'basic';
+    expect(() => loadConfig()).toThrow('MCP_HTTP_AUTH must be one of');
+  });
+
+  it('should register AZURE_WORKSPACE_ID as the default workspace', () => {
+    process.env.AZURE_TENANT_ID = 'test-tenant';
+    process.env.AZURE_WORKSPACE_ID = 'test-workspace';
+    delete process.env.AZURE_WORKSPACES;
+    
+    const config = loadConfig();
+    
+    expect(config.workspaces).toEqual([{ alias: 'default', workspaceId: 'test-workspace', isDefault: true }]);
+  });
+
+  it('should load a named workspace registry', () => {
+    process.env.AZURE_TENANT_ID = 'test-tenant';
+    delete process.env.AZURE_WORKSPACE_ID;
+    process.env.AZURE_WORKSPACES = JSON.stringify([
+      { alias: 'sentinel', workspaceId: 'sentinel-id', description: 'Sentinel' },
+      { alias: 'platform', workspaceId: 'platform-id', default: true },
+    ]);
+    
+    const config = loadConfig();
+    
+    expect(config.workspaces.map(w => w.alias)).toEqual(['sentinel', 'platform']);
+    expect(config.workspaceId).toBe('platform-id');
+  });
+
+  it('should read workspace resource IDs for table metadata', () => {
+    process.env.AZURE_TENANT_ID = 'test-tenant';
+    process.env.AZURE_WORKSPACE_ID = 'test-workspace';
+    delete process.env.AZURE_WORKSPACES;
+    process.env.AZURE_WORKSPACE_RESOURCE_ID = '/subscriptions/sub/resourceGroups/rg/providers/Microsoft.OperationalInsights/workspaces/main';
+
+    expect(loadConfig().workspaces[0].resourceId).toBe(process.env.AZURE_WORKSPACE_RESOURCE_ID);
+
+    process.env.AZURE_WORKSPACE_RESOURCE_ID = 'main';
+    expect(() => loadConfig()).toThrow('AZURE_WORKSPACE_RESOURCE_ID must be a Log Analytics workspace resource ID');
+  });
+
+  it('should reject duplicate workspace aliases', () => {
+    process.env.AZURE_TENANT_ID = 'test-tenant';
+    process.env.AZURE_WORKSPACES = JSON.stringify([
+      { alias: 'dev', workspaceId: 'a' },
+      { alias: 'DEV', workspaceId: 'b' },
+    ]);
+    
+    expect(() => loadConfig()).toThrow('Duplicate workspace alias');
+  });
+
+  it('should reject AZURE_WORKSPACE_ID when the registry already has a default alias', () => {
+    process.env.AZURE_TENANT_ID = 'test-tenant';
+    process.env.AZURE_WORKSPACE_ID = 'test-workspace';
+    process.env.AZURE_WORKSPACES = JSON.stringify([{ alias: 'Default', workspaceId: 'other-workspace' }]);
+
+    expect(() => loadConfig()).toThrow('already uses the alias "default" for other-workspace');
+
+    process.env.AZURE_WORKSPACES = JSON.stringify([{ alias: 'default', workspaceId: 'test-workspace' }]);
+    expect(loadConfig().workspaces).toEqual([{ alias: 'default', workspaceId: 'test-workspace', isDefault: true }]);
+  });
+
   it('should throw error if tenant ID is missing', () => {
     delete process.env.AZURE_TENANT_ID;
     process.env.AZURE_WORKSPACE_ID = 'test-workspace';
@@ -56,6 +268,7 @@ describe('Configuration', () => {
   it('should throw error if workspace ID is missing', () => {
     process.env.AZURE_TENANT_ID = 'test-tenant';
     delete process.env.AZURE_WORKSPACE_ID;
+    delete process.env.AZURE_WORKSPACES;
     
     expect(() => loadConfig()).toThrow();
   });
@@ -0,0 +1,39 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { CodeGeneration } from '../../src/services/CodeGeneration.js';
+import type { SchemaDiscovery } from '../../src/services/SchemaDiscovery.js';
+import type { WorkspaceRegistry } from '../../src/services/WorkspaceRegistry.js';
+import { createTestConfig } from '../helpers/config.js';
+import { createMockBackend } from '../helpers/backend.js';
+
+describe('Graph SDK code generation', () => {
+  let generator: CodeGeneration;
+
+  beforeEach(() => {
+    const schemaDiscovery = {
+      getGraphAPISchema: vi.fn(async () => ({ properties: { id: {}, title: {} } })),
+    } as unknown as SchemaDiscovery;
+    generator = new CodeGeneration(createTestConfig(), createMockBackend(), schemaDiscovery, {} as WorkspaceRegistry);
+  });
+
+  it('should page through GET results with PageIterator up to maxItems', async () => {
+    const code = await generator.generateGraphSDKCode({ endpoint: '/security/alerts_v2', framework: 'node', maxItems: 250 });
+
+    expect(code).toContain(`import { Client, PageIterator, RetryHandlerOptions } from '@microsoft/microsoft-graph-client';`);
+    expect(code).toContain('async function querysecurityalertsv2(maxItems = 250) {');
+    expect(code).toContain('    const retryOptions = new RetryHandlerOptions(3, 5);');
+    expect(code).toContain('      .middlewareOptions([retryOptions])');
+    expect(code).toContain('    const pageIterator = new PageIterator(graphClient, response, (item) => {');
+    expect(code).toContain('      return items.length < maxItems;');
+    expect(code).toContain('    }, { middlewareOptions: [retryOptions] });');
+    expect(code).not.toContain('Note: Use PageIterator');
+  });
+
+  it('should send other methods as a single request', async () => {
+    const code = await generator.generateGraphSDKCode({ endpoint: '/users/{id}', method: 'DELETE' });
+
+    expect(code).toContain(`import { Client } from '@microsoft/microsoft-graph-client';`);
+    expect(code).toContain('async function queryusersid(credential: TokenCredential) {');
+    expect(code).toContain('    .delete();');
+    expect(code).not.toContain('PageIterator');
+  });
+});
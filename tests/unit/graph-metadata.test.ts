@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { mkdtempSync, writeFileSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { GraphMetadata } from '../../src/services/GraphMetadata.js';
+import type { Config } from '../../src/config.js';
+import { createTestConfig } from '../helpers/config.js';
+import { createMockBackend, graphResponse, type MockBackend } from '../helpers/backend.js';
+
+const CSDL = `<?xml version="1.0" encoding="utf-8"?>
+<edmx:Edmx Version="4.0" xmlns:edmx="http://docs.oasis-open.org/odata/ns/edmx">
+  <edmx:DataServices>
+    <Schema Namespace="microsoft.graph" Alias="graph" xmlns="http://docs.oasis-open.org/odata/ns/edm">
+      <EntityType Name="entity" Abstract="true">
+        <Key><PropertyRef Name="id" /></Key>
+        <Property Name="id" Type="Edm.String" Nullable="false" />
+      </EntityType>
+      <EntityType Name="directoryObject" BaseType="graph.entity" OpenType="true">
+        <Property Name="deletedDateTime" Type="Edm.DateTimeOffset" />
+      </EntityType>
+      <EntityType Name="user" BaseType="graph.directoryObject" OpenType="true">
+        <Property Name="displayName" Type="Edm.String" />
+        <Property Name="officeLocation" Type="Edm.String" />
+        <Property Name="assignedLicenses" Type="Collection(graph.assignedLicense)" Nullable="false" />
+        <NavigationProperty Name="manager" Type="graph.directoryObject" />
+        <NavigationProperty Name="directReports" Type="Collection(graph.directoryObject)" />
+      </EntityType>
+      <ComplexType Name="assignedLicense">
+        <Property Name="skuId" Type="Edm.Guid" />
+        <Property Name="disabledPlans" Type="Collection(Edm.Guid)" Nullable="false" />
+      </ComplexType>
+      <EntityType Name="security" BaseType="graph.entity">
+        <NavigationProperty Name="alerts_v2" Type="Collection(microsoft.graph.security.alert)" ContainsTarget="true" />
+      </EntityType>
+      <EntityContainer Name="GraphService">
+        <EntitySet Name="users" EntityType="microsoft.graph.user" />
+        <EntitySet Name="directoryObjects" EntityType="microsoft.graph.directoryObject" />
+        <Singleton Name="security" Type="microsoft.graph.security" />
+      </EntityContainer>
+      <Annotations Target="microsoft.graph.user">
+        <Annotation Term="Org.OData.Core.V1.Description" String="Represents a user &amp; their account" />
+      </Annotations>
+    </Schema>
+    <Schema Namespace="microsoft.graph.security" xmlns="http://docs.oasis-open.org/odata/ns/edm">
+      <EnumType Name="alertSeverity">
+        <Member Name="unknown" Value="0" />
+        <Member Name="informational" Value="1" />
+        <Member Name="high" Value="4" />
+      </EnumType>
+      <EntityType Name="alert" BaseType="graph.entity">
+        <Property Name="title" Type="Edm.String" />
+        <Property Name="severity" Type="microsoft.graph.security.alertSeverity" Nullable="false" />
+        <Property Name="evidence" Type="Collection(microsoft.graph.security.alertEvidence)" />
+      </EntityType>
+      <ComplexType Name="alertEvidence">
+        <Property Name="createdDateTime" Type="Edm.DateTimeOffset" Nullable="false" />
+        <Property Name="remediationStatusDetails" Type="Edm.String" />
+      </ComplexType>
+    </Schema>
+  </edmx:DataServices>
+</edmx:Edmx>`;
+
+describe('GraphMetadata', () => {
+  let config: Config;
+  let backend: MockBackend;
+
+  beforeEach(() => {
+    const dir = mkdtempSync(join(tmpdir(), 'azure-schema-mcp-metadata-'));
+    writeFileSync(join(dir, 'metadata.xml'), CSDL);
+    config = createTestConfig({ schemaCacheDir: join(dir, 'schemas'), graphMetadataPath: join(dir, 'metadata.xml') });
+    backend = createMockBackend({
+      fetchGraph: async () => graphResponse(CSDL),
+    });
+  });
+
+  it('should resolve a navigation property path across schemas', async () => {
+    const entityType = await new GraphMetadata(config, backend).getEntityType('/security/alerts_v2');
+
+    expect(entityType.typeName).toBe('microsoft.graph.security.alert');
+    expect(entityType.isCollection).toBe(true);
+    expect(entityType.baseTypes).toEqual(['microsoft.graph.entity']);
+    expect(entityType.key).toEqual(['id']);
+    expect(entityType.properties.id).toMatchObject({ type: 'Edm.String', nullable: false, declaredIn: 'microsoft.graph.entity' });
+    expect(entityType.properties.severity).toMatchObject({ type: 'microsoft.graph.security.alertSeverity', kind: 'enum' });
+    expect(entityType.enumTypes['microsoft.graph.security.alertSeverity']).toEqual(['unknown', 'informational', 'high']);
+    expect(entityType.complexTypes['microsoft.graph.security.alertEvidence'].createdDateTime).toMatchObject({
+      type: 'Edm.DateTimeOffset',
+      nullable: false,
+    });
+    expect(backend.fetchGraph).not.toHaveBeenCalled();
+  });
+
+  it('should follow keys, inheritance and navigation properties', async () => {
+    const metadata = new GraphMetadata(config, backend);
+
+    const user = await metadata.getEntityType('/users/{id}');
+    expect(user.typeName).toBe('microsoft.graph.user');
+    expect(user.isCollection).toBe(false);
+    expect(user.baseTypes).toEqual(['microsoft.graph.directoryObject', 'microsoft.graph.entity']);
+    expect(Object.keys(user.properties)).toEqual(['id', 'deletedDateTime', 'displayName', 'officeLocation', 'assignedLicenses']);
+    expect(user.navigationProperties.directReports).toMatchObject({ type: 'microsoft.graph.directoryObject', isCollection: true });
+
+    const manager = await metadata.getEntityType('/users/adele@contoso.com/manager');
+    expect(manager).toMatchObject({ typeName: 'microsoft.graph.directoryObject', isCollection: false });
+
+    const cast = await metadata.getEntityType('/directoryObjects/microsoft.graph.user');
+    expect(cast).toMatchObject({ typeName: 'microsoft.graph.user', isCollection: true });
+
+    await expect(metadata.getEntityType('/users/{id}/nope')).rejects.toThrow('"nope" is not a property');
+    await expect(metadata.getEntityType('/groups')).rejects.toThrow('not an entity set or singleton');
+  });
+
+  it('should fetch and cache the metadata document when no local copy is configured', async () => {
+    delete config.graphMetadataPath;
+
+    await new GraphMetadata(config, backend).getEntityType('/users');
+    await new GraphMetadata(config, backend).getEntityType('/users');
+
+    expect(backend.fetchGraph).toHaveBeenCalledTimes(1);
+    expect(backend.fetchGraph).toHaveBeenCalledWith('https://graph.microsoft.com/v1.0/$metadata');
+    expect(existsSync(join(config.schemaCacheDir, 'metadata', 'graph-v1.0.xml'))).toBe(true);
+  });
+
+  it('should merge declared properties with sampled observations', async () => {
+    const metadata = new GraphMetadata(config, backend);
+    const entityType = await metadata.getEntityType('/users');
+
+    const merged = metadata.mergeDeclared({
+      id: { type: 'string', required: true, nullable: false },
+      displayName: { type: 'string', required: true, nullable: false },
+      assignedLicenses: {
+        type: 'array', required: true, nullable: false,
+        items: { type: 'object', required: true, nullable: false, properties: { skuId: { type: 'string', required: true, nullable: false, format: 'GUID' } } },
+      },
+      '@odata.type': { type: 'string', required: true, nullable: false },
+    }, entityType);
+
+    expect(merged.displayName).toMatchObject({ source: 'both', declaredType: 'Edm.String' });
+    expect(merged['@odata.type'].source).toBe('sampled');
+    expect(merged.officeLocation).toEqual({ type: 'string', required: false, nullable: true, declaredType: 'Edm.String', source: 'declared' });
+    expect(merged.deletedDateTime).toMatchObject({ format: 'datetime', source: 'declared' });
+    expect(merged.assignedLicenses.declaredType).toBe('Collection(microsoft.graph.assignedLicense)');
+    expect(merged.assignedLicenses.items!.properties!.skuId.source).toBe('both');
+    expect(merged.assignedLicenses.items!.properties!.disabledPlans).toMatchObject({
+      type: 'array',
+      source: 'declared',
+      items: { type: 'string', format: 'GUID' },
+    });
+  });
+
+  it('should compare the declared types of v1.0 and beta', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'azure-schema-mcp-metadata-'));
+    writeFileSync(join(dir, 'graph-v1.0.xml'), CSDL);
+    writeFileSync(join(dir, 'graph-beta.xml'), CSDL
+      .replace('<Property Name="title" Type="Edm.String" />', '<Property Name="title" Type="Edm.String" Nullable="false" />')
+      .replace('<Property Name="remediationStatusDetails" Type="Edm.String" />', '<Property Name="detailedRoles" Type="Collection(Edm.String)" />'));
+    config.graphMetadataPath = join(dir, 'graph-{version}.xml');
+
+    const comparison = await new GraphMetadata(config, backend).compareVersions('/security/alerts_v2');
+
+    expect(comparison.basis).toBe('declared');
+    expect(comparison.versions.beta.available).toBe(true);
+    expect(comparison.betaOnly).toEqual([{ name: 'evidence[].detailedRoles', type: 'Collection(Edm.String)', required: false }]);
+    expect(comparison.v1Only).toEqual([{ name: 'evidence[].remediationStatusDetails', type: 'Edm.String', required: false }]);
+    expect(comparison.changed).toEqual([
+      { name: 'title', v1: { type: 'Edm.String', required: false }, beta: { type: 'Edm.String', required: true } },
+    ]);
+    expect(backend.fetchGraph).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SchemaDiscovery } from '../../src/services/SchemaDiscovery.js';
+import { WorkspaceRegistry } from '../../src/services/WorkspaceRegistry.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createServer, createServices } from '../../src/server.js';
+import { createTestConfig } from '../helpers/config.js';
+import { createMockBackend, graphResponse, type MockBackend } from '../helpers/backend.js';
+
+const USERS = [
+  {
+    id: '6e7b768e-07e2-4810-8459-485f84f8f204',
+    displayName: 'Adele Vance',
+    mail: 'adele@contoso.com',
+    createdDateTime: '2024-03-01T09:00:00Z',
+    officeLocation: null,
+    assignedLicenses: [{ skuId: 'c7df2760-2c81-4ef7-b578-5b5392b571df', disabledPlans: [] }],
+    signInActivity: { lastSignInDateTime: '2025-11-18T07:12:00Z', lastSignInRequestId: 'a1b2' },
+  },
+  {
+    id: '87d349ed-44d7-43e1-9a83-5f2406dee5bd',
+    displayName: 'Alex Wilber',
+    mail: null,
+    createdDateTime: '2024-04-12T15:30:00Z',
+    officeLocation: '131/1104',
+    assignedLicenses: [],
+    signInActivity: { lastSignInDateTime: null },
+    lastKnownIp: '10.0.0.4',
+  },
+];
+
+describe('Graph schema inference', () => {
+  let discovery: SchemaDiscovery;
+  let backend: MockBackend;
+
+  beforeEach(() => {
+    const config = createTestConfig();
+
+    backend = createMockBackend({
+      fetchGraph: async () => graphResponse({ value: USERS }),
+    });
+
+    discovery = new SchemaDiscovery(config, backend, new WorkspaceRegistry(config));
+  });
+
+  it('should merge properties across all sampled records', async () => {
+    const schema = await discovery.getGraphAPISchema('/users');
+
+    expect(schema.sampledRecords).toBe(2);
+    expect(schema.properties.id).toEqual({ type: 'string', required: true, nullable: false, format: 'GUID' });
+    expect(schema.properties.mail).toEqual({ type: 'string', required: false, nullable: true, format: 'email' });
+    expect(schema.properties.createdDateTime.format).toBe('datetime');
+    expect(schema.properties.officeLocation).toEqual({ type: 'string', required: false, nullable: true });
+    expect(schema.properties.lastKnownIp).toEqual({ type: 'string', required: false, nullable: false, format: 'IP address' });
+  });
+
+  it('should infer nested objects and array element types', async () => {
+    const schema = await discovery.getGraphAPISchema('/users');
+
+    const signIn = schema.properties.signInActivity;
+    expect(signIn.type).toBe('object');
+    expect(signIn.properties!.lastSignInDateTime).toMatchObject({ type: 'string', required: false, nullable: true, format: 'datetime' });
+    expect(signIn.properties!.lastSignInRequestId).toMatchObject({ type: 'string', required: false, nullable: false });
+
+    const licenses = schema.properties.assignedLicenses;
+    expect(licenses.type).toBe('array');
+    expect(licenses.items!.type).toBe('object');
+    expect(licenses.items!.properties!.skuId).toMatchObject({ type: 'string', required: true, format: 'GUID' });
+    expect(licenses.items!.properties!.disabledPlans).toEqual({ type: 'array', required: true, nullable: false });
+  });
+
+  it('should follow @odata.nextLink until the sample is complete', async () => {
+    const next = 'https://graph.microsoft.com/v1.0/users?$top=3&$skiptoken=abc';
+    backend.fetchGraph = vi.fn(async (url: string) => url === next
+      ? { ok: true, status: 200, statusText: 'OK', body: { value: [{ id: '3', city: 'Oslo' }, { id: '4' }] } }
+      : { ok: true, status: 200, statusText: 'OK', body: { value: USERS, '@odata.nextLink': next } });
+
+    const schema = await discovery.getGraphAPISchema('/users', 3);
+
+    expect(backend.fetchGraph).toHaveBeenCalledTimes(2);
+    expect(backend.fetchGraph).toHaveBeenNthCalledWith(1, 'https://graph.microsoft.com/v1.0/users?$top=3', { abortSignal: undefined });
+    expect(schema.sampledRecords).toBe(3);
+    expect(schema.pagesFetched).toBe(2);
+    expect(schema.properties.city).toMatchObject({ type: 'string', required: false });
+  });
+
+  it('should keep the pages fetched so far when a later page is throttled', async () => {
+    backend.fetchGraph = vi.fn(async (url: string) => url.includes('skiptoken')
+      ? { ok: false, status: 429, statusText: 'Too Many Requests', body: null }
+      : { ok: true, status: 200, statusText: 'OK', body: { value: USERS, '@odata.nextLink': `${url}&$skiptoken=abc` } });
+
+    const schema = await discovery.getGraphAPISchema('/users?$select=id,displayName', 50);
+
+    expect(backend.fetchGraph).toHaveBeenNthCalledWith(1, 'https://graph.microsoft.com/v1.0/users?$select=id,displayName&$top=50', { abortSignal: undefined });
+    expect(schema).toMatchObject({ sampledRecords: 2, pagesFetched: 1 });
+  });
+
+  it('should sample and cache each API version separately', async () => {
+    await discovery.getGraphAPISchema('/users');
+    const beta = await discovery.getGraphAPISchema('/users', 10, 'beta');
+    await discovery.getGraphAPISchema('/users', 10, 'beta');
+
+    expect(beta.apiVersion).toBe('beta');
+    expect(backend.fetchGraph).toHaveBeenCalledTimes(2);
+    expect(backend.fetchGraph).toHaveBeenCalledWith('https://graph.microsoft.com/v1.0/users?$top=10', { abortSignal: undefined });
+    expect(backend.fetchGraph).toHaveBeenCalledWith('https://graph.microsoft.com/beta/users?$top=10', { abortSignal: undefined });
+  });
+
+  it('should report properties and endpoints that only exist in beta', async () => {
+    backend.fetchGraph = vi.fn(async (url: string) => url.includes('/v1.0/')
+      ? { ok: false, status: 400, statusText: 'Bad Request', body: null }
+      : { ok: true, status: 200, statusText: 'OK', body: { value: [{ id: '1', title: 'Alert' }] } });
+
+    const comparison = await discovery.compareGraphVersions('/security/alerts_v2');
+
+    expect(comparison.basis).toBe('sampled');
+    expect(comparison.versions['v1.0']).toMatchObject({ available: false, propertyCount: 0 });
+    expect(comparison.versions.beta).toEqual({ available: true, propertyCount: 2 });
+    expect(comparison.identical).toBe(false);
+    expect(comparison.betaOnly.map(p => p.name)).toEqual(['id', 'title']);
+    expect(comparison.v1Only).toEqual([]);
+  });
+
+  it('should reject sample sizes that are not whole numbers within the sample budget', async () => {
+    const config = createTestConfig({ backendMode: 'replay', graphSampleBudget: { maxRecords: 50, maxPages: 5 } });
+    const server = createServer(createServices(config));
+    const client = new Client({ name: 'test', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+
+    for (const sampleSize of [0, -5, 2.5, 51]) {
+      for (const name of ['get_graph_api_schema', 'compare_graph_versions']) {
+        const result = await client.callTool({ name, arguments: { endpoint: '/users', basis: 'sampled', sampleSize } });
+        expect(result.isError, `${name} ${sampleSize}`).toBe(true);
+        const [content] = result.content as { type: string; text: string }[];
+        expect(content.text).toContain('sampleSize');
+      }
+    }
+
+    await client.close();
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { HttpServer } from '../../src/transport/HttpServer.js';
+import type { HttpConfig } from '../../src/config.js';
+
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } },
+};
+
+describe('HTTP transport', () => {
+  let httpServer: HttpServer | undefined;
+  let created: McpServer[];
+
+  async function start(config: Partial<HttpConfig> = {}): Promise<string> {
+    created = [];
+    httpServer = new HttpServer(
+      { host: '127.0.0.1', port: 0, auth: 'bearer', tokens: ['secret-token'], sessionIdleTimeout: 1800, ...config },
+      () => {
+        const server = new McpServer({ name: 'test', version: '1.0.0' });
+        server.registerTool('ping', { description: 'Ping' }, async () => ({ content: [{ type: 'text', text: 'pong' }] }));
+        created.push(server);
+        return server;
+      }
+    );
+    const { port } = await httpServer.listen();
+    return `http://127.0.0.1:${port}`;
+  }
+
+  async function connect(baseUrl: string, headers: Record<string, string>): Promise<Client> {
+    const client = new Client({ name: 'test', version: '1.0.0' });
+    await client.connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), { requestInit: { headers } }));
+    return client;
+  }
+
+  const post = (url: string, headers: Record<string, string>, body: unknown = INITIALIZE) => fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+    body: JSON.stringify(body),
+  });
+
+  afterEach(async () => {
+    await httpServer?.close();
+    httpServer = undefined;
+  });
+
+  it('should serve each client its own session', async () => {
+    const baseUrl = await start();
+
+    const first = await connect(baseUrl, { Authorization: 'Bearer secret-token' });
+    const second = await connect(baseUrl, { Authorization: 'Bearer secret-token' });
+
+    expect((await first.listTools()).tools.map(tool => tool.name)).toEqual(['ping']);
+    expect(await second.callTool({ name: 'ping', arguments: {} })).toMatchObject({ content: [{ type: 'text', text: 'pong' }] });
+    expect(created).toHaveLength(2);
+
+    const health = await (await fetch(`${baseUrl}/health`)).json();
+    expect(health).toMatchObject({ status: 'ok', sessions: 2 });
+
+    await first.close();
+    await second.close();
+  });
+
+  it('should reject requests without a valid bearer token', async () => {
+    const baseUrl = await start();
+
+    const missing = await post(`${baseUrl}/mcp`, {});
+    const wrong = await post(`${baseUrl}/mcp`, { Authorization: 'Bearer wrong-token' });
+
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get('www-authenticate')).toBe('Bearer');
+    expect(wrong.status).toBe(401);
+    expect(created).toHaveLength(0);
+  });
+
+  it('should accept API keys in the X-API-Key header', async () => {
+    const baseUrl = await start({ auth: 'api-key', tokens: ['key-1', 'key-2'] });
+
+    expect((await post(`${baseUrl}/mcp`, { Authorization: 'Bearer key-2' })).status).toBe(401);
+
+    const client = await connect(baseUrl, { 'X-API-Key': 'key-2' });
+    expect((await client.listTools()).tools).toHaveLength(1);
+    await client.close();
+  });
+
+  it('should refuse unknown sessions and requests that do not open one', async () => {
+    const baseUrl = await start();
+    const auth = { Authorization: 'Bearer secret-token' };
+
+    const unknown = await post(`${baseUrl}/mcp`, { ...auth, 'Mcp-Session-Id': 'no-such-session' }, { jsonrpc: '2.0', id: 2, method: 'tools/list' });
+    const notInitialize = await post(`${baseUrl}/mcp`, auth, { jsonrpc: '2.0', id: 2, method: 'tools/list' });
+
+    expect(unknown.status).toBe(404);
+    expect(notInitialize.status).toBe(400);
+    expect((await fetch(`${baseUrl}/other`)).status).toBe(404);
+  });
+
+  it('should close sessions that stay idle', async () => {
+    const baseUrl = await start({ sessionIdleTimeout: 1 });
+    const client = await connect(baseUrl, { Authorization: 'Bearer secret-token' });
+
+    await expect.poll(async () => (await (await fetch(`${baseUrl}/health`)).json()).sessions, { timeout: 5000, interval: 250 }).toBe(0);
+    await client.close();
+  });
+});
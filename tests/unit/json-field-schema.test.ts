@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SchemaDiscovery } from '../../src/services/SchemaDiscovery.js';
+import { WorkspaceRegistry } from '../../src/services/WorkspaceRegistry.js';
+import { createTestConfig } from '../helpers/config.js';
+import { createMockBackend, queryResult, type MockBackend } from '../helpers/backend.js';
+
+// Three SecurityAlert.Entities rows; the SDK returns dynamic cells as JSON strings or parsed values
+const ENTITIES = [
+  JSON.stringify([
+    { Type: 'host', HostName: 'web-1', OSFamily: 'Windows', Location: { CountryCode: 'NL', City: 'Amsterdam' } },
+    { Type: 'account', Name: 'alice', Kind: 'User' },
+  ]),
+  [
+    { Type: 'host', HostName: 'web-2', OSFamily: 'windows', Location: { CountryCode: 'US' } },
+    { Type: 'ip', Address: '10.0.0.1', Kind: 'Private' },
+  ],
+  [
+    { Type: 'host', hostName: 'db-1', OSFamily: 'Linux' },
+    { Type: 'account', Name: 'bob', Kind: 'Service' },
+  ],
+];
+
+describe('JSON field schema analysis', () => {
+  let backend: MockBackend;
+  let discovery: SchemaDiscovery;
+
+  beforeEach(() => {
+    const config = createTestConfig();
+
+    backend = createMockBackend({
+      queryWorkspace: async () => queryResult(ENTITIES.map(value => [value]), [{ name: 'Entities', type: 'dynamic' }]),
+    });
+
+    discovery = new SchemaDiscovery(config, backend, new WorkspaceRegistry(config));
+  });
+
+  it('should group objects by the discriminator and report optional fields by frequency', async () => {
+    const schema = await discovery.analyzeJsonFieldSchema({ tableName: 'SecurityAlert', jsonFieldName: 'Entities' });
+
+    expect(schema.baseType).toBe('dynamic (array of objects)');
+    expect(schema.commonStructures.map(s => [s.entityType, s.frequency])).toEqual([['host', 3], ['account', 2], ['ip', 1]]);
+
+    const host = schema.commonStructures[0];
+    expect(host.fields.Type).toMatchObject({ frequency: 3, constantValue: 'host' });
+    expect(host.fields.OSFamily.frequency).toBe(3);
+    expect(host.fields.HostName.frequency).toBe(2);
+    expect(host.fields.Location.frequency).toBe(2);
+
+    expect(Object.keys(schema.commonStructures[1].fields)).toEqual(['Type', 'Name', 'Kind']);
+    expect(schema.commonStructures[1].fields.Name).toEqual({ type: 'string', frequency: 2, exampleValues: ['alice', 'bob'] });
+  });
+
+  it('should report case variations of field names and values', async () => {
+    const schema = await discovery.analyzeJsonFieldSchema({ tableName: 'SecurityAlert', jsonFieldName: 'Entities' });
+    const host = schema.commonStructures[0];
+
+    expect(host.fieldNameCaseVariations).toEqual([['HostName', 'hostName']]);
+    expect(host.fields.OSFamily.caseVariations).toEqual([['Windows', 'windows']]);
+  });
+
+  it('should describe the fields of nested objects', async () => {
+    const schema = await discovery.analyzeJsonFieldSchema({ tableName: 'SecurityAlert', jsonFieldName: 'Entities' });
+    const location = schema.commonStructures[0].fields.Location;
+
+    expect(location.type).toBe('object');
+    expect(location.exampleValues).toEqual([]);
+    expect(location.properties).toEqual({
+      CountryCode: { type: 'string', frequency: 2, exampleValues: ['NL', 'US'] },
+      City: { type: 'string', frequency: 1, exampleValues: ['Amsterdam'] },
+    });
+  });
+
+  it('should cache analyses per discriminator, time range and sample size', async () => {
+    await discovery.analyzeJsonFieldSchema({ tableName: 'SecurityAlert', jsonFieldName: 'Entities' });
+    const byKind = await discovery.analyzeJsonFieldSchema({ tableName: 'SecurityAlert', jsonFieldName: 'Entities', discriminator: 'Kind' });
+
+    expect(byKind.cached).toBe(false);
+    expect(byKind.discriminator).toBe('Kind');
+    expect(byKind.commonStructures.map(s => s.entityType)).toEqual(['(none)', 'User', 'Private', 'Service']);
+
+    await discovery.analyzeJsonFieldSchema({ tableName: 'SecurityAlert', jsonFieldName: 'Entities', timeRange: '7d' });
+    expect(backend.queryWorkspace).toHaveBeenCalledTimes(3);
+
+    const again = await discovery.analyzeJsonFieldSchema({ tableName: 'SecurityAlert', jsonFieldName: 'Entities', discriminator: 'Kind' });
+    expect(again.cached).toBe(true);
+    expect((await discovery.getCachedJsonFieldSchema('SecurityAlert', 'Entities'))?.discriminator).toBe('Type');
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { KqlValidator } from '../../src/services/KqlValidator.js';
+import { SchemaDiscovery } from '../../src/services/SchemaDiscovery.js';
+import { WorkspaceRegistry } from '../../src/services/WorkspaceRegistry.js';
+import { createTestConfig } from '../helpers/config.js';
+import { createMockBackend, queryResult, type MockBackend } from '../helpers/backend.js';
+
+const SCHEMAS: Record<string, any[][]> = {
+  SigninLogs: [
+    ['TimeGenerated', 0, 'System.DateTime'],
+    ['UserPrincipalName', 1, 'System.String'],
+    ['ResultType', 2, 'System.String'],
+    ['CreatedDateTime', 3, 'System.String'],
+    ['DurationMs', 4, 'System.Int64'],
+  ],
+  AuditLogs: [
+    ['TimeGenerated', 0, 'System.DateTime'],
+    ['InitiatedBy', 1, 'System.Object'],
+  ],
+};
+
+describe('KqlValidator', () => {
+  let backend: MockBackend;
+  let validator: KqlValidator;
+  let schemaDiscovery: SchemaDiscovery;
+
+  beforeEach(() => {
+    const config = createTestConfig();
+
+    backend = createMockBackend({
+      queryWorkspace: async (_workspaceId, query) => {
+        if (query.startsWith('Usage')) {
+          return queryResult(Object.keys(SCHEMAS).map(t => [t, new Date(), 1, 1, ['LogManagement']]));
+        }
+        const table = query.replace(' | getschema', '');
+        if (!SCHEMAS[table]) {
+          throw new Error(`'${table}' could not be resolved`);
+        }
+        return queryResult(SCHEMAS[table]);
+      },
+    });
+
+    const workspaces = new WorkspaceRegistry(config);
+    schemaDiscovery = new SchemaDiscovery(config, backend, workspaces);
+    validator = new KqlValidator(schemaDiscovery, workspaces);
+  });
+
+  it('should accept a valid query without running it', async () => {
+    const result = await validator.validate(`SigninLogs
+| where TimeGenerated > ago(1d) and ResultType != "0"
+| summarize Failures = count() by UserPrincipalName
+| top 10 by Failures`);
+
+    expect(result).toEqual({
+      status: 'valid',
+      tables: [{ name: 'SigninLogs', status: 'found', columnCount: 5 }],
+      issues: [],
+    });
+    const queries = vi.mocked(backend.queryWorkspace).mock.calls.map(call => call[1]);
+    expect(queries).toEqual(['SigninLogs | getschema']);
+  });
+
+  it('should report unknown columns with suggestions and positions', async () => {
+    const result = await validator.validate('SigninLogs\n| project UserPrincipleName, ResultType');
+
+    expect(result.status).toBe('invalid');
+    expect(result.issues).toEqual([{
+      severity: 'error',
+      code: 'unknown-column',
+      message: 'Unknown column "UserPrincipleName"',
+      line: 2,
+      column: 11,
+      suggestions: ['UserPrincipalName'],
+    }]);
+  });
+
+  it('should track columns through extend, summarize and project', async () => {
+    const result = await validator.validate(`SigninLogs
+| extend Day = startofday(TimeGenerated)
+| summarize count() by Day
+| project Day, count_, UserPrincipalName`);
+
+    expect(result.issues.map(issue => issue.message)).toEqual(['Unknown column "UserPrincipalName"']);
+  });
+
+  it('should match column wildcards case-insensitively like the query policy', async () => {
+    const result = await validator.validate('SigninLogs\n| project-away result*, *ms\n| project ResultType, DurationMs, TimeGenerated');
+
+    expect(result.issues.map(issue => issue.message)).toEqual(['Unknown column "ResultType"', 'Unknown column "DurationMs"']);
+  });
+
+  it('should report unknown tables with suggestions', async () => {
+    const result = await validator.validate('SigninLog | take 10');
+
+    expect(result.status).toBe('invalid');
+    expect(result.tables).toEqual([{ name: 'SigninLog', status: 'unknown' }]);
+    expect(result.issues[0]).toMatchObject({ code: 'unknown-table', suggestions: ['SigninLogs'] });
+  });
+
+  it('should check both sides of a join', async () => {
+    const result = await validator.validate(`SigninLogs
+| join kind=inner (AuditLogs | project TimeGenerated, Actor = InitiatedBy) on TimeGenerated
+| project UserPrincipalName, Actor, Initiator`);
+
+    expect(result.tables.map(t => t.name)).toEqual(['SigninLogs', 'AuditLogs']);
+    expect(result.issues.map(issue => issue.message)).toEqual(['Unknown column "Initiator"']);
+  });
+
+  it('should flag type mismatches', async () => {
+    const result = await validator.validate(`SigninLogs
+| where CreatedDateTime > ago(1d)
+| where DurationMs contains "5"
+| extend User = tolower(TimeGenerated)`);
+
+    expect(result.status).toBe('valid');
+    expect(result.issues.map(issue => [issue.code, issue.message])).toEqual([
+      ['type-mismatch', 'CreatedDateTime is string but is compared with a datetime; use todatetime(CreatedDateTime)'],
+      ['type-mismatch', '"contains" is a string operator, but DurationMs is long'],
+      ['type-mismatch', 'tolower() expects a string, but TimeGenerated is datetime'],
+    ]);
+  });
+
+  it('should report unknown operators', async () => {
+    const result = await validator.validate('SigninLogs | summarise count()');
+
+    expect(result.issues[0]).toMatchObject({ code: 'unknown-operator', suggestions: ['summarize'] });
+  });
+
+  it('should only use cached schemas in cache-only mode', async () => {
+    const uncached = await validator.validate('SigninLogs | take 1', { cacheOnly: true });
+    expect(uncached.status).toBe('unknown');
+    expect(backend.queryWorkspace).not.toHaveBeenCalled();
+
+    await schemaDiscovery.getTableSchema('SigninLogs');
+    const cached = await validator.validate('SigninLogs | take 1', { cacheOnly: true });
+    expect(cached.status).toBe('valid');
+  });
+});
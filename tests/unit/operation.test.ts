@@ -0,0 +1,117 @@
+import { describe, it, expect, vi } from 'vitest';
+import { OperationTimeoutError, ToolOperations } from '../../src/services/Operation.js';
+import { CodeGeneration } from '../../src/services/CodeGeneration.js';
+import { WorkspaceRegistry } from '../../src/services/WorkspaceRegistry.js';
+import type { ToolRequestExtra } from '../../src/services/Operation.js';
+import type { SchemaDiscovery } from '../../src/services/SchemaDiscovery.js';
+import type { AzureBackend } from '../../src/backend/AzureBackend.js';
+import { createTestConfig } from '../helpers/config.js';
+import { createMockBackend } from '../helpers/backend.js';
+
+function makeExtra(signal: AbortSignal, progressToken?: string): ToolRequestExtra {
+  return {
+    signal,
+    requestId: 1,
+    _meta: progressToken ? { progressToken } : undefined,
+    sendNotification: vi.fn(async () => undefined),
+    sendRequest: vi.fn(),
+  } as unknown as ToolRequestExtra;
+}
+
+/** Resolves once the signal aborts, rejecting with its reason like the Azure SDK does */
+function untilAborted(signal?: AbortSignal): Promise<never> {
+  return new Promise((_resolve, reject) => signal?.addEventListener('abort', () => reject(signal.reason)));
+}
+
+describe('Tool operations', () => {
+  const config = createTestConfig({ toolTimeouts: { default: 120, tools: { list_tables: 1 } } });
+
+  it('should use per-tool timeouts', () => {
+    const operations = new ToolOperations(config);
+
+    expect(operations.timeoutFor('list_tables')).toBe(1);
+    expect(operations.timeoutFor('get_kql_table_schema')).toBe(120);
+  });
+
+  it('should abort the operation when the client cancels the request', async () => {
+    const controller = new AbortController();
+    let operationSignal: AbortSignal | undefined;
+
+    const run = new ToolOperations(config).run('get_kql_table_schema', makeExtra(controller.signal), options => {
+      operationSignal = options.abortSignal;
+      return untilAborted(options.abortSignal);
+    });
+    controller.abort(new Error('Request cancelled'));
+
+    await expect(run).rejects.toThrow('Request cancelled');
+    expect(operationSignal?.aborted).toBe(true);
+  });
+
+  it('should fail with a timeout error when the tool runs too long', async () => {
+    const run = new ToolOperations(config).run('list_tables', makeExtra(new AbortController().signal), options =>
+      untilAborted(options.abortSignal)
+    );
+
+    await expect(run).rejects.toThrow(OperationTimeoutError);
+    await expect(run).rejects.toThrow('list_tables timed out after 1s');
+  });
+
+  it('should report progress only when the client sent a progress token', async () => {
+    const extra = makeExtra(new AbortController().signal, 'token-1');
+
+    await new ToolOperations(config).run('detect_table_workspace', extra, async options => {
+      options.onProgress?.(1, 2, 'Checked 1 of 2 workspaces');
+    });
+    await new ToolOperations(config).run('detect_table_workspace', makeExtra(new AbortController().signal), async options => {
+      expect(options.onProgress).toBeUndefined();
+    });
+
+    expect(extra.sendNotification).toHaveBeenCalledWith({
+      method: 'notifications/progress',
+      params: { progressToken: 'token-1', progress: 1, total: 2, message: 'Checked 1 of 2 workspaces' },
+    });
+  });
+
+  describe('detectTableWorkspace', () => {
+    const workspaceConfig = createTestConfig({
+      workspaceId: 'ws-a',
+      workspaces: [
+        { alias: 'a', workspaceId: 'ws-a', isDefault: true },
+        { alias: 'b', workspaceId: 'ws-b', isDefault: false },
+      ],
+    });
+
+    function makeCodeGeneration(backend: AzureBackend): CodeGeneration {
+      return new CodeGeneration(workspaceConfig, backend, {} as SchemaDiscovery, new WorkspaceRegistry(workspaceConfig));
+    }
+
+    it('should report progress per workspace and pass the abort signal on', async () => {
+      const backend = createMockBackend();
+      const controller = new AbortController();
+      const onProgress = vi.fn();
+
+      const result = await makeCodeGeneration(backend).detectTableWorkspace('Heartbeat', undefined, { abortSignal: controller.signal, onProgress });
+
+      expect(result.notFoundIn.map(w => w.workspaceName)).toEqual(['a', 'b']);
+      expect(onProgress.mock.calls).toEqual([
+        [1, 2, 'Checked 1 of 2 workspaces'],
+        [2, 2, 'Checked 2 of 2 workspaces'],
+      ]);
+      expect(vi.mocked(backend.queryWorkspace).mock.calls[0][3]).toEqual({ abortSignal: controller.signal });
+    });
+
+    it('should stop instead of reporting a cancelled workspace as missing the table', async () => {
+      const controller = new AbortController();
+      const backend = createMockBackend({
+        queryWorkspace: async () => {
+          controller.abort(new Error('Request cancelled'));
+          throw controller.signal.reason;
+        },
+      });
+
+      await expect(makeCodeGeneration(backend).detectTableWorkspace('Heartbeat', undefined, { abortSignal: controller.signal }))
+        .rejects.toThrow('Request cancelled');
+      expect(backend.queryWorkspace).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { CodeGeneration } from '../../src/services/CodeGeneration.js';
+import { WorkspaceRegistry } from '../../src/services/WorkspaceRegistry.js';
+import type { SchemaDiscovery } from '../../src/services/SchemaDiscovery.js';
+import { createTestConfig } from '../helpers/config.js';
+import { createMockBackend } from '../helpers/backend.js';
+
+describe('Python code generation', () => {
+  let generator: CodeGeneration;
+
+  beforeEach(() => {
+    const config = createTestConfig();
+    const schemaDiscovery = {
+      getTableSchema: vi.fn(async (tableName: string) => ({
+        tableName,
+        columns: [
+          { name: 'TimeGenerated', type: 'datetime' },
+          { name: 'AlertName', type: 'string' },
+          { name: 'ConfidenceScore', type: 'real' },
+          { name: 'ProcessCount', type: 'long' },
+          { name: 'IsIncident', type: 'System.Boolean' },
+          { name: 'Entities', type: 'dynamic' },
+        ],
+      })),
+      getGraphAPISchema: vi.fn(async () => ({
+        properties: {
+          id: { type: 'string', format: 'GUID' },
+          createdDateTime: { type: 'string', format: 'datetime' },
+          lastUpdate: { type: 'object', properties: { time: { type: 'string', format: 'datetime' } } },
+        },
+      })),
+    } as unknown as SchemaDiscovery;
+    generator = new CodeGeneration(config, createMockBackend(), schemaDiscovery, new WorkspaceRegistry(config));
+  });
+
+  it('should query with LogsQueryClient into a DataFrame typed from the table schema', async () => {
+    const code = await generator.generateSDKCode({ tableName: 'SecurityAlert', language: 'python' });
+
+    expect(code).toContain('from azure.monitor.query import LogsQueryClient, LogsQueryPartialResult');
+    expect(code).toContain('credential = DefaultAzureCredential()');
+    expect(code).toContain([
+      'DTYPES = {',
+      '    "TimeGenerated": "datetime64[ns, UTC]",',
+      '    "AlertName": "string",',
+      '    "ConfidenceScore": "float64",',
+      '    "ProcessCount": "Int64",',
+      '    "IsIncident": "boolean",',
+      '    "Entities": "object",',
+      '}',
+    ].join('\n'));
+    expect(code).toContain('def query_security_alert(timespan: timedelta = timedelta(days=30)) -> pd.DataFrame:');
+    expect(code).toContain('    if isinstance(response, LogsQueryPartialResult):');
+    expect(code).toContain('        tables = response.partial_data');
+  });
+
+  it('should sign in through the browser for msal-browser', async () => {
+    const code = await generator.generateSDKCode({ tableName: 'SecurityAlert', language: 'python', authType: 'msal-browser' });
+
+    expect(code).toContain('from azure.identity import InteractiveBrowserCredential');
+    expect(code).toContain('credential = InteractiveBrowserCredential(tenant_id="test-tenant-id")');
+    expect(code).not.toContain('DefaultAzureCredential');
+  });
+
+  it('should page Graph collections with msgraph-sdk into a DataFrame', async () => {
+    const code = await generator.generateGraphSDKCode({ endpoint: '/security/alerts_v2', language: 'python', apiVersion: 'beta', maxItems: 250 });
+
+    expect(code).toContain('from msgraph import GraphServiceClient');
+    expect(code).toContain('# Uses the Graph beta API');
+    expect(code).toContain('DATETIME_PROPERTIES = ["createdDateTime", "lastUpdate.time"]');
+    expect(code).toContain('async def query_security_alerts_v2(max_items: int = 250) -> pd.DataFrame:');
+    expect(code).toContain('    request_info.url = "https://graph.microsoft.com/beta/security/alerts_v2"');
+    expect(code).toContain('        next_link = page.get("@odata.nextLink")');
+  });
+
+  it('should send other Graph methods as a single request with an optional body', async () => {
+    const code = await generator.generateGraphSDKCode({ endpoint: '/users/{id}', language: 'python', method: 'PATCH' });
+
+    expect(code).toContain('async def query_users_id(body: dict | None = None):');
+    expect(code).toContain('    request_info = RequestInformation(Method.PATCH)');
+    expect(code).not.toContain('DATETIME_PROPERTIES');
+    expect(code).toContain('result = await query_users_id()');
+  });
+});
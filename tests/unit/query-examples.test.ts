@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { mkdirSync, mkdtempSync, promises as fsPromises, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { QueryExampleScanner } from '../../src/services/QueryExampleScanner.js';
+import { checkColumnReferences } from '../../src/services/KqlValidator.js';
+import { SchemaDiscovery } from '../../src/services/SchemaDiscovery.js';
+import { CodeGeneration } from '../../src/services/CodeGeneration.js';
+import { WorkspaceRegistry } from '../../src/services/WorkspaceRegistry.js';
+import { createTestConfig } from '../helpers/config.js';
+import { createMockBackend, queryResult } from '../helpers/backend.js';
+
+describe('Query Examples', () => {
+  let root: string;
+
+  const write = (relativePath: string, content: string) => {
+    const file = join(root, relativePath);
+    mkdirSync(join(file, '..'), { recursive: true });
+    writeFileSync(file, content);
+  };
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'azure-schema-mcp-examples-'));
+  });
+
+  describe('QueryExampleScanner', () => {
+    it('should extract queries from every supported source with line ranges', async () => {
+      write('queries/hunting.kql', 'Heartbeat\n| where Computer == "web01"\n\nSecurityAlert | take 5\n');
+      write('src/client.ts', [
+        'const label = `Heartbeat`;',
+        'const query = `',
+        '  Heartbeat',
+        '  | summarize count() by Computer`;',
+      ].join('\n'));
+      write('scripts/report.py', 'QUERY = """\nHeartbeat\n| take 10\n"""\nother = "Heartbeat | project Computer"\n');
+      write('docs/guide.md', '```typescript\nconst q = "Heartbeat | take 1";\n```\n\n```kql\nHeartbeat\n| project TimeGenerated\n```\n');
+      write('rules/stale.yaml', 'name: Stale agents\nquery: |\n  Heartbeat\n  | summarize LastSeen = max(TimeGenerated) by Computer\nqueryFrequency: 1h\n');
+      write('rules/arm.json', '{\n  "properties": {\n    "query": "Heartbeat\\n| where Computer has \\"db\\""\n  }\n}\n');
+
+      const { queries } = await new QueryExampleScanner().scan('Heartbeat', [root]);
+      const found = queries.map(q => ({ file: q.file.slice(root.length + 1).replace(/\\/g, '/'), startLine: q.startLine, endLine: q.endLine, sourceKind: q.sourceKind }));
+
+      expect(found).toEqual([
+        { file: 'docs/guide.md', startLine: 6, endLine: 7, sourceKind: 'markdown' },
+        { file: 'queries/hunting.kql', startLine: 1, endLine: 2, sourceKind: 'kql' },
+        { file: 'rules/arm.json', startLine: 3, endLine: 3, sourceKind: 'arm-template' },
+        { file: 'rules/stale.yaml', startLine: 3, endLine: 4, sourceKind: 'sentinel-yaml' },
+        { file: 'scripts/report.py', startLine: 2, endLine: 3, sourceKind: 'python' },
+        { file: 'scripts/report.py', startLine: 5, endLine: 5, sourceKind: 'python' },
+        { file: 'src/client.ts', startLine: 3, endLine: 4, sourceKind: 'typescript' },
+      ]);
+      expect(queries.find(q => q.sourceKind === 'sentinel-yaml')?.query)
+        .toBe('Heartbeat\n| summarize LastSeen = max(TimeGenerated) by Computer');
+      expect(queries.find(q => q.sourceKind === 'arm-template')?.query).toBe('Heartbeat\n| where Computer has "db"');
+    });
+
+    it('should respect .gitignore files, including nested ones and negations', async () => {
+      write('.gitignore', 'build/\n*.generated.kql\n');
+      write('build/out.kql', 'Heartbeat | take 1');
+      write('a.generated.kql', 'Heartbeat | take 1');
+      write('nested/.gitignore', '*.kql\n!keep.kql\n');
+      write('nested/skip.kql', 'Heartbeat | take 1');
+      write('nested/keep.kql', 'Heartbeat | take 1');
+
+      const { queries } = await new QueryExampleScanner().scan('Heartbeat', [root]);
+
+      expect(queries.map(q => q.file.slice(root.length + 1).replace(/\\/g, '/'))).toEqual(['nested/keep.kql']);
+    });
+
+    it('should stop walking and reading files once the scan is aborted', async () => {
+      for (const name of ['a', 'b', 'c']) {
+        write(`queries/${name}.kql`, 'Heartbeat | take 1');
+      }
+      const controller = new AbortController();
+      const originalReadFile = fsPromises.readFile;
+      const readFile = vi.spyOn(fsPromises, 'readFile').mockImplementation(async (file, encoding) => {
+        if (String(file).endsWith('.kql')) {
+          controller.abort(new Error('Request cancelled'));
+        }
+        return originalReadFile(file, encoding);
+      });
+
+      try {
+        await expect(new QueryExampleScanner().scan('Heartbeat', [root], { abortSignal: controller.signal }))
+          .rejects.toThrow('Request cancelled');
+        // The first query file is read, none after the abort
+        expect(readFile.mock.calls.filter(([file]) => String(file).endsWith('.kql'))).toHaveLength(1);
+      } finally {
+        readFile.mockRestore();
+      }
+    });
+  });
+
+  describe('checkColumnReferences', () => {
+    const columns = ['TimeGenerated', 'Computer', 'Category'];
+
+    it('should accept known columns and names the query defines itself', () => {
+      const result = checkColumnReferences(
+        `Heartbeat
+| where TimeGenerated > ago(1d) and Computer startswith "web" // Foo is only a comment
+| extend Host = tolower(Computer)
+| summarize count(), LastSeen = max(TimeGenerated) by Host, Category
+| sort by count_ desc`,
+        'Heartbeat',
+        columns
+      );
+
+      expect(result).toEqual({ status: 'valid', unknownColumns: [] });
+    });
+
+    it('should report columns missing from the schema', () => {
+      const result = checkColumnReferences('Heartbeat | project Computer, OSType, ComputerIP', 'Heartbeat', columns);
+
+      expect(result.status).toBe('invalid');
+      expect(result.unknownColumns).toEqual(['OSType', 'ComputerIP']);
+    });
+
+    it('should not guess about joins and unions', () => {
+      const result = checkColumnReferences('Heartbeat | join kind=inner (Perf) on Computer', 'Heartbeat', columns);
+
+      expect(result.status).toBe('unknown');
+    });
+  });
+
+  describe('findWorkingQueryExamples', () => {
+    it('should validate examples against the cached schema and list valid ones first', async () => {
+      const config = createTestConfig({ querySearchPaths: [root] });
+      const backend = createMockBackend({
+        queryWorkspace: async () => queryResult([['TimeGenerated', 0, 'datetime'], ['Computer', 1, 'string']]),
+      });
+      const workspaces = new WorkspaceRegistry(config);
+      const schemaDiscovery = new SchemaDiscovery(config, backend, workspaces);
+      const codeGeneration = new CodeGeneration(config, backend, schemaDiscovery, workspaces);
+
+      write('old.kql', 'Heartbeat | project OSType');
+      write('new.kql', 'Heartbeat | project Computer');
+
+      const uncached = await codeGeneration.findWorkingQueryExamples({ tableName: 'Heartbeat' });
+      expect(uncached.examples.every(e => e.validation.status === 'unknown')).toBe(true);
+      expect(backend.queryWorkspace).not.toHaveBeenCalled();
+
+      await schemaDiscovery.getTableSchema('Heartbeat');
+      const result = await codeGeneration.findWorkingQueryExamples({ tableName: 'Heartbeat' });
+
+      expect(result.filesScanned).toBe(2);
+      expect(result.examples.map(e => [e.query, e.validation.status])).toEqual([
+        ['Heartbeat | project Computer', 'valid'],
+        ['Heartbeat | project OSType', 'invalid'],
+      ]);
+    });
+  });
+});
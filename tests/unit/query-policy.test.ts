@@ -0,0 +1,201 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { collectQueryReferences } from '../../src/services/KqlValidator.js';
+import { QueryPolicy, QueryPolicyError } from '../../src/services/QueryPolicy.js';
+import { SchemaDiscovery } from '../../src/services/SchemaDiscovery.js';
+import { CodeGeneration } from '../../src/services/CodeGeneration.js';
+import { WorkspaceRegistry } from '../../src/services/WorkspaceRegistry.js';
+import { PolicyBackend } from '../../src/backend/PolicyBackend.js';
+import { createServer, createServices } from '../../src/server.js';
+import { DEFAULT_DENIED_OPERATORS } from '../../src/config.js';
+import type { Config, QueryPolicyConfig } from '../../src/config.js';
+import { createTestConfig } from '../helpers/config.js';
+import { createMockBackend, queryResult, type MockBackend } from '../helpers/backend.js';
+
+function makeConfig(queryPolicy: Partial<QueryPolicyConfig> = {}): Config {
+  return createTestConfig({ queryPolicy: { deniedOperators: DEFAULT_DENIED_OPERATORS, deniedTables: [], ...queryPolicy } });
+}
+
+describe('Query policy', () => {
+  it('should collect tables, wildcards and operators from a query', () => {
+    const references = collectQueryReferences(
+      'let recent = SigninLogs | where TimeGenerated > ago(1d);\n' +
+      'union recent, table("AuditLogs"), Security* | evaluate bag_unpack(Properties) | summarize count() by bin(TimeGenerated, 1h)'
+    );
+
+    expect(references.tables).toEqual(['SigninLogs', 'AuditLogs']);
+    expect(references.wildcards).toEqual(['Security*']);
+    expect(references.operators).toEqual(expect.arrayContaining(['where', 'ago', 'union', 'evaluate', 'bag_unpack', 'summarize', 'bin']));
+    expect(references.operators).not.toContain('by');
+  });
+
+  it('should report each denied operator and cross-workspace call', () => {
+    const policy = new QueryPolicy(makeConfig());
+
+    const evaluation = policy.evaluate(
+      'union Heartbeat, workspace("other").Heartbeat | join (externaldata(Name: string) [@"https://example.com/list.csv"]) on Name',
+      { duration: 'PT1H' }
+    );
+
+    expect(evaluation.allowed).toBe(false);
+    expect(evaluation.violations.map(v => [v.rule, v.value])).toEqual([
+      ['denied-operator', 'workspace'],
+      ['denied-operator', 'externaldata'],
+    ]);
+    expect(policy.evaluate('Heartbeat | where Computer has "workspace"', { duration: 'PT1H' }).allowed).toBe(true);
+  });
+
+  it('should check tables against the allow and deny lists', () => {
+    const policy = new QueryPolicy(makeConfig({ allowedTables: ['Heartbeat', 'Security*'], deniedTables: ['SecurityIncident'] }));
+    const rules = (query: string) => policy.evaluate(query, { duration: 'PT1H' }).violations.map(v => [v.rule, v.value]);
+
+    expect(rules('Heartbeat | join SecurityAlert on Computer')).toEqual([]);
+    expect(rules('SecurityIncident | take 1')).toEqual([['denied-table', 'SecurityIncident']]);
+    expect(rules('SigninLogs | take 1')).toEqual([['table-not-allowed', 'SigninLogs']]);
+    expect(rules('union withsource = TableName * | distinct TableName')).toEqual([['denied-table', '*']]);
+  });
+
+  it('should limit the timespan and requested rows', () => {
+    const policy = new QueryPolicy(makeConfig({ maxTimespan: 'P7D', maxRows: 100 }));
+
+    expect(policy.evaluate('Heartbeat', { duration: 'P7D' }, 100).allowed).toBe(true);
+    expect(policy.evaluate('Heartbeat', { duration: 'P30D' }, 500).violations).toEqual([
+      { rule: 'max-timespan', message: 'The timespan P30D is longer than the allowed P7D', value: 'P30D' },
+      { rule: 'max-rows', message: '500 rows were requested but at most 100 are allowed', value: '500' },
+    ]);
+    expect(policy.evaluate('Heartbeat', {
+      startTime: new Date('2025-01-01T00:00:00Z'),
+      endTime: new Date('2025-02-01T00:00:00Z'),
+    }).violations[0].rule).toBe('max-timespan');
+  });
+
+  describe('PolicyBackend', () => {
+    let inner: MockBackend;
+
+    beforeEach(() => {
+      inner = createMockBackend();
+    });
+
+    it('should cap the rows of every query it passes on', async () => {
+      const backend = new PolicyBackend(inner, new QueryPolicy(makeConfig({ maxRows: 50 })));
+
+      await backend.queryWorkspace('ws', 'Heartbeat | getschema', { duration: 'PT1H' });
+
+      expect(inner.queryWorkspace).toHaveBeenCalledWith('ws', '(Heartbeat | getschema)\n| take 50', { duration: 'PT1H' }, undefined);
+    });
+
+    it('should refuse queries that break the policy without sending them', async () => {
+      const backend = new PolicyBackend(inner, new QueryPolicy(makeConfig()));
+
+      const error = await backend.queryWorkspace('ws', 'Heartbeat | evaluate python(typeof(*), "result = df")', { duration: 'PT1H' })
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(QueryPolicyError);
+      expect(error.violations).toEqual([{ rule: 'denied-operator', message: '"python" is not allowed', value: 'python' }]);
+      expect(error.message).toContain('- denied-operator: "python" is not allowed');
+      expect(inner.queryWorkspace).not.toHaveBeenCalled();
+    });
+
+    it('should let detect_table_workspace check allowed tables one by one', async () => {
+      const config = makeConfig({ allowedTables: ['Heartbeat', 'SecurityAlert'] });
+      vi.mocked(inner.queryWorkspace).mockImplementation(async (_workspaceId, query) => {
+        if (query.startsWith('SecurityAlert')) {
+          throw new Error("'getschema' operator: Failed to resolve table or column expression named 'SecurityAlert'");
+        }
+        return query.includes('getschema')
+          ? queryResult([['TimeGenerated', 0, 'System.DateTime']])
+          : queryResult([[42, '2025-11-01T00:00:00Z', '2025-11-19T00:00:00Z']]);
+      });
+      const generator = new CodeGeneration(config, new PolicyBackend(inner, new QueryPolicy(config)), {} as SchemaDiscovery, new WorkspaceRegistry(config));
+
+      const heartbeat = await generator.detectTableWorkspace('Heartbeat');
+      const alerts = await generator.detectTableWorkspace('SecurityAlert');
+
+      expect(vi.mocked(inner.queryWorkspace).mock.calls[0][1]).toBe('Heartbeat | getschema | take 1');
+      expect(heartbeat.foundIn).toMatchObject([{ workspaceName: 'default', hasData: true, rowCount: 42 }]);
+      expect(alerts.notFoundIn).toMatchObject([{ workspaceName: 'default', reason: 'Table does not exist' }]);
+    });
+  });
+
+  describe('testQuery', () => {
+    let backend: MockBackend;
+    let discovery: SchemaDiscovery;
+
+    beforeEach(() => {
+      const config = makeConfig({ maxTimespan: 'P1D', maxRows: 20 });
+      backend = createMockBackend();
+      discovery = new SchemaDiscovery(config, backend, new WorkspaceRegistry(config));
+    });
+
+    it('should report the plan on a dry run without running the query', async () => {
+      const result = await discovery.testQuery({ query: 'Heartbeat', maxRows: 5, timespan: { duration: '7d' }, dryRun: true });
+
+      expect(backend.queryWorkspace).not.toHaveBeenCalled();
+      expect(result.status).toBe('DryRun');
+      expect(result.plan).toMatchObject({
+        workspaceId: 'test-workspace-id',
+        query: '((Heartbeat)\n| take 6)\n| take 20',
+        timespan: { duration: 'P7D' },
+        policy: { allowed: false, tables: ['Heartbeat'] },
+      });
+      expect(result.plan?.policy.violations.map(v => v.rule)).toEqual(['max-timespan']);
+    });
+
+    it('should throw the violations instead of running a blocked query', async () => {
+      await expect(discovery.testQuery({ query: 'Heartbeat', maxRows: 50 })).rejects.toThrow(QueryPolicyError);
+      expect(backend.queryWorkspace).not.toHaveBeenCalled();
+    });
+
+    it('should report truncation when maxRows equals the policy row limit', async () => {
+      const config = makeConfig({ maxRows: 20 });
+      // A table of 30 rows, cut at the innermost take like Log Analytics would
+      backend.queryWorkspace.mockImplementation(async (_workspaceId, query) => {
+        const take = Math.min(...[...query.matchAll(/take (\d+)/g)].map(match => Number(match[1])));
+        return queryResult(Array.from({ length: Math.min(take, 30) }, (_, i) => [i]));
+      });
+      const policyDiscovery = new SchemaDiscovery(config, new PolicyBackend(backend, new QueryPolicy(config)), new WorkspaceRegistry(config));
+
+      const full = await policyDiscovery.testQuery({ query: 'Heartbeat', maxRows: 20 });
+      expect(backend.queryWorkspace.mock.calls[0][1]).toBe('((Heartbeat)\n| take 21)\n| take 20');
+      expect(full).toMatchObject({ rowCount: 20, truncated: true });
+
+      const below = await policyDiscovery.testQuery({ query: 'Heartbeat', maxRows: 19 });
+      expect(below).toMatchObject({ rowCount: 19, truncated: true });
+
+      backend.queryWorkspace.mockResolvedValueOnce(queryResult([[1], [2]]));
+      expect(await policyDiscovery.testQuery({ query: 'Heartbeat', maxRows: 20 })).toMatchObject({ rowCount: 2, truncated: false });
+    });
+  });
+
+  describe('MCP tools', () => {
+    it('should return the violations as a structured error from every tool that runs KQL', async () => {
+      // Replay mode with no fixtures: nothing may reach the backend
+      const config = makeConfig({ deniedTables: ['SecurityAlert'] });
+      config.backendMode = 'replay';
+      const server = createServer(createServices(config));
+      const client = new Client({ name: 'test', version: '1.0.0' });
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await server.connect(serverTransport);
+      await client.connect(clientTransport);
+
+      const calls = [
+        { name: 'test_kql_query', arguments: { query: 'SecurityAlert' } },
+        { name: 'get_kql_table_schema', arguments: { tableName: 'SecurityAlert' } },
+        { name: 'detect_table_workspace', arguments: { tableName: 'SecurityAlert' } },
+        { name: 'generate_typescript_types', arguments: { tableName: 'SecurityAlert' } },
+      ];
+      for (const call of calls) {
+        const result = await client.callTool(call);
+        expect(result.isError, call.name).toBe(true);
+        const [content] = result.content as { type: string; text: string }[];
+        expect(JSON.parse(content.text)).toEqual({
+          error: 'Query blocked by the query policy',
+          violations: [{ rule: 'denied-table', message: expect.any(String), value: 'SecurityAlert' }],
+        });
+      }
+
+      await client.close();
+    });
+  });
+});
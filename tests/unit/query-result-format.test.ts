@@ -0,0 +1,86 @@
+import { describe, it, expect, vi } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { QueryResultExporter, formatQueryResult } from '../../src/services/QueryResultFormat.js';
+import type { QueryResult } from '../../src/services/SchemaDiscovery.js';
+import { createTestConfig } from '../helpers/config.js';
+
+function makeResult(): QueryResult {
+  return {
+    status: 'Success',
+    timespan: { duration: 'PT1H' },
+    name: 'PrimaryResult',
+    columns: [
+      { name: 'TimeGenerated', type: 'datetime' },
+      { name: 'AlertName', type: 'string' },
+      { name: 'Entities', type: 'dynamic' },
+    ],
+    rows: [
+      [new Date('2025-11-18T07:12:00Z'), 'Sign-in from "unfamiliar" location, flagged', [{ Type: 'account', Name: 'alice' }]],
+      ['2025-11-18 08:00:00Z', 'Multi-line\nalert | piped', '{"Type":"ip"}'],
+      [null, 'Quiet', null],
+    ],
+    rowCount: 3,
+    truncated: true,
+  };
+}
+
+describe('Query result formats', () => {
+  it('should escape CSV cells and serialize dynamic values as JSON', () => {
+    expect(formatQueryResult(makeResult(), 'csv').split('\n')).toEqual([
+      'TimeGenerated,AlertName,Entities',
+      '2025-11-18T07:12:00.000Z,"Sign-in from ""unfamiliar"" location, flagged","[{""Type"":""account"",""Name"":""alice""}]"',
+      '2025-11-18T08:00:00.000Z,"Multi-line',
+      'alert | piped","{""Type"":""ip""}"',
+      ',Quiet,',
+    ]);
+  });
+
+  it('should render a markdown table with escaped pipes and line breaks', () => {
+    const markdown = formatQueryResult(makeResult(), 'markdown');
+
+    expect(markdown).toContain('| TimeGenerated | AlertName | Entities |\n| --- | --- | --- |');
+    expect(markdown).toContain('| 2025-11-18T08:00:00.000Z | Multi-line<br>alert \\| piped | {"Type":"ip"} |');
+    expect(markdown).toContain('_Showing the first 3 rows._');
+  });
+
+  it('should write JSONL and records with parsed dynamic values and ISO datetimes', () => {
+    const [first, second] = formatQueryResult(makeResult(), 'jsonl').split('\n').map(line => JSON.parse(line));
+    expect(first).toEqual({ TimeGenerated: '2025-11-18T07:12:00.000Z', AlertName: 'Sign-in from "unfamiliar" location, flagged', Entities: [{ Type: 'account', Name: 'alice' }] });
+    expect(second.Entities).toEqual({ Type: 'ip' });
+
+    const records = JSON.parse(formatQueryResult(makeResult(), 'records'));
+    expect(records.rows[2]).toEqual({ TimeGenerated: null, AlertName: 'Quiet', Entities: null });
+    expect(records.truncated).toBe(true);
+  });
+
+  it('should export the whole result and return a preview', async () => {
+    const config = createTestConfig();
+    const exportDir = config.exportDir;
+    const exporter = new QueryResultExporter(config);
+
+    const { exportPath, exportedRows, preview } = await exporter.export(makeResult(), 'csv', 1);
+
+    expect(exportPath.startsWith(exportDir)).toBe(true);
+    expect(exportPath.endsWith('.csv')).toBe(true);
+    expect(exportedRows).toBe(3);
+    expect(preview.rows).toHaveLength(1);
+    expect(readFileSync(exportPath, 'utf-8')).toBe(formatQueryResult(makeResult(), 'csv') + '\n');
+  });
+
+  it('should give exports started in the same millisecond their own files', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      vi.setSystemTime(new Date('2025-11-19T10:30:00.000Z'));
+      const exporter = new QueryResultExporter(createTestConfig());
+
+      const [first, second] = await Promise.all([exporter.export(makeResult(), 'csv'), exporter.export(makeResult(), 'jsonl')]);
+      const third = await exporter.export(makeResult(), 'csv');
+
+      expect(new Set([first.exportPath, second.exportPath, third.exportPath]).size).toBe(3);
+      expect(third.exportPath).toContain('query-2025-11-19T10-30-00-000Z-');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
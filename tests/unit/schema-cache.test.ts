@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { SchemaDiscovery } from '../../src/services/SchemaDiscovery.js';
+import { WorkspaceRegistry } from '../../src/services/WorkspaceRegistry.js';
+import { CACHE_FORMAT_VERSION, SchemaCache } from '../../src/services/SchemaCache.js';
+import type { Config } from '../../src/config.js';
+import { createTestConfig } from '../helpers/config.js';
+import { createMockBackend, queryResult, type MockBackend } from '../helpers/backend.js';
+
+describe('Schema Cache', () => {
+  let config: Config;
+  let backend: MockBackend;
+  let columns: any[][];
+
+  const createDiscovery = () => new SchemaDiscovery(config, backend, new WorkspaceRegistry(config));
+
+  beforeEach(() => {
+    config = createTestConfig();
+
+    columns = [['TimeGenerated', 0, 'datetime'], ['Computer', 1, 'string']];
+    backend = createMockBackend({
+      queryWorkspace: async () => queryResult(columns.map(c => [...c])),
+    });
+  });
+
+  it('should store entries with version, workspace, expiry and content hash', async () => {
+    await createDiscovery().getTableSchema('Heartbeat');
+
+    const file = 'table%3Adefault%3AHeartbeat.json';
+    const entry = JSON.parse(readFileSync(join(config.schemaCacheDir, file), 'utf-8'));
+
+    expect(entry.formatVersion).toBe(CACHE_FORMAT_VERSION);
+    expect(entry.workspace).toBe('default');
+    expect(entry.workspaceId).toBe('test-workspace-id');
+    expect(Date.parse(entry.expiresAt) - Date.parse(entry.cachedAt)).toBe(3600 * 1000);
+    expect(entry.contentHash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('should serve expired entries immediately and refresh them in the background', async () => {
+    config.schemaCacheTtl.kql = 0;
+    const discovery = createDiscovery();
+    await discovery.getTableSchema('Heartbeat');
+
+    columns.push(['Category', 2, 'string']);
+    const stale = await discovery.getTableSchema('Heartbeat');
+    expect(stale.cached).toBe(true);
+    expect(stale.columns).toHaveLength(2);
+
+    await vi.waitFor(() => expect(backend.queryWorkspace).toHaveBeenCalledTimes(2));
+    await vi.waitFor(async () => {
+      expect((await discovery.getTableSchema('Heartbeat')).columns).toHaveLength(3);
+    });
+  });
+
+  it('should discard entries written by an incompatible cache format', async () => {
+    writeFileSync(
+      join(config.schemaCacheDir, 'table%3Adefault%3AHeartbeat.json'),
+      JSON.stringify({ tableName: 'Heartbeat', columns: [], discoveredAt: '2025-01-01T00:00:00.000Z' })
+    );
+
+    const schema = await createDiscovery().getTableSchema('Heartbeat');
+
+    expect(schema.cached).toBe(false);
+    expect(schema.columns).toHaveLength(2);
+    expect(backend.queryWorkspace).toHaveBeenCalledTimes(1);
+  });
+
+  it('should clear every cached entry from memory and disk', async () => {
+    const discovery = createDiscovery();
+    await discovery.getTableSchema('Heartbeat');
+    await discovery.getTableSchema('Syslog');
+
+    expect(await discovery.clearCache()).toBe(2);
+    expect(await discovery.listCachedSchemas()).toEqual([]);
+
+    expect((await discovery.getTableSchema('Heartbeat')).cached).toBe(false);
+    expect(backend.queryWorkspace).toHaveBeenCalledTimes(3);
+  });
+
+  it('should leave files that are not cache entries in the cache directory', async () => {
+    const discovery = createDiscovery();
+    await discovery.getTableSchema('Heartbeat');
+    mkdirSync(join(config.schemaCacheDir, 'history', 'table%3Adefault%3AHeartbeat'), { recursive: true });
+    mkdirSync(join(config.schemaCacheDir, 'metadata'));
+    writeFileSync(join(config.schemaCacheDir, 'metadata', 'graph-v1.0.xml'), '<edmx:Edmx />');
+    writeFileSync(join(config.schemaCacheDir, 'package.json'), '{ "name": "unrelated" }');
+    writeFileSync(join(config.schemaCacheDir, 'notes.txt'), 'keep me');
+    mkdirSync(join(config.schemaCacheDir, 'projects'));
+
+    await discovery.clearCache();
+
+    expect(readdirSync(config.schemaCacheDir).sort()).toEqual(['notes.txt', 'package.json', 'projects']);
+  });
+
+  it('should keep keys that differ only in separators in their own files', async () => {
+    const keys = ['api:v1.0:/users', 'api:v1.0:_users', 'api_v1.0:/users', 'api:v1.0:/users*'];
+    const cache = new SchemaCache(config);
+    for (const [i, key] of keys.entries()) {
+      await cache.set(key, 'graph', { version: i });
+    }
+
+    const reloaded = new SchemaCache(config);
+    for (const [i, key] of keys.entries()) {
+      expect((await reloaded.get(key))?.schema).toEqual({ version: i });
+      expect(await reloaded.listSnapshots(key)).toHaveLength(1);
+    }
+    expect(readdirSync(join(config.schemaCacheDir, 'history'))).toHaveLength(keys.length);
+  });
+});
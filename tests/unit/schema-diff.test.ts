@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SchemaDiscovery } from '../../src/services/SchemaDiscovery.js';
+import { WorkspaceRegistry } from '../../src/services/WorkspaceRegistry.js';
+import { diffColumns, diffProperties } from '../../src/services/SchemaDiff.js';
+import type { Config } from '../../src/config.js';
+import { createTestConfig } from '../helpers/config.js';
+import { createMockBackend, queryResult, type MockBackend } from '../helpers/backend.js';
+
+describe('Schema Diff', () => {
+  const column = (name: string, type: string, ordinal: number) => ({ name, type, ordinal });
+
+  it('should report added, removed and retyped columns', () => {
+    const changes = diffColumns(
+      [column('TimeGenerated', 'datetime', 0), column('Computer', 'string', 1), column('Score', 'int', 2)],
+      [column('TimeGenerated', 'datetime', 0), column('Score', 'real', 1), column('Category', 'string', 2)]
+    );
+
+    expect(changes.added).toEqual([column('Category', 'string', 2)]);
+    expect(changes.removed).toEqual([column('Computer', 'string', 1)]);
+    expect(changes.retyped).toEqual([{ name: 'Score', from: 'int', to: 'real' }]);
+    expect(changes.reordered).toEqual([]);
+  });
+
+  it('should only flag columns that moved relative to the others', () => {
+    const changes = diffColumns(
+      [column('A', 'string', 0), column('B', 'string', 1), column('C', 'string', 2)],
+      [column('B', 'string', 0), column('C', 'string', 1), column('A', 'string', 2)]
+    );
+
+    expect(changes.reordered).toEqual([{ name: 'A', fromOrdinal: 0, toOrdinal: 2 }]);
+  });
+
+  it('should report Graph properties whose type or required-ness changed', () => {
+    const changes = diffProperties(
+      { id: { type: 'string', required: true }, mail: { type: 'string', required: true } },
+      { id: { type: 'string', required: true }, mail: { type: 'string', required: false }, jobTitle: { type: 'string', required: false } }
+    );
+
+    expect(changes.added).toEqual([{ name: 'jobTitle', type: 'string', required: false }]);
+    expect(changes.removed).toEqual([]);
+    expect(changes.changed).toEqual([
+      { name: 'mail', from: { type: 'string', required: true }, to: { type: 'string', required: false } },
+    ]);
+  });
+
+  it('should report nested Graph property changes by path', () => {
+    const changes = diffProperties(
+      {
+        location: { type: 'object', required: true, properties: { city: { type: 'string', required: true } } },
+        licenses: { type: 'array', required: true, items: { type: 'object', required: true, properties: { skuId: { type: 'string', required: true } } } },
+      },
+      {
+        location: { type: 'object', required: true, properties: { city: { type: 'null | string', required: false } } },
+        licenses: { type: 'array', required: true, items: { type: 'object', required: true, properties: { skuId: { type: 'string', required: true }, state: { type: 'string', required: true } } } },
+      }
+    );
+
+    expect(changes.added).toEqual([{ name: 'licenses[].state', type: 'string', required: true }]);
+    expect(changes.changed).toEqual([
+      { name: 'location.city', from: { type: 'string', required: true }, to: { type: 'null | string', required: false } },
+    ]);
+  });
+
+  describe('compareSchema', () => {
+    let config: Config;
+    let backend: MockBackend;
+    let columns: any[][];
+    let discovery: SchemaDiscovery;
+
+    beforeEach(() => {
+      config = createTestConfig();
+
+      columns = [['TimeGenerated', 0, 'datetime'], ['Computer', 1, 'string']];
+      backend = createMockBackend({
+        queryWorkspace: async () => queryResult(columns.map(c => [...c])),
+      });
+      discovery = new SchemaDiscovery(config, backend, new WorkspaceRegistry(config));
+    });
+
+    it('should compare the cached schema with the live one without updating the cache', async () => {
+      await discovery.getTableSchema('Heartbeat');
+      columns.push(['Category', 2, 'string']);
+
+      const comparison = await discovery.compareSchema({ source: 'Heartbeat' });
+
+      expect(comparison.cacheKey).toBe('table:default:Heartbeat');
+      expect(comparison.identical).toBe(false);
+      expect(comparison.columns?.added).toEqual([column('Category', 'string', 2)]);
+      expect((await discovery.getTableSchema('Heartbeat')).columns).toHaveLength(2);
+    });
+
+    it('should keep a snapshot per refresh and compare against the previous one', async () => {
+      await discovery.getTableSchema('Heartbeat');
+      columns[1][2] = 'dynamic';
+      await discovery.refreshSchema('Heartbeat');
+
+      const comparison = await discovery.compareSchema({ source: 'Heartbeat', from: 'previous', to: 'cached' });
+
+      expect(comparison.snapshots).toHaveLength(2);
+      expect(comparison.from.ref).toBe('previous');
+      expect(comparison.columns?.retyped).toEqual([{ name: 'Computer', from: 'string', to: 'dynamic' }]);
+
+      const bySnapshotId = await discovery.compareSchema({
+        source: 'Heartbeat',
+        from: comparison.snapshots[0].id,
+        to: comparison.snapshots[1].id,
+      });
+      expect(bySnapshotId.columns).toEqual(comparison.columns);
+    });
+
+    it('should throw when a snapshot does not exist', async () => {
+      await discovery.getTableSchema('Heartbeat');
+
+      await expect(discovery.compareSchema({ source: 'Heartbeat', from: 'previous' }))
+        .rejects.toThrow('No "previous" schema version for table:default:Heartbeat');
+    });
+  });
+});
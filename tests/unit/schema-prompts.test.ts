@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SchemaDiscovery } from '../../src/services/SchemaDiscovery.js';
+import { SchemaPrompts } from '../../src/services/SchemaPrompts.js';
+import { CodeGeneration } from '../../src/services/CodeGeneration.js';
+import { KqlValidator } from '../../src/services/KqlValidator.js';
+import { WorkspaceRegistry } from '../../src/services/WorkspaceRegistry.js';
+import type { Config } from '../../src/config.js';
+import { createTestConfig } from '../helpers/config.js';
+import { createMockBackend, queryResult, graphResponse, type MockBackend } from '../helpers/backend.js';
+
+describe('Schema prompts', () => {
+  let config: Config;
+  let backend: MockBackend;
+  let columns: any[][];
+  let discovery: SchemaDiscovery;
+  let prompts: SchemaPrompts;
+
+  const promptText = (prompt: { messages: Array<{ content: { text: string } }> }) => prompt.messages[0].content.text;
+
+  beforeEach(() => {
+    const queryDir = mkdtempSync(join(tmpdir(), 'azure-schema-mcp-prompt-queries-'));
+    writeFileSync(join(queryDir, 'alerts.kql'), 'SecurityAlert\n| where Severity == "High"\n| project AlertName\n');
+    writeFileSync(join(queryDir, 'stale.kql'), 'SecurityAlert\n| project RemovedColumn\n');
+
+    config = createTestConfig({ querySearchPaths: [queryDir] });
+
+    columns = [['TimeGenerated', 0, 'datetime'], ['AlertName', 1, 'string'], ['Severity', 2, 'string']];
+    backend = createMockBackend({
+      queryWorkspace: async (_workspaceId, query) => query.includes('getschema')
+        ? queryResult(columns.map(c => [...c]))
+        : queryResult(
+          [['Impossible travel', 'x'.repeat(500)]],
+          [{ name: 'AlertName', type: 'string' }, { name: 'Description', type: 'string' }]
+        ),
+      fetchGraph: async () => graphResponse({ value: [{ id: '1', displayName: 'Adele', assignedLicenses: [{ skuId: 'a' }] }] }),
+    });
+
+    const workspaces = new WorkspaceRegistry(config);
+    discovery = new SchemaDiscovery(config, backend, workspaces);
+    prompts = new SchemaPrompts(discovery, new CodeGeneration(config, backend, discovery, workspaces), new KqlValidator(discovery, workspaces));
+  });
+
+  it('should embed columns, truncated sample rows and working example queries', async () => {
+    const prompt = await prompts.writeDetectionQuery({ table: 'SecurityAlert', behavior: 'impossible travel' });
+    const text = promptText(prompt);
+
+    expect(prompt.description).toBe('Write a detection query on SecurityAlert');
+    expect(prompt.messages[0].role).toBe('user');
+    expect(text).toContain('that detects: impossible travel');
+    expect(text).toContain('| AlertName | string |');
+    expect(text).toContain('"AlertName": "Impossible travel"');
+    expect(text).toContain('(500 characters)');
+    expect(text).toContain('alerts.kql:1');
+    expect(text).not.toContain('RemovedColumn');
+    expect(vi.mocked(backend.queryWorkspace).mock.calls[1][2]).toEqual({ duration: 'P1D' });
+  });
+
+  it('should note unavailable sample rows instead of failing', async () => {
+    vi.mocked(backend.queryWorkspace).mockImplementation(async (_workspaceId: string, query: string) => {
+      if (query.includes('getschema')) {
+        return queryResult(columns);
+      }
+      throw new Error('Forbidden');
+    });
+
+    const text = promptText(await prompts.investigateTable({ table: 'SecurityAlert', focus: 'high severity alerts' }));
+
+    expect(text).toContain('_Sample rows unavailable: Forbidden_');
+    expect(text).toContain('Focus of the investigation: high severity alerts');
+  });
+
+  it('should explain a Graph endpoint from its sampled properties', async () => {
+    const text = promptText(await prompts.explainTable({ source: '/users', apiVersion: 'beta' }));
+
+    expect(text).toContain('Microsoft Graph beta endpoint `/users`');
+    expect(text).toContain('- displayName: string (always present)');
+    expect(text).toContain('- assignedLicenses: object[] (always present)\n  - skuId: string (always present)');
+    expect(backend.queryWorkspace).not.toHaveBeenCalled();
+  });
+
+  it('should embed the column changes and validation issues when migrating a query', async () => {
+    await discovery.getTableSchema('SecurityAlert');
+    columns[2] = ['AlertSeverity', 2, 'string'];
+    await discovery.refreshSchema('SecurityAlert');
+
+    const text = promptText(await prompts.migrateQueryToNewSchema({
+      query: 'SecurityAlert | where Severity == "High"',
+      table: 'SecurityAlert',
+    }));
+
+    expect(text).toContain('- Added: AlertSeverity (string)');
+    expect(text).toContain('- Removed: Severity (string)');
+    expect(text).toMatch(/- error \(line 1, column \d+\): .*Severity/);
+    expect(text).not.toContain('## Sample rows');
+  });
+});
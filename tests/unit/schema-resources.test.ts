@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SchemaDiscovery } from '../../src/services/SchemaDiscovery.js';
+import { SchemaResources, parseSchemaResourceUri } from '../../src/services/SchemaResources.js';
+import { WorkspaceRegistry } from '../../src/services/WorkspaceRegistry.js';
+import type { SchemaResourceNotifier } from '../../src/services/SchemaResources.js';
+import type { Config } from '../../src/config.js';
+import { createTestConfig } from '../helpers/config.js';
+import { createMockBackend, queryResult, graphResponse, type MockBackend } from '../helpers/backend.js';
+
+describe('Schema resources', () => {
+  let config: Config;
+  let backend: MockBackend;
+  let columns: any[][];
+  let discovery: SchemaDiscovery;
+  let notifier: SchemaResourceNotifier;
+  let resources: SchemaResources;
+
+  beforeEach(() => {
+    config = createTestConfig();
+
+    columns = [['TimeGenerated', 0, 'datetime'], ['Computer', 1, 'string']];
+    backend = createMockBackend({
+      queryWorkspace: async () => queryResult(columns.map(c => [...c])),
+      fetchGraph: async () => graphResponse({ value: [{ id: '1', displayName: 'Adele' }] }),
+    });
+    discovery = new SchemaDiscovery(config, backend, new WorkspaceRegistry(config));
+    notifier = { resourceUpdated: vi.fn(), resourceListChanged: vi.fn() };
+    resources = new SchemaResources(discovery, notifier);
+  });
+
+  it('should parse and reject resource URIs', () => {
+    expect(parseSchemaResourceUri('schema://kql/default/Heartbeat')).toEqual({ kind: 'kql', workspace: 'default', table: 'Heartbeat' });
+    expect(parseSchemaResourceUri('schema://graph/beta/users/%7Bid%7D/memberOf')).toEqual({
+      kind: 'graph',
+      apiVersion: 'beta',
+      endpoint: '/users/{id}/memberOf',
+    });
+    expect(() => parseSchemaResourceUri('schema://graph/v2.0/users')).toThrow('Not a schema resource');
+  });
+
+  it('should list cached table and Graph schemas, paging with a cursor', async () => {
+    for (let i = 0; i < 55; i++) {
+      await discovery.getTableSchema(`Table${String(i).padStart(2, '0')}`);
+    }
+    await discovery.getGraphAPISchema('/users', undefined, 'beta');
+
+    // A fresh instance lists what is on disk
+    const fromDisk = new SchemaResources(new SchemaDiscovery(config, backend, new WorkspaceRegistry(config)), notifier);
+    const first = await fromDisk.list();
+    const second = await fromDisk.list(first.nextCursor);
+
+    expect(first.resources).toHaveLength(50);
+    expect(first.resources[0]).toMatchObject({
+      uri: 'schema://graph/beta/users',
+      name: '/users',
+      mimeType: 'application/json',
+    });
+    expect(second.resources.map(resource => resource.uri).slice(-1)).toEqual(['schema://kql/default/Table54']);
+    expect(second.resources).toHaveLength(6);
+    expect(second.nextCursor).toBeUndefined();
+    await expect(fromDisk.list('not-a-cursor')).rejects.toThrow('Invalid cursor');
+  });
+
+  it('should discover a schema on first read and announce the new resource', async () => {
+    const result = await resources.read('schema://kql/default/Heartbeat');
+
+    expect(result.contents[0].uri).toBe('schema://kql/default/Heartbeat');
+    expect(JSON.parse(result.contents[0].text).columns).toHaveLength(2);
+    expect(notifier.resourceListChanged).toHaveBeenCalledTimes(1);
+
+    await resources.read('schema://kql/default/Heartbeat');
+    expect(backend.queryWorkspace).toHaveBeenCalledTimes(1);
+  });
+
+  it('should notify subscribers when a refresh changes the schema', async () => {
+    await discovery.getTableSchema('Heartbeat');
+    resources.subscribe('schema://kql/default/Heartbeat');
+
+    await discovery.refreshSchema('Heartbeat');
+    expect(notifier.resourceUpdated).not.toHaveBeenCalled();
+
+    columns.push(['Category', 2, 'string']);
+    await discovery.refreshSchema('Heartbeat');
+    expect(notifier.resourceUpdated).toHaveBeenCalledWith('schema://kql/default/Heartbeat');
+
+    resources.unsubscribe('schema://kql/default/Heartbeat');
+    columns.pop();
+    await discovery.refreshSchema('Heartbeat');
+    expect(notifier.resourceUpdated).toHaveBeenCalledTimes(1);
+  });
+
+  it('should notify subscribers when a background refresh changes the schema', async () => {
+    config.schemaCacheTtl.kql = 0;
+    await discovery.getTableSchema('Heartbeat');
+    resources.subscribe('schema://kql/default/Heartbeat');
+
+    columns.push(['Category', 2, 'string']);
+    await discovery.getTableSchema('Heartbeat');
+
+    await vi.waitFor(() => expect(notifier.resourceUpdated).toHaveBeenCalledWith('schema://kql/default/Heartbeat'));
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { TableCatalog } from '../../src/services/TableCatalog.js';
+import type { ResolvedWorkspace } from '../../src/services/WorkspaceRegistry.js';
+import { createMockBackend, queryResult, graphResponse, type MockBackend } from '../helpers/backend.js';
+
+const WORKSPACE: ResolvedWorkspace = {
+  alias: 'sentinel',
+  workspaceId: 'ws-id',
+  resourceId: '/subscriptions/sub/resourceGroups/rg/providers/Microsoft.OperationalInsights/workspaces/sentinel',
+  isDefault: true,
+  registered: true,
+};
+
+const USAGE_ROWS = [
+  ['SecurityAlert', new Date('2025-11-18T07:00:00Z'), 12.5, 12.5, ['SecurityInsights']],
+  ['AppEvents_CL', '2025-11-10T10:00:00Z', 1.2345, 1.2345, '["LogManagement"]'],
+  ['AzureDiagnostics', new Date('2025-11-18T06:00:00Z'), 0, 40, ['LogManagement']],
+  ['Heartbeat', new Date('2025-11-18T07:00:00Z'), 0, 3, ['LogManagement']],
+];
+
+const MANAGEMENT_TABLES = [
+  { name: 'SecurityAlert', properties: { plan: 'Analytics', retentionInDays: 90, schema: { solutions: ['SecurityInsights'], categories: ['Security'] } } },
+  { name: 'StorageBlobLogs', properties: { plan: 'Basic', retentionInDays: 30, schema: { solutions: ['LogManagement'], categories: ['Azure Resources'] } } },
+];
+
+describe('TableCatalog', () => {
+  let backend: MockBackend;
+  let catalog: TableCatalog;
+
+  beforeEach(() => {
+    backend = createMockBackend({
+      queryWorkspace: async (_workspaceId, query) => queryResult(query.startsWith('Usage')
+        ? USAGE_ROWS
+        : [['SecurityAlert', 420], ['AppEvents_CL', 12]]),
+      fetchManagement: async () => graphResponse({ value: MANAGEMENT_TABLES }),
+    });
+    catalog = new TableCatalog(backend);
+  });
+
+  it('should combine Usage and management-plane metadata into categorized tables', async () => {
+    const result = await catalog.list(WORKSPACE);
+
+    // Row estimates scan the tables themselves, so the default reads Usage alone
+    expect(backend.queryWorkspace).toHaveBeenCalledTimes(1);
+    expect(result.tables.every(table => table.rowEstimate === undefined)).toBe(true);
+    expect(backend.fetchManagement).toHaveBeenCalledWith(
+      'https://management.azure.com/subscriptions/sub/resourceGroups/rg/providers/Microsoft.OperationalInsights/workspaces/sentinel/tables?api-version=2022-10-01',
+      { abortSignal: undefined }
+    );
+    expect(result.sources).toEqual(['usage', 'management']);
+    expect(result.tables.map(table => [table.name, table.category])).toEqual([
+      ['AppEvents_CL', 'custom'],
+      ['AzureDiagnostics', 'azure-diagnostics'],
+      ['Heartbeat', 'other'],
+      ['SecurityAlert', 'sentinel'],
+      ['StorageBlobLogs', 'azure-diagnostics'],
+    ]);
+    expect(result.tables[0]).toEqual({
+      name: 'AppEvents_CL',
+      category: 'custom',
+      lastIngestion: '2025-11-10T10:00:00.000Z',
+      billableMB: 1.235,
+      totalMB: 1.235,
+      solutions: ['LogManagement'],
+    });
+    expect(result.tables[3]).toMatchObject({ plan: 'Analytics', retentionInDays: 90, categories: ['Security'] });
+    expect(result.tables[4].lastIngestion).toBeUndefined();
+  });
+
+  it('should filter by pattern, category and recent ingestion', async () => {
+    const list = async (params: object) =>
+      (await catalog.list(WORKSPACE, { includeRowEstimates: false, ...params })).tables.map(table => table.name);
+
+    expect(await list({ pattern: 'security*' })).toEqual(['SecurityAlert']);
+    expect(await list({ category: 'azure-diagnostics' })).toEqual(['AzureDiagnostics', 'StorageBlobLogs']);
+    expect(await list({ hasDataSince: '2025-11-15T00:00:00Z' })).toEqual(['AzureDiagnostics', 'Heartbeat', 'SecurityAlert']);
+    await expect(list({ hasDataSince: 'last week' })).rejects.toThrow('hasDataSince must be');
+  });
+
+  it('should count rows only for the listed tables with recent ingestion', async () => {
+    const result = await catalog.list(WORKSPACE, { pattern: '*_CL', lookbackDays: 7, includeRowEstimates: true });
+
+    const countQuery = vi.mocked(backend.queryWorkspace).mock.calls[1];
+    expect(countQuery[1]).toBe("union withsource = TableName isfuzzy = true ['AppEvents_CL']\n| where TimeGenerated > ago(7d)\n| summarize RowEstimate = count() by TableName");
+    expect(countQuery[2]).toEqual({ duration: 'P7D' });
+    expect(result.tables).toMatchObject([{ name: 'AppEvents_CL', rowEstimate: 12 }]);
+  });
+
+  it('should fall back to Usage alone when the management plane fails', async () => {
+    vi.mocked(backend.fetchManagement).mockResolvedValueOnce({ ok: false, status: 403, statusText: 'Forbidden', body: null });
+
+    const result = await catalog.list(WORKSPACE, { includeRowEstimates: false });
+
+    expect(result.sources).toEqual(['usage']);
+    expect(result.count).toBe(4);
+    expect(result.warnings).toEqual(['Table metadata unavailable from the management plane: 403 Forbidden']);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { LogsQueryResultStatus } from '@azure/monitor-query';
+import { limitQueryRows } from '../../src/services/KqlValidator.js';
+import { SchemaDiscovery } from '../../src/services/SchemaDiscovery.js';
+import { WorkspaceRegistry } from '../../src/services/WorkspaceRegistry.js';
+import { createTestConfig } from '../helpers/config.js';
+import { createMockBackend, logsTable, type MockBackend } from '../helpers/backend.js';
+
+const COLUMNS = [{ name: 'Computer', type: 'string' }, { name: 'Count', type: 'long' }];
+
+describe('Query testing', () => {
+  describe('limitQueryRows', () => {
+    it('should wrap every tabular statement regardless of identifiers that mention take or limit', () => {
+      expect(limitQueryRows('Heartbeat | where IsTaken == true and Note has "limit"', 11))
+        .toBe('(Heartbeat | where IsTaken == true and Note has "limit")\n| take 11');
+      expect(limitQueryRows('let cutoff = ago(1d);\nHeartbeat | take 1000 // all\n; Perf', 11))
+        .toBe('let cutoff = ago(1d);\n(Heartbeat | take 1000)\n| take 11 // all\n; (Perf)\n| take 11');
+    });
+
+    it('should keep render as the last operator', () => {
+      expect(limitQueryRows('Perf | summarize count() by bin(TimeGenerated, 1h) | render timechart', 5))
+        .toBe('(Perf | summarize count() by bin(TimeGenerated, 1h))\n| take 5 | render timechart');
+    });
+  });
+
+  describe('testQuery', () => {
+    let backend: MockBackend;
+    let discovery: SchemaDiscovery;
+
+    beforeEach(() => {
+      const config = createTestConfig();
+
+      backend = createMockBackend({
+        queryWorkspace: async () => ({
+          status: LogsQueryResultStatus.Success,
+          tables: [
+            logsTable('PrimaryResult', [['web-1', 3], ['web-2', 5], ['web-3', 8]], COLUMNS),
+            logsTable('Table_1', [['db-1', 1]], COLUMNS),
+          ],
+        }),
+      });
+
+      discovery = new SchemaDiscovery(config, backend, new WorkspaceRegistry(config));
+    });
+
+    it('should request one extra row to report truncation of every table', async () => {
+      const result = await discovery.testQuery({ query: 'Heartbeat', maxRows: 2 });
+
+      expect(backend.queryWorkspace).toHaveBeenCalledWith('test-workspace-id', '(Heartbeat)\n| take 3', { duration: 'PT1H' }, { abortSignal: undefined });
+      expect(result).toMatchObject({ status: 'Success', name: 'PrimaryResult', rowCount: 2, truncated: true });
+      expect(result.rows).toEqual([['web-1', 3], ['web-2', 5]]);
+      expect(result.additionalTables).toEqual([
+        { name: 'Table_1', columns: COLUMNS, rows: [['db-1', 1]], rowCount: 1, truncated: false },
+      ]);
+    });
+
+    it('should apply the timespan and key rows by column name', async () => {
+      const result = await discovery.testQuery({
+        query: 'Heartbeat',
+        timespan: { start: '2025-01-01T00:00:00Z', duration: '7d' },
+        rowFormat: 'objects',
+      });
+
+      expect(vi.mocked(backend.queryWorkspace).mock.calls[0][2]).toEqual({ startTime: new Date('2025-01-01T00:00:00Z'), duration: 'P7D' });
+      expect(result.timespan).toEqual({ start: '2025-01-01T00:00:00Z', duration: '7d' });
+      expect(result.rows[0]).toEqual({ Computer: 'web-1', Count: 3 });
+
+      await expect(discovery.testQuery({ query: 'Heartbeat', timespan: { end: '2025-01-01T00:00:00Z' } }))
+        .rejects.toThrow('needs a start or a duration');
+    });
+
+    it('should return every row without a row limit for exports', async () => {
+      const result = await discovery.testQuery({ query: 'Heartbeat', maxRows: 2, allRows: true });
+
+      expect(backend.queryWorkspace.mock.calls[0][1]).toBe('Heartbeat');
+      expect(result).toMatchObject({ rowCount: 3, truncated: false });
+    });
+
+    it('should return partial results with the error details', async () => {
+      backend.queryWorkspace.mockResolvedValueOnce({
+        status: LogsQueryResultStatus.PartialFailure,
+        partialTables: [logsTable('PrimaryResult', [['web-1', 3]], COLUMNS)],
+        partialError: Object.assign(new Error('Query exceeded the memory limit'), { code: 'PartialError' }),
+      });
+
+      const result = await discovery.testQuery({ query: 'Heartbeat' });
+
+      expect(result.status).toBe('PartialFailure');
+      expect(result.rowCount).toBe(1);
+      expect(result.error).toEqual({ code: 'PartialError', message: 'Query exceeded the memory limit' });
+    });
+  });
+});
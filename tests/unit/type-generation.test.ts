@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TypeGeneration } from '../../src/services/TypeGeneration.js';
+import { SchemaDiscovery } from '../../src/services/SchemaDiscovery.js';
+import { WorkspaceRegistry } from '../../src/services/WorkspaceRegistry.js';
+import { createTestConfig } from '../helpers/config.js';
+import { createMockBackend, queryResult } from '../helpers/backend.js';
+
+const SECURITY_ALERT_SCHEMA = [
+  ['TimeGenerated', 0, 'System.DateTime'],
+  ['AlertName', 1, 'System.String'],
+  ['OSType', 2, 'System.String'],
+  ['EventCount', 3, 'System.Int64'],
+  ['IsIncident', 4, 'System.SByte'],
+  ['Entities', 5, 'System.Object'],
+  ['Extended_Properties', 6, 'System.Object'],
+];
+
+const ENTITIES = [
+  [JSON.stringify([{ Type: 'account', Name: 'alice' }, { Type: 'ip', Address: '10.0.0.1' }])],
+  [JSON.stringify([{ Type: 'account', Name: 'bob', Sid: 'S-1-5' }])],
+];
+
+describe('TypeGeneration', () => {
+  let schemaDiscovery: SchemaDiscovery;
+  let generator: TypeGeneration;
+
+  beforeEach(() => {
+    const config = createTestConfig();
+
+    const backend = createMockBackend({
+      queryWorkspace: async (_workspaceId, query) => queryResult(query.endsWith('getschema') ? SECURITY_ALERT_SCHEMA : ENTITIES),
+    });
+
+    schemaDiscovery = new SchemaDiscovery(config, backend, new WorkspaceRegistry(config));
+    generator = new TypeGeneration(schemaDiscovery);
+  });
+
+  it('should map KQL types to an interface, zod schema and row mapper', async () => {
+    const result = await generator.generateTypeScriptTypes({ tableName: 'SecurityAlert' });
+
+    expect(result.typeName).toBe('SecurityAlertRow');
+    expect(result.properties.map(p => p.property)).toEqual([
+      'timeGenerated', 'alertName', 'osType', 'eventCount', 'isIncident', 'entities', 'extendedProperties',
+    ]);
+    expect(result.inferredDynamicColumns).toEqual([]);
+    expect(result.code).toContain('export interface SecurityAlertRow {');
+    expect(result.code).toContain('  timeGenerated: Date | null;');
+    expect(result.code).toContain('  eventCount: number | null;');
+    expect(result.code).toContain('  isIncident: boolean | null;');
+    expect(result.code).toContain('  entities: unknown;');
+    expect(result.code).toContain('  timeGenerated: z.date().nullable(),');
+    expect(result.code).toContain('export function createSecurityAlertRowMapper(columns: LogsColumn[])');
+    expect(result.code).toContain(`    osType: asString(get(row, 'OSType')),`);
+    expect(result.code).toContain('function asDate(');
+    expect(result.code).not.toContain('function asBigInt(');
+  });
+
+  it('should honour naming, nullability, date and long options', async () => {
+    const result = await generator.generateTypeScriptTypes({
+      tableName: 'SecurityAlert',
+      typeName: 'Alert',
+      naming: 'original',
+      nullable: false,
+      dates: 'string',
+      longs: 'bigint',
+      includeZod: false,
+    });
+
+    expect(result.code).toContain('  TimeGenerated: string;');
+    expect(result.code).toContain('  EventCount: bigint;');
+    expect(result.code).toContain(`    TimeGenerated: asIsoString(get(row, 'TimeGenerated')),`);
+    expect(result.code).toContain('  }) as Alert;');
+    expect(result.code).not.toContain('zod');
+  });
+
+  it('should use a cached JSON field analysis as the nested type of a dynamic column', async () => {
+    await schemaDiscovery.analyzeJsonFieldSchema({ tableName: 'SecurityAlert', jsonFieldName: 'Entities' });
+
+    const result = await generator.generateTypeScriptTypes({ tableName: 'SecurityAlert' });
+
+    expect(result.inferredDynamicColumns).toEqual(['Entities']);
+    expect(result.code).toContain('export type SecurityAlertRowEntities = Array<{');
+    expect(result.code).toContain(`  Type: 'account';`);
+    expect(result.code).toContain('  Sid?: string;');
+    expect(result.code).toContain('  entities: SecurityAlertRowEntities | null;');
+    expect(result.code).toContain('export const SecurityAlertRowEntitiesSchema = z.array(z.union([z.object({');
+    expect(result.code).toContain('  entities: SecurityAlertRowEntitiesSchema.nullable(),');
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { WorkspaceRegistry } from '../../src/services/WorkspaceRegistry.js';
+import { createTestConfig } from '../helpers/config.js';
+
+describe('WorkspaceRegistry', () => {
+  let registry: WorkspaceRegistry;
+
+  beforeEach(() => {
+    registry = new WorkspaceRegistry(createTestConfig({
+      workspaces: [
+        { alias: 'sentinel', workspaceId: '11111111-1111-1111-1111-111111111111', description: 'Sentinel', isDefault: true },
+        { alias: 'dev', workspaceId: '22222222-2222-2222-2222-222222222222', isDefault: false },
+      ],
+    }));
+  });
+
+  it('should resolve the default workspace when none is given', () => {
+    expect(registry.resolve().alias).toBe('sentinel');
+  });
+
+  it('should resolve by alias or workspace ID', () => {
+    expect(registry.resolve('DEV').workspaceId).toBe('22222222-2222-2222-2222-222222222222');
+    expect(registry.resolve('11111111-1111-1111-1111-111111111111').alias).toBe('sentinel');
+  });
+
+  it('should allow unregistered workspace IDs', () => {
+    const workspace = registry.resolve('33333333-3333-3333-3333-333333333333');
+    expect(workspace.registered).toBe(false);
+    expect(workspace.workspaceId).toBe('33333333-3333-3333-3333-333333333333');
+  });
+
+  it('should reject unknown aliases', () => {
+    expect(() => registry.resolve('platform')).toThrow('Unknown workspace "platform"');
+  });
+});